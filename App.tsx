@@ -13,9 +13,27 @@ import { Sidebar } from './components/Sidebar';
 import { CpuIcon } from './components/icons/CpuIcon';
 import { PipelineVisualizer } from './components/PipelineVisualizer';
 import { MemoryMapVisualizer } from './components/MemoryMapVisualizer';
+import { IsaDesigner } from './components/IsaDesigner';
+import { NN_INSTRUCTIONS } from './services/isa';
 
 type View = 'landing' | 'auth' | 'dashboard';
-export type DashboardView = 'features' | 'implementation' | 'memory_map' | 'compiler_optimizations' | 'pipeline_visualization' | 'demo' | 'conclusion';
+
+// Custom instructions grouped by EX latency for the Implementation page. Evaluated on render so
+// instructions added in the ISA Designer are included.
+const nnLatencyGroups = () => Object.entries(
+  NN_INSTRUCTIONS.reduce<Record<number, string[]>>((groups, instr) => {
+    (groups[instr.latency] ??= []).push(instr.mnemonic);
+    return groups;
+  }, {})
+).map(([latency, mnemonics]) => ({ latency: Number(latency), mnemonics }));
+
+const formatEncoding = (instr: typeof NN_INSTRUCTIONS[number]): string => {
+  const { encoding } = instr;
+  if (encoding.type === 'R') return `R-type, opcode 0b${encoding.opcode.toString(2).padStart(7, '0')}, funct3 ${encoding.funct3}`;
+  if (encoding.type === 'R4') return `R4-type, opcode 0b${encoding.opcode.toString(2).padStart(7, '0')}, funct2 ${encoding.funct2}`;
+  return encoding.type;
+};
+export type DashboardView = 'features' | 'implementation' | 'memory_map' | 'compiler_optimizations' | 'pipeline_visualization' | 'isa_designer' | 'demo' | 'conclusion';
 
 
 const App: React.FC = () => {
@@ -88,23 +106,32 @@ const App: React.FC = () => {
               </div>
               <div>
                 <h3 className="text-lg font-semibold text-cyan-400 mb-2">Instruction Encoding</h3>
-                <p>Custom opcodes for all new instructions were seamlessly integrated into the standard RISC-V decoding logic, ensuring compatibility and extensibility.</p>
+                <p>Custom opcodes for all new instructions were seamlessly integrated into the standard RISC-V decoding logic, ensuring compatibility and extensibility. Two-source instructions use the custom-0 major opcode and the three-source ones use the R4 layout in custom-1:</p>
+                <ul className="list-disc list-inside space-y-1 mt-2">
+                  {NN_INSTRUCTIONS.map(instr => (
+                    <li key={instr.mnemonic}><strong>`{instr.mnemonic}`:</strong> {formatEncoding(instr)}</li>
+                  ))}
+                </ul>
               </div>
                <div>
                 <h3 className="text-lg font-semibold text-cyan-400 mb-2">Instruction Latency & Throughput</h3>
                 <ul className="list-disc list-inside space-y-1">
-                  <li><strong>mac/relu/sigmoid/tanh:</strong> Single-cycle latency, fully pipelined for a throughput of 1 instruction/cycle.</li>
-                  <li><strong>conv2d.3x3/dwconv.3x3:</strong> 3-cycle latency. This multi-cycle operation replaces dozens of standard instructions.</li>
-                   <li><strong>maxpool.2x2:</strong> 2-cycle latency, replacing a loop of comparisons and branches for a significant net gain.</li>
+                  {nnLatencyGroups().map(({ latency, mnemonics }) => (
+                    <li key={latency}>
+                      <strong>{mnemonics.join('/')}:</strong> {latency === 1
+                        ? 'Single-cycle latency, fully pipelined for a throughput of 1 instruction/cycle.'
+                        : `${latency}-cycle latency. The multi-cycle unit holds EX and stalls younger instructions, but replaces a loop of standard instructions.`}
+                    </li>
+                  ))}
                 </ul>
               </div>
                <div className="lg:col-span-3">
                 <h3 className="text-lg font-semibold text-cyan-400 mb-2">Advanced ISA Extensions</h3>
-                <p>Beyond basic MAC and ReLU, the ISA now includes first-class instructions for other critical NN primitives:</p>
+                <p>The custom NN extension provides first-class instructions for critical NN primitives:</p>
                  <ul className="list-disc list-inside space-y-1 mt-2">
-                  <li><strong>`dwconv.3x3`:</strong> A dedicated instruction to accelerate depthwise separable convolutions, a key component of efficient models like MobileNet.</li>
-                  <li><strong>`maxpool.2x2`:</strong> A hardware-level instruction to perform 2x2 max pooling, eliminating loop overhead for this common downsampling operation.</li>
-                  <li><strong>`sigmoid`/`tanh`:</strong> Hardware support for additional non-linear activation functions, increasing the range of compatible neural network architectures.</li>
+                  {NN_INSTRUCTIONS.map(instr => (
+                    <li key={instr.mnemonic}><strong>`{instr.mnemonic}`</strong> ({instr.semantics}): {instr.description}</li>
+                  ))}
                 </ul>
               </div>
               <div className="md:col-span-2 lg:col-span-3">
@@ -146,6 +173,8 @@ const App: React.FC = () => {
         );
       case 'pipeline_visualization':
         return <PipelineVisualizer />;
+      case 'isa_designer':
+        return <IsaDesigner />;
       case 'demo':
         return (
           <Section title="Interactive AI Generators" icon={<CodeIcon />}>
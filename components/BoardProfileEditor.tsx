@@ -0,0 +1,197 @@
+import React, { useState, useMemo } from 'react';
+import {
+    BUILTIN_BOARDS, PROFILE_IDS, PROFILE_PARAMETERS, DEFAULT_ENTRY, validateBoard, parseBoardsJson, exportBoardsJson, boardId, BoardImportError,
+} from '../services/boards';
+import type { Board, BoardValidation, DVFSProfile, ProfileId } from '../services/boards';
+import { ISA_INSTRUCTIONS } from '../services/isa';
+import { downloadFile } from '../services/download';
+
+const inputClass = "w-full p-1.5 bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const labelClass = "block text-xs font-medium text-slate-400 mb-1";
+const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-semibold py-2 px-4 rounded-md disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors";
+
+type CostTable = 'cycles_hw' | 'energy_per_cycle_hw';
+
+// Table rows: the default entry, every instruction the workload mix can contain, then anything else the
+// profile lists (e.g. base instructions such as add and sub).
+const instructionRows = (profile: DVFSProfile): string[] => {
+    const mix = ISA_INSTRUCTIONS.filter(instr => instr.defaultMixCount !== undefined).map(instr => instr.mnemonic);
+    const listed = [...Object.keys(profile.cycles_hw), ...Object.keys(profile.energy_per_cycle_hw)];
+    return [...new Set([DEFAULT_ENTRY, ...mix, ...listed])];
+};
+
+export const BoardProfileEditor: React.FC<{
+    boards: Record<string, Board>;
+    userBoards: Record<string, Board>;
+    selectedBoardId: string;
+    onSave: (userBoards: Record<string, Board>, selectId: string) => void;
+}> = ({ boards, userBoards, selectedBoardId, onSave }) => {
+    // Id the draft is saved under, or null for a board that has not been saved yet.
+    const [editingId, setEditingId] = useState<string | null>(selectedBoardId);
+    const [draft, setDraft] = useState<Board>(() => structuredClone(boards[selectedBoardId]));
+    const [profileId, setProfileId] = useState<ProfileId>('balanced');
+    const [importError, setImportError] = useState<string | null>(null);
+
+    const validation: BoardValidation = useMemo(() => validateBoard(draft), [draft]);
+    const profile: DVFSProfile = draft.profiles[profileId];
+    const rows: string[] = useMemo(() => instructionRows(profile), [profile]);
+
+    const edit = (board: Board, id: string | null) => {
+        setDraft(structuredClone(board));
+        setEditingId(id);
+    };
+    const updateProfile = (changes: Partial<DVFSProfile>) =>
+        setDraft((d: Board) => ({ ...d, profiles: { ...d.profiles, [profileId]: { ...d.profiles[profileId], ...changes } } }));
+    // An empty cell removes the entry, so the instruction falls back to the default cost.
+    const updateCost = (table: CostTable, mnemonic: string, text: string) => {
+        const entries = { ...profile[table] };
+        if (text.trim() === '') delete entries[mnemonic];
+        else entries[mnemonic] = Number(text);
+        updateProfile({ [table]: entries });
+    };
+
+    const handleSave = () => {
+        if (validation.errors.length > 0) return;
+        const id = editingId ?? boardId(draft.name, boards);
+        onSave({ ...userBoards, [id]: draft }, id);
+        setEditingId(id);
+    };
+
+    const handleRemove = (id: string) => {
+        const { [id]: _removed, ...rest } = userBoards;
+        const next = BUILTIN_BOARDS[id] ? id : 'pynq-z2';
+        onSave(rest, next);
+        edit(BUILTIN_BOARDS[next], next);
+    };
+
+    const handleImport = async (file: File) => {
+        try {
+            const imported = parseBoardsJson(await file.text());
+            onSave({ ...userBoards, ...imported }, Object.keys(imported)[0] ?? selectedBoardId);
+            setImportError(null);
+        } catch (err) {
+            setImportError(err instanceof BoardImportError ? err.message : `Could not read '${file.name}'.`);
+        }
+    };
+
+    const isUserBoard = editingId !== null && userBoards[editingId] !== undefined;
+
+    return (
+        <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-xl font-bold text-slate-100">{editingId ? `Editing ${boards[editingId]?.name ?? draft.name}` : 'New Board'}</h3>
+                <div className="flex flex-wrap gap-2">
+                    <select value={editingId ?? ''} onChange={e => edit(boards[e.target.value], e.target.value)} className={`${inputClass} w-auto`} aria-label="Board to edit">
+                        {editingId === null && <option value="">(unsaved)</option>}
+                        {Object.entries(boards).map(([id, board]: [string, Board]) => <option key={id} value={id}>{board.name}</option>)}
+                    </select>
+                    <button onClick={() => edit({ ...draft, name: `${draft.name} (copy)` }, null)} className={buttonClass}>Clone</button>
+                    <button
+                        onClick={() => downloadFile(exportBoardsJson(userBoards), 'board-profiles.json', 'application/json')}
+                        disabled={Object.keys(userBoards).length === 0}
+                        className={buttonClass}
+                    >
+                        Export JSON
+                    </button>
+                    <label className={`${buttonClass} cursor-pointer`}>
+                        Import JSON
+                        <input type="file" accept=".json" className="hidden" onChange={e => { if (e.target.files?.[0]) handleImport(e.target.files[0]); e.target.value = ''; }} />
+                    </label>
+                </div>
+            </div>
+            {importError && <pre className="text-xs text-red-400 whitespace-pre-wrap" role="alert">{importError}</pre>}
+
+            <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                    <label className={labelClass}>Board name</label>
+                    <input type="text" value={draft.name} onChange={e => setDraft((d: Board) => ({ ...d, name: e.target.value }))} className={inputClass} />
+                </div>
+                <div>
+                    <label className={labelClass}>Family</label>
+                    <input type="text" value={draft.family} onChange={e => setDraft((d: Board) => ({ ...d, family: e.target.value }))} className={inputClass} placeholder="e.g., Xilinx Zynq UltraScale+" />
+                </div>
+            </div>
+
+            <div className="flex space-x-2">
+                {PROFILE_IDS.map(id => (
+                    <button key={id} onClick={() => setProfileId(id)} className={`flex-1 py-2 text-sm font-semibold rounded-md transition-colors ${profileId === id ? 'bg-cyan-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}>
+                        {draft.profiles[id].name || id}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid lg:grid-cols-2 gap-6">
+                <div className="grid grid-cols-2 gap-3 content-start">
+                    <div className="col-span-2">
+                        <label className={labelClass}>Profile name</label>
+                        <input type="text" value={profile.name} onChange={e => updateProfile({ name: e.target.value })} className={inputClass} />
+                    </div>
+                    {PROFILE_PARAMETERS.map(({ key, label, unit }) => (
+                        <div key={key}>
+                            <label className={labelClass}>{label} <span className="text-slate-500">({unit})</span></label>
+                            <input
+                                type="number"
+                                value={Number.isNaN(profile[key]) ? '' : profile[key] as number}
+                                onChange={e => updateProfile({ [key]: e.target.value === '' ? NaN : Number(e.target.value) })}
+                                className={`${inputClass} font-mono`}
+                            />
+                        </div>
+                    ))}
+                </div>
+                <div className="max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-slate-800">
+                            <tr className="text-left text-xs text-slate-400">
+                                <th className="font-normal py-1">Instruction</th>
+                                <th className="font-normal py-1">Cycles</th>
+                                <th className="font-normal py-1">Energy / cycle (pJ)</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(mnemonic => (
+                                <tr key={mnemonic}>
+                                    <td className={`font-mono pr-2 ${mnemonic === DEFAULT_ENTRY ? 'text-slate-400 italic' : 'text-slate-300'}`}>{mnemonic}</td>
+                                    {(['cycles_hw', 'energy_per_cycle_hw'] as CostTable[]).map(table => (
+                                        <td key={table} className="py-0.5 pr-2">
+                                            <input
+                                                type="number"
+                                                value={profile[table][mnemonic] ?? ''}
+                                                placeholder="default"
+                                                onChange={e => updateCost(table, mnemonic, e.target.value)}
+                                                className={`${inputClass} font-mono`}
+                                                aria-label={`${mnemonic} ${table === 'cycles_hw' ? 'cycles' : 'energy per cycle'}`}
+                                            />
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            </div>
+
+            {validation.errors.length > 0 && (
+                <ul className="text-sm text-red-400 space-y-1" role="alert">
+                    {validation.errors.map((err, i) => <li key={i}>{err}</li>)}
+                </ul>
+            )}
+            {validation.warnings.length > 0 && (
+                <ul className="text-xs text-amber-400 space-y-1">
+                    {validation.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                </ul>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                <button onClick={handleSave} disabled={validation.errors.length > 0} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                    {editingId ? 'Save Changes' : 'Add Board'}
+                </button>
+                {isUserBoard && (
+                    <button onClick={() => handleRemove(editingId!)} className={buttonClass}>
+                        {BUILTIN_BOARDS[editingId!] ? 'Reset to Built-in' : 'Delete Board'}
+                    </button>
+                )}
+            </div>
+            <p className="text-xs text-slate-500">Saving a built-in board stores your version in this browser, which replaces the built-in values until it is reset.</p>
+        </div>
+    );
+};
@@ -0,0 +1,194 @@
+import React, { useState, useMemo } from 'react';
+import { loadBenchmarkHistory, loadCalibrationPairings, saveCalibrationPairings, pairedSamples, calibrateBoard, CalibrationError } from '../services/calibration';
+import type { BenchmarkHistoryEntry, CalibrationPairing, CalibrationResult, CalibrationSample } from '../services/calibration';
+import { PROFILE_IDS } from '../services/boards';
+import type { Board, ProfileId } from '../services/boards';
+import type { InstructionTrace } from '../services/trace';
+
+const inputClass = "w-full p-1.5 bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const labelClass = "block text-xs font-medium text-slate-400 mb-1";
+const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-semibold py-2 px-4 rounded-md disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors";
+const pairButtonClass = "text-xs text-cyan-400 hover:text-cyan-300 underline disabled:text-slate-600 disabled:no-underline disabled:cursor-not-allowed";
+
+const formatFactor = (factor: number) => `x${factor.toFixed(3)}`;
+
+export const CalibrationPanel: React.FC<{
+    boards: Record<string, Board>;
+    userBoards: Record<string, Board>;
+    selectedBoardId: string;
+    instructionMix: Record<string, number>;
+    trace: InstructionTrace | null;
+    onSave: (userBoards: Record<string, Board>, selectId: string) => void;
+}> = ({ boards, userBoards, selectedBoardId, instructionMix, trace, onSave }) => {
+    const [history, setHistory] = useState<BenchmarkHistoryEntry[]>(loadBenchmarkHistory);
+    const [targetId, setTargetId] = useState(selectedBoardId);
+    // The mix and profile each entry is paired with, keyed by the entry's timestamp.
+    const [pairings, setPairings] = useState<Record<string, CalibrationPairing>>(loadCalibrationPairings);
+
+    const board = boards[targetId];
+    // Only runs measured on the board being calibrated can be paired.
+    const boardHistory = history.filter(entry => entry.boardName === board.name);
+    const otherBoardRuns = history.length - boardHistory.length;
+    const sampleList: CalibrationSample[] = useMemo(() => pairedSamples(history, pairings, board.name), [history, pairings, board]);
+    const outcome: { result?: CalibrationResult; error?: string } | null = useMemo(() => {
+        if (sampleList.length === 0) return null;
+        try {
+            return { result: calibrateBoard(board, sampleList) };
+        } catch (err) {
+            if (err instanceof CalibrationError) return { error: err.message };
+            throw err;
+        }
+    }, [board, sampleList]);
+
+    const pairingOf = (entry: BenchmarkHistoryEntry): CalibrationPairing => pairings[entry.timestamp] ?? { profileId: 'balanced' };
+    const updatePairing = (entry: BenchmarkHistoryEntry, pairing: CalibrationPairing) => {
+        const next = { ...pairings, [entry.timestamp]: pairing };
+        saveCalibrationPairings(next);
+        setPairings(next);
+    };
+    const pair = (entry: BenchmarkHistoryEntry, mix: Record<string, number>, mixName: string) =>
+        updatePairing(entry, { profileId: pairingOf(entry).profileId, instructionMix: { ...mix }, mixName });
+    const unpair = (entry: BenchmarkHistoryEntry) => updatePairing(entry, { profileId: pairingOf(entry).profileId });
+    const setProfile = (entry: BenchmarkHistoryEntry, profileId: ProfileId) => updatePairing(entry, { ...pairingOf(entry), profileId });
+
+    const result = outcome?.result;
+
+    return (
+        <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="text-xl font-bold text-slate-100">Calibrate Against Board Benchmarks</h3>
+                <div className="flex flex-wrap items-end gap-2">
+                    <div>
+                        <label className={labelClass}>Board to calibrate</label>
+                        <select value={targetId} onChange={e => setTargetId(e.target.value)} className={`${inputClass} w-auto`}>
+                            {Object.entries(boards).map(([id, b]: [string, Board]) => <option key={id} value={id}>{b.name}</option>)}
+                        </select>
+                    </div>
+                    <button onClick={() => setHistory(loadBenchmarkHistory())} className={buttonClass}>Reload History</button>
+                </div>
+            </div>
+            <p className="text-sm text-slate-400">
+                Pair runs from the Live Benchmarking history with the instruction mix of their workload (the current sliders or the traced program) and the DVFS profile the board ran at. Least squares then fits one factor for cycles, one for dynamic energy and one for static power, and applies them to every profile of the board. Pairings are kept in this browser, so a calibration can be reproduced later.
+            </p>
+
+            {otherBoardRuns > 0 && (
+                <p className="text-xs text-amber-400">{otherBoardRuns} run{otherBoardRuns === 1 ? '' : 's'} measured on other boards {otherBoardRuns === 1 ? 'is' : 'are'} hidden; only runs of {board.name} can calibrate it.</p>
+            )}
+            {boardHistory.length === 0 ? (
+                <p className="text-sm text-slate-500">No benchmark runs of {board.name} in the history yet. Run a benchmark on the Live Benchmarking page and save it to the history.</p>
+            ) : (
+                <div className="max-h-72 overflow-y-auto">
+                    <table className="w-full text-sm">
+                        <thead className="sticky top-0 bg-slate-800">
+                            <tr className="text-left text-xs text-slate-400">
+                                <th className="font-normal py-1">Run</th>
+                                <th className="font-normal py-1 text-right">Latency</th>
+                                <th className="font-normal py-1 text-right">Energy</th>
+                                <th className="font-normal py-1 pl-4">Profile</th>
+                                <th className="font-normal py-1">Instruction mix</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {boardHistory.map(entry => {
+                                const pairing = pairingOf(entry);
+                                const paired = pairing.instructionMix !== undefined;
+                                return (
+                                    <tr key={entry.timestamp} className={paired ? 'text-slate-100' : 'text-slate-400'}>
+                                        <td className="py-1 pr-2">{entry.boardName} <span className="text-xs text-slate-500">{new Date(entry.timestamp).toLocaleString()}</span></td>
+                                        <td className="py-1 text-right font-mono">{entry.hw_latency_ms.toFixed(3)} ms</td>
+                                        <td className="py-1 text-right font-mono">{entry.hw_energy_mj.toFixed(3)} mJ</td>
+                                        <td className="py-1 pl-4 pr-2">
+                                            <select value={pairing.profileId} onChange={e => setProfile(entry, e.target.value as ProfileId)} className={`${inputClass} w-auto text-xs`} aria-label="Profile the run used">
+                                                {PROFILE_IDS.map(id => <option key={id} value={id}>{board.profiles[id].name}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="py-1 space-x-3">
+                                            {paired && <span className="text-xs text-cyan-400">{pairing.mixName}</span>}
+                                            <button onClick={() => pair(entry, instructionMix, 'slider mix')} className={pairButtonClass}>Use sliders</button>
+                                            <button onClick={() => trace && pair(entry, trace.counts, trace.source)} disabled={!trace} className={pairButtonClass}>Use trace</button>
+                                            {paired && <button onClick={() => unpair(entry)} className={pairButtonClass}>Unpair</button>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {outcome?.error && <p className="text-sm text-red-400" role="alert">{outcome.error}</p>}
+            {result && (
+                <div className="grid md:grid-cols-2 gap-6 text-sm">
+                    <div>
+                        <h5 className="font-semibold text-slate-300 mb-2">Correction factors for {board.name}</h5>
+                        <ul className="space-y-1">
+                            <li className="flex justify-between"><span>Cycles:</span> <span className="font-mono text-cyan-400">{formatFactor(result.factors.cycles)}</span></li>
+                            <li className="flex justify-between"><span>Dynamic energy:</span> <span className="font-mono text-cyan-400">{formatFactor(result.factors.dynamicEnergy)}</span></li>
+                            <li className="flex justify-between"><span>Static power:</span> <span className="font-mono text-cyan-400">{formatFactor(result.factors.staticPower)}</span></li>
+                        </ul>
+                        {result.energyFit === 'shared' && (
+                            <p className="mt-2 text-xs text-amber-400">The paired runs cannot separate dynamic from static energy, so both share one factor. Pair runs at different profiles or with different mixes to fit them separately.</p>
+                        )}
+                        <table className="w-full font-mono text-xs mt-4">
+                            <thead>
+                                <tr className="text-slate-400 text-left">
+                                    <th className="font-normal pb-1 font-sans">Mean abs. error</th>
+                                    <th className="font-normal pb-1 text-right">Before</th>
+                                    <th className="font-normal pb-1 text-right">After</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <tr>
+                                    <td className="py-0.5 font-sans text-slate-300">Latency</td>
+                                    <td className="py-0.5 text-right text-slate-400">{result.errorBefore.latencyPct.toFixed(1)}%</td>
+                                    <td className="py-0.5 text-right text-cyan-400">{result.errorAfter.latencyPct.toFixed(1)}%</td>
+                                </tr>
+                                <tr>
+                                    <td className="py-0.5 font-sans text-slate-300">Energy</td>
+                                    <td className="py-0.5 text-right text-slate-400">{result.errorBefore.energyPct.toFixed(1)}%</td>
+                                    <td className="py-0.5 text-right text-cyan-400">{result.errorAfter.energyPct.toFixed(1)}%</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+                    <div>
+                        <h5 className="font-semibold text-slate-300 mb-2">Per run</h5>
+                        <table className="w-full font-mono text-xs">
+                            <thead>
+                                <tr className="text-slate-400 text-left">
+                                    <th className="font-normal pb-1 font-sans">Run</th>
+                                    <th className="font-normal pb-1 text-right">Measured</th>
+                                    <th className="font-normal pb-1 text-right">Before</th>
+                                    <th className="font-normal pb-1 text-right">After</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.comparisons.flatMap(({ sample, before, after }) => [
+                                    <tr key={`${sample.entry.timestamp}-latency`} className="border-t border-slate-700">
+                                        <td className="py-0.5 font-sans text-slate-300">{sample.entry.boardName}, {board.profiles[sample.profileId].name}</td>
+                                        <td className="py-0.5 text-right">{sample.entry.hw_latency_ms.toFixed(3)} ms</td>
+                                        <td className="py-0.5 text-right text-slate-400">{before.latencyMs.toFixed(3)} ms</td>
+                                        <td className="py-0.5 text-right text-cyan-400">{after.latencyMs.toFixed(3)} ms</td>
+                                    </tr>,
+                                    <tr key={`${sample.entry.timestamp}-energy`}>
+                                        <td className="py-0.5 font-sans text-slate-500">{sample.mixName}</td>
+                                        <td className="py-0.5 text-right">{sample.entry.hw_energy_mj.toFixed(3)} mJ</td>
+                                        <td className="py-0.5 text-right text-slate-400">{before.energyMj.toFixed(3)} mJ</td>
+                                        <td className="py-0.5 text-right text-cyan-400">{after.energyMj.toFixed(3)} mJ</td>
+                                    </tr>,
+                                ])}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+                <button onClick={() => result && onSave({ ...userBoards, [targetId]: result.board }, targetId)} disabled={!result} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                    Save Calibrated Profiles
+                </button>
+                <p className="text-xs text-slate-500">The calibrated board is stored in this browser like an edited board; reset it from the board editor.</p>
+            </div>
+        </div>
+    );
+};
@@ -2,6 +2,7 @@ import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react'
 import { generateAssemblyStream, AiResponseError } from '../services/geminiService';
 import { PerformanceChart } from './PerformanceChart';
 import { PipelineVisualizer } from './PipelineVisualizer';
+import { MachineCodeExport } from './MachineCodeExport';
 
 declare global {
   interface Window {
@@ -353,6 +354,15 @@ export const CppGenerator: React.FC = () => {
               </div>
             </div>
           }
+          {assemblyCode && !isLoading && !error && (
+            <div className="mt-8 border-t border-slate-700 pt-8">
+              <div className="text-center mb-8">
+                <h3 className="text-2xl font-bold text-slate-100 mb-4">Machine Code</h3>
+                <p className="text-slate-400 max-w-3xl mx-auto">The generated assembly is encoded into 32-bit RV32IMF words, with the custom NN instructions in the custom-0/custom-1 opcode space. Download a flat binary for the board run, or an Intel HEX / <code>$readmemh</code> image to initialise the instruction memory in simulation.</p>
+              </div>
+              <MachineCodeExport assemblyCode={assemblyCode} fileName={activeExample.replace(/\W+/g, '_').toLowerCase()} />
+            </div>
+          )}
           {assemblyCode && !isLoading && !error && (
             <div className="mt-8 border-t border-slate-700 pt-8">
               <div className="text-center mb-8">
@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { disassemble, toAssemblySource } from '../services/disassembler';
+import type { DisassembledInstruction } from '../services/disassembler';
+import { PipelineVisualizer } from './PipelineVisualizer';
+
+interface DisassemblyViewProps {
+    file: File | null;
+}
+
+export const DisassemblyView: React.FC<DisassemblyViewProps> = ({ file }) => {
+    const [lines, setLines] = useState<DisassembledInstruction[]>([]);
+    const [trailingBytes, setTrailingBytes] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const [showVisualizer, setShowVisualizer] = useState(false);
+
+    useEffect(() => {
+        setLines([]);
+        setTrailingBytes(0);
+        setError(null);
+        setShowVisualizer(false);
+        if (!file) return;
+
+        let cancelled = false;
+        file.arrayBuffer()
+            .then(buffer => {
+                if (cancelled) return;
+                setLines(disassemble(new Uint8Array(buffer)));
+                setTrailingBytes(buffer.byteLength % 4);
+            })
+            .catch(e => {
+                console.error(e);
+                if (!cancelled) setError(`Could not read '${file.name}'.`);
+            });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    const source = useMemo(() => toAssemblySource(lines), [lines]);
+    const undecodable = lines.filter(line => line.op === null).length;
+
+    if (!file) return null;
+
+    return (
+        <div className="mt-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-2">
+                <h4 className="text-sm font-semibold text-slate-300">
+                    Disassembly of <span className="font-mono text-cyan-400">{file.name}</span>
+                    <span className="ml-2 font-normal text-slate-500">{lines.length} word{lines.length === 1 ? '' : 's'}</span>
+                </h4>
+                <button
+                    onClick={() => setShowVisualizer(s => !s)}
+                    disabled={lines.length === 0}
+                    className="bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-semibold py-2 px-4 rounded-md disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
+                >
+                    {showVisualizer ? 'Hide Pipeline Simulation' : 'Open in Pipeline Visualizer'}
+                </button>
+            </div>
+            {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+            {(undecodable > 0 || trailingBytes > 0) && (
+                <p className="mb-2 text-sm text-yellow-400" role="alert">
+                    {undecodable > 0 && `${undecodable} word${undecodable === 1 ? ' does' : 's do'} not decode as RV32IMF or custom NN instructions. `}
+                    {trailingBytes > 0 && `The file size is not a multiple of 4; the last ${trailingBytes} byte${trailingBytes === 1 ? ' was' : 's were'} ignored.`}
+                </p>
+            )}
+            <div className="max-h-72 overflow-y-auto bg-slate-900/50 rounded-lg border border-slate-700 font-mono text-xs">
+                <table className="w-full text-left">
+                    <thead className="text-slate-500 sticky top-0 bg-slate-900">
+                        <tr><th className="py-1 px-3">Address</th><th className="py-1 pr-4">Word</th><th className="py-1">Instruction</th></tr>
+                    </thead>
+                    <tbody>
+                        {lines.map(line => (
+                            <tr key={line.address} className={line.op === null ? 'text-red-400' : 'text-slate-300'}>
+                                <td className="py-0.5 px-3 text-slate-500">{line.address.toString(16).padStart(8, '0')}</td>
+                                <td className="py-0.5 pr-4 text-cyan-400">{(line.word >>> 0).toString(16).padStart(8, '0')}</td>
+                                <td className="py-0.5">{line.text}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {showVisualizer && (
+                <div className="mt-6 p-6 bg-slate-900/50 rounded-lg border border-slate-600 animate-fade-in">
+                    <PipelineVisualizer initialCode={source} isEmbedded={true} />
+                </div>
+            )}
+        </div>
+    );
+};
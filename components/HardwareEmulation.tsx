@@ -1,38 +1,25 @@
-
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
 import { Section } from './Section';
 import { SignalIcon } from './icons/SignalIcon';
-import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid, LabelList } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid, LabelList, ScatterChart, Scatter, ReferenceLine } from 'recharts';
 import { Card } from './Card';
 import { XIcon } from './icons/XIcon';
-
-type ProfileId = 'performance' | 'balanced' | 'low_power';
-
-type DVFSProfile = {
-  name: string;
-  riscv_clk_mhz: number;
-  arm_clk_mhz: number;
-  energy_per_cycle_hw: { [key: string]: number };
-  energy_per_cycle_sw: number;
-  static_power_hw_mw: number;
-  static_power_sw_mw: number;
-  l1_cache_hit_rate: number;
-  l1_miss_penalty_cycles: number;
-  dram_energy_per_access_pj: number;
-  branch_predictor_accuracy: number;
-  branch_mispredict_penalty_cycles: number;
-  cycles_hw: { [key: string]: number }; // Board-specific cycle counts
-};
-
-type Board = {
-  name: string;
-  family: string;
-  profiles: {
-    performance: DVFSProfile;
-    balanced: DVFSProfile;
-    low_power: DVFSProfile;
-  };
-};
+import { BoardProfileEditor } from './BoardProfileEditor';
+import { CalibrationPanel } from './CalibrationPanel';
+import { ISA_INSTRUCTIONS, ISA_CATEGORIES } from '../services/isa';
+import { parseExecutionLog, TraceParseError, MAX_TRACE_CYCLES } from '../services/trace';
+import type { InstructionTrace } from '../services/trace';
+import { ProgramLoadError, bootImageFromElf } from '../services/pipelineEngine';
+import type { ChunkedRunOptions } from '../services/pipelineEngine';
+import { traceInWorker, EngineWorkerError } from '../services/engineWorkerClient';
+import { disassemble, toAssemblySource } from '../services/disassembler';
+import { isElf, parseElf32, elfToAssembly, ElfError } from '../services/elf';
+import { loadUserBoards, saveUserBoards, mergeBoards } from '../services/boards';
+import type { Board, DVFSProfile, ProfileId } from '../services/boards';
+import { estimateStatistical, estimateTraced } from '../services/emulationModel';
+import type { Estimate } from '../services/emulationModel';
+import { sweepOperatingPoints, bestOperatingPoint, MAX_INTERPOLATION_STEPS } from '../services/dvfsSweep';
+import type { OperatingPoint, SweepConstraint } from '../services/dvfsSweep';
 
 type BenchmarkResults = {
   hw_latency_ms: number;
@@ -45,71 +32,17 @@ type BenchmarkResults = {
 };
 
 
-const boards: { [key: string]: Board } = {
-  // --- Xilinx/AMD Boards ---
-  "pynq-z2": {
-    name: "PYNQ-Z2", family: "Xilinx Zynq-7000",
-    profiles: {
-      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 780, energy_per_cycle_hw: { 'mac': 4.7, 'relu': 1.6, 'conv2d.3x3': 13, 'dwconv.3x3': 10.3, 'maxpool.2x2': 6, 'sigmoid': 23, 'tanh': 23, 'fadd.s': 1.2, 'fsub.s': 1.2, 'fmul.s': 3.9, 'fdiv.s': 16, 'flw': 7.8, 'fsw': 7.8, 'lw': 6.2, 'sw': 6.2, 'beq': 0.78, 'jal': 0.94, 'addi': 0.62, 'default': 0.78 }, energy_per_cycle_sw: 29, static_power_hw_mw: 150, static_power_sw_mw: 250, l1_cache_hit_rate: 0.98, l1_miss_penalty_cycles: 40, dram_energy_per_access_pj: 650, branch_predictor_accuracy: 0.92, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 650, energy_per_cycle_hw: { 'mac': 3, 'relu': 1, 'conv2d.3x3': 8.33, 'dwconv.3x3': 6.67, 'maxpool.2x2': 4, 'sigmoid': 15, 'tanh': 15, 'fadd.s': 0.8, 'fsub.s': 0.8, 'fmul.s': 2.5, 'fdiv.s': 10, 'flw': 5, 'fsw': 5, 'lw': 4, 'sw': 4, 'beq': 0.5, 'jal': 0.6, 'addi': 0.4, 'default': 0.5 }, energy_per_cycle_sw: 20, static_power_hw_mw: 100, static_power_sw_mw: 180, l1_cache_hit_rate: 0.97, l1_miss_penalty_cycles: 42, dram_energy_per_access_pj: 680, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 520, energy_per_cycle_hw: { 'mac': 1.7, 'relu': 0.56, 'conv2d.3x3': 4.67, 'dwconv.3x3': 3.67, 'maxpool.2x2': 2.25, 'sigmoid': 8.4, 'tanh': 8.4, 'fadd.s': 0.45, 'fsub.s': 0.45, 'fmul.s': 1.4, 'fdiv.s': 5.6, 'flw': 2.8, 'fsw': 2.8, 'lw': 2.2, 'sw': 2.2, 'beq': 0.28, 'jal': 0.34, 'addi': 0.22, 'default': 0.28 }, energy_per_cycle_sw: 13, static_power_hw_mw: 70, static_power_sw_mw: 120, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 45, dram_energy_per_access_pj: 720, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-    }
-  },
-  "arty-a7": {
-    name: "Arty A7-100T", family: "Xilinx Artix-7",
-    profiles: {
-      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 500, energy_per_cycle_hw: { 'mac': 3.7, 'relu': 1.2, 'conv2d.3x3': 10.3, 'dwconv.3x3': 8.33, 'maxpool.2x2': 4.95, 'sigmoid': 19, 'tanh': 19, 'fadd.s': 0.99, 'fsub.s': 0.99, 'fmul.s': 3.1, 'fdiv.s': 12, 'flw': 6.2, 'fsw': 6.2, 'lw': 5, 'sw': 5, 'beq': 0.62, 'jal': 0.75, 'addi': 0.5, 'default': 0.62 }, energy_per_cycle_sw: 23, static_power_hw_mw: 120, static_power_sw_mw: 180, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 50, dram_energy_per_access_pj: 800, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 400, energy_per_cycle_hw: { 'mac': 2.4, 'relu': 0.8, 'conv2d.3x3': 6.67, 'dwconv.3x3': 5.33, 'maxpool.2x2': 3.2, 'sigmoid': 12, 'tanh': 12, 'fadd.s': 0.64, 'fsub.s': 0.64, 'fmul.s': 2, 'fdiv.s': 8, 'flw': 4, 'fsw': 4, 'lw': 3.2, 'sw': 3.2, 'beq': 0.4, 'jal': 0.48, 'addi': 0.32, 'default': 0.4 }, energy_per_cycle_sw: 16, static_power_hw_mw: 80, static_power_sw_mw: 130, l1_cache_hit_rate: 0.95, l1_miss_penalty_cycles: 52, dram_energy_per_access_pj: 840, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 320, energy_per_cycle_hw: { 'mac': 1.3, 'relu': 0.45, 'conv2d.3x3': 3.67, 'dwconv.3x3': 3, 'maxpool.2x2': 1.8, 'sigmoid': 6.7, 'tanh': 6.7, 'fadd.s': 0.36, 'fsub.s': 0.36, 'fmul.s': 1.1, 'fdiv.s': 4.5, 'flw': 2.2, 'fsw': 2.2, 'lw': 1.8, 'sw': 1.8, 'beq': 0.22, 'jal': 0.27, 'addi': 0.18, 'default': 0.22 }, energy_per_cycle_sw: 10, static_power_hw_mw: 50, static_power_sw_mw: 90, l1_cache_hit_rate: 0.94, l1_miss_penalty_cycles: 55, dram_energy_per_access_pj: 880, branch_predictor_accuracy: 0.85, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-    }
-  },
-  "basys3": {
-    name: "Basys 3", family: "Xilinx Artix-7",
-    profiles: {
-      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 500, energy_per_cycle_hw: { 'mac': 3.3, 'relu': 1.1, 'conv2d.3x3': 9.33, 'dwconv.3x3': 7.33, 'maxpool.2x2': 4.4, 'sigmoid': 17, 'tanh': 17, 'fadd.s': 0.88, 'fsub.s': 0.88, 'fmul.s': 2.8, 'fdiv.s': 11, 'flw': 5.5, 'fsw': 5.5, 'lw': 4.4, 'sw': 4.4, 'beq': 0.55, 'jal': 0.66, 'addi': 0.44, 'default': 0.55 }, energy_per_cycle_sw: 20, static_power_hw_mw: 110, static_power_sw_mw: 170, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 50, dram_energy_per_access_pj: 800, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 400, energy_per_cycle_hw: { 'mac': 2.1, 'relu': 0.7, 'conv2d.3x3': 6, 'dwconv.3x3': 4.67, 'maxpool.2x2': 2.8, 'sigmoid': 11, 'tanh': 11, 'fadd.s': 0.56, 'fsub.s': 0.56, 'fmul.s': 1.8, 'fdiv.s': 7, 'flw': 3.5, 'fsw': 3.5, 'lw': 2.8, 'sw': 2.8, 'beq': 0.35, 'jal': 0.42, 'addi': 0.28, 'default': 0.35 }, energy_per_cycle_sw: 14, static_power_hw_mw: 75, static_power_sw_mw: 120, l1_cache_hit_rate: 0.95, l1_miss_penalty_cycles: 52, dram_energy_per_access_pj: 840, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 320, energy_per_cycle_hw: { 'mac': 1.2, 'relu': 0.39, 'conv2d.3x3': 3.27, 'dwconv.3x3': 2.6, 'maxpool.2x2': 1.55, 'sigmoid': 5.9, 'tanh': 5.9, 'fadd.s': 0.31, 'fsub.s': 0.31, 'fmul.s': 0.98, 'fdiv.s': 3.9, 'flw': 2, 'fsw': 2, 'lw': 1.6, 'sw': 1.6, 'beq': 0.2, 'jal': 0.24, 'addi': 0.16, 'default': 0.2 }, energy_per_cycle_sw: 9, static_power_hw_mw: 45, static_power_sw_mw: 80, l1_cache_hit_rate: 0.94, l1_miss_penalty_cycles: 55, dram_energy_per_access_pj: 880, branch_predictor_accuracy: 0.85, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-    }
-  },
-  "zybo-z7": {
-    name: "Zybo Z7-20", family: "Xilinx Zynq-7000",
-    profiles: {
-      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 780, energy_per_cycle_hw: { 'mac': 4.7, 'relu': 1.6, 'conv2d.3x3': 13, 'dwconv.3x3': 10.3, 'maxpool.2x2': 6, 'sigmoid': 23, 'tanh': 23, 'fadd.s': 1.2, 'fsub.s': 1.2, 'fmul.s': 3.9, 'fdiv.s': 16, 'flw': 7.8, 'fsw': 7.8, 'lw': 6.2, 'sw': 6.2, 'beq': 0.78, 'jal': 0.94, 'addi': 0.62, 'default': 0.78 }, energy_per_cycle_sw: 29, static_power_hw_mw: 150, static_power_sw_mw: 250, l1_cache_hit_rate: 0.98, l1_miss_penalty_cycles: 40, dram_energy_per_access_pj: 650, branch_predictor_accuracy: 0.92, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 650, energy_per_cycle_hw: { 'mac': 3, 'relu': 1, 'conv2d.3x3': 8.33, 'dwconv.3x3': 6.67, 'maxpool.2x2': 4, 'sigmoid': 15, 'tanh': 15, 'fadd.s': 0.8, 'fsub.s': 0.8, 'fmul.s': 2.5, 'fdiv.s': 10, 'flw': 5, 'fsw': 5, 'lw': 4, 'sw': 4, 'beq': 0.5, 'jal': 0.6, 'addi': 0.4, 'default': 0.5 }, energy_per_cycle_sw: 20, static_power_hw_mw: 100, static_power_sw_mw: 180, l1_cache_hit_rate: 0.97, l1_miss_penalty_cycles: 42, dram_energy_per_access_pj: 680, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 520, energy_per_cycle_hw: { 'mac': 1.7, 'relu': 0.56, 'conv2d.3x3': 4.67, 'dwconv.3x3': 3.67, 'maxpool.2x2': 2.25, 'sigmoid': 8.4, 'tanh': 8.4, 'fadd.s': 0.45, 'fsub.s': 0.45, 'fmul.s': 1.4, 'fdiv.s': 5.6, 'flw': 2.8, 'fsw': 2.8, 'lw': 2.2, 'sw': 2.2, 'beq': 0.28, 'jal': 0.34, 'addi': 0.22, 'default': 0.28 }, energy_per_cycle_sw: 13, static_power_hw_mw: 70, static_power_sw_mw: 120, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 45, dram_energy_per_access_pj: 720, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
-    }
-  },
-};
+// The workload mix covers every ISA registry instruction that has a default dynamic count, including
+// instructions added in the ISA Designer. Read when the view mounts so new definitions show up.
+const getMixInstructions = () => ISA_INSTRUCTIONS.filter(instr => instr.defaultMixCount !== undefined);
 
-const instructionCategories = {
-    'Custom NN': ['mac', 'relu', 'conv2d.3x3', 'dwconv.3x3', 'maxpool.2x2', 'sigmoid', 'tanh'],
-    'Standard FPU': ['fadd.s', 'fsub.s', 'fmul.s', 'fdiv.s', 'flw', 'fsw'],
-    'Integer & Control': ['lw', 'sw', 'beq', 'jal', 'addi', 'add', 'sub'],
-};
+const getInstructionCategories = (): Record<string, string[]> => Object.fromEntries(
+    ISA_CATEGORIES.map(category => [category, getMixInstructions().filter(instr => instr.category === category).map(instr => instr.mnemonic)]),
+);
 
-const defaultInstructionMix = {
-    'mac': 1300000,
-    'relu': 250000,
-    'conv2d.3x3': 50000,
-    'dwconv.3x3': 25000,
-    'maxpool.2x2': 15000,
-    'sigmoid': 0,
-    'tanh': 0,
-    'fadd.s': 200000,
-    'fsub.s': 50000,
-    'fmul.s': 300000,
-    'fdiv.s': 1000,
-    'flw': 400000,
-    'fsw': 200000,
-    'lw': 100000,
-    'sw': 50000,
-    'beq': 150000,
-    'jal': 20000,
-    'addi': 250000,
-    'add': 100000,
-    'sub': 50000,
-    'default': 0
-};
+const getDefaultInstructionMix = (): Record<string, number> => Object.fromEntries(
+    getMixInstructions().map(instr => [instr.mnemonic, instr.defaultMixCount ?? 0]),
+);
 
 const formatNumber = (num: number) => {
     if (num >= 1e9) return `${(num / 1e9).toFixed(1)}B`;
@@ -125,6 +58,215 @@ const formatThroughput = (num: number) => {
     return `${num.toFixed(0)} OPS`;
 };
 
+const TRACE_SAMPLE_CODE = `# y = relu(A x) for an 8x8 matrix, one mac per element
+        li   s0, 0x1000        # A, row-major
+        li   s1, 0x1100        # x
+        li   s2, 0x1200        # y
+        li   t0, 0             # row
+        li   t3, 8
+row:    li   a0, 0             # accumulator
+        li   t1, 0             # column
+        mv   a1, s1
+col:    lw   a2, 0(s0)
+        lw   a3, 0(a1)
+        mac  a0, a2, a3
+        addi s0, s0, 4
+        addi a1, a1, 4
+        addi t1, t1, 1
+        blt  t1, t3, col
+        relu a0, a0
+        sw   a0, 0(s2)
+        addi s2, s2, 4
+        addi t0, t0, 1
+        blt  t0, t3, row
+`;
+
+type TraceSource = 'assembly' | 'binary' | 'log';
+
+const TRACE_SOURCE_NAMES: Record<TraceSource, string> = {
+    assembly: 'Assembly',
+    binary: 'Binary / ELF',
+    log: 'Spike / QEMU log',
+};
+
+// Simulates a flat .bin image (code at address 0) or a linked ELF executable.
+const traceFromBinary = (bytes: Uint8Array, name: string, options: ChunkedRunOptions): Promise<InstructionTrace> => {
+    if (!isElf(bytes)) return traceInWorker(toAssemblySource(disassemble(bytes)), name, undefined, undefined, options);
+    const image = parseElf32(bytes);
+    return traceInWorker(elfToAssembly(image), name, bootImageFromElf(image), undefined, options);
+};
+
+const TraceComparisonPanel: React.FC<{ trace: InstructionTrace; profile: DVFSProfile }> = ({ trace, profile }) => {
+    const statistical = estimateStatistical(trace.counts, profile, true);
+    const traced = estimateTraced(trace, profile);
+    const { events } = trace;
+    const rows: { label: string; key: keyof Estimate; digits: number; unit?: string }[] = [
+        { label: 'Base cycles', key: 'baseCycles', digits: 0 },
+        { label: 'Cache miss cycles', key: 'cachePenaltyCycles', digits: 0 },
+        { label: 'Mispredict cycles', key: 'branchPenaltyCycles', digits: 0 },
+        { label: 'Hazard stall cycles', key: 'hazardStallCycles', digits: 0 },
+        { label: 'Total cycles', key: 'totalCycles', digits: 0 },
+        { label: 'Latency', key: 'latencyMs', digits: 4, unit: 'ms' },
+        { label: 'Energy', key: 'totalEnergyMj', digits: 4, unit: 'mJ' },
+    ];
+    const difference = (key: keyof Estimate) =>
+        statistical[key] === 0 ? '--' : `${((traced[key] / statistical[key] - 1) * 100).toFixed(1)}%`;
+
+    return (
+        <div className="grid md:grid-cols-2 gap-6 text-sm">
+            <div>
+                <h5 className="font-semibold text-slate-300 mb-2">Measured events <span className="text-slate-500 font-normal">({trace.source})</span></h5>
+                <ul className="space-y-1">
+                    <li className="flex justify-between"><span>Instructions:</span> <span className="font-mono text-cyan-400">{formatNumber(events.instructions)}</span></li>
+                    {events.simulatedCycles !== undefined && (
+                        <li className="flex justify-between"><span>Simulated cycles:</span> <span className="font-mono text-cyan-400">{formatNumber(events.simulatedCycles)}</span></li>
+                    )}
+                    <li className="flex justify-between"><span>Branches / jumps:</span> <span className="font-mono text-cyan-400">{events.branches} / {events.jumps}</span></li>
+                    <li className="flex justify-between"><span>Mispredictions:</span> <span className="font-mono text-cyan-400">{events.mispredictions}</span></li>
+                    <li className="flex justify-between"><span>Memory accesses:</span> <span className="font-mono text-cyan-400">{events.memoryAccesses}</span></li>
+                    <li className="flex justify-between"><span>L1I / L1D misses:</span> <span className="font-mono text-cyan-400">{events.icacheMisses} / {events.dcacheMisses ?? 'n/a'}</span></li>
+                    <li className="flex justify-between"><span>Load-use / RAW stalls:</span> <span className="font-mono text-cyan-400">{events.loadUseStalls} / {events.rawStalls}</span></li>
+                </ul>
+                {events.dcacheMisses === null && <p className="mt-2 text-xs text-amber-400">The log has no data addresses; data cache misses use the profile's hit rate.</p>}
+                {trace.undecoded > 0 && <p className="mt-2 text-xs text-amber-400">{trace.undecoded} logged instructions are outside the ISA (e.g. compressed) and were not counted.</p>}
+                {trace.truncated && <p className="mt-2 text-xs text-amber-400">The trace was cut off at its length limit ({formatNumber(MAX_TRACE_CYCLES)} simulated cycles).</p>}
+            </div>
+            <div>
+                <h5 className="font-semibold text-slate-300 mb-2">Custom core estimate for this mix</h5>
+                <table className="w-full font-mono text-xs">
+                    <thead>
+                        <tr className="text-slate-400 text-left">
+                            <th className="font-normal pb-1"></th>
+                            <th className="font-normal pb-1 text-right">Statistical</th>
+                            <th className="font-normal pb-1 text-right">Traced</th>
+                            <th className="font-normal pb-1 text-right">Diff</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(({ label, key, digits, unit }) => (
+                            <tr key={key} className={key === 'totalCycles' ? 'border-t border-slate-700' : ''}>
+                                <td className="py-0.5 font-sans text-slate-300">{label}</td>
+                                <td className="py-0.5 text-right text-slate-400">{statistical[key].toFixed(digits)}{unit ? ` ${unit}` : ''}</td>
+                                <td className="py-0.5 text-right text-cyan-400">{traced[key].toFixed(digits)}{unit ? ` ${unit}` : ''}</td>
+                                <td className="py-0.5 text-right text-slate-500">{difference(key)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+const SweepTooltip: React.FC<any> = ({ active, payload }) => {
+    if (!active || !payload?.length) return null;
+    const point: OperatingPoint = payload[0].payload;
+    return (
+        <div className="bg-slate-800 border border-slate-700 rounded-lg p-2 text-xs">
+            <p className="font-semibold text-slate-100">{point.boardName} - {point.label}{point.profileId === null ? ' (interpolated)' : ''}</p>
+            <p className="text-slate-400">{point.latencyMs.toFixed(3)} ms, {point.energyMj.toFixed(3)} mJ</p>
+        </div>
+    );
+};
+
+const DvfsSweepPanel: React.FC<{
+    instructionMix: Record<string, number>;
+    boards: Record<string, Board>;
+    onSelect: (boardId: string, profileId: ProfileId) => void;
+}> = ({ instructionMix, boards, onSelect }) => {
+    const [steps, setSteps] = useState(3);
+    const [constraintKind, setConstraintKind] = useState<SweepConstraint['kind']>('deadline');
+    const [limit, setLimit] = useState('');
+
+    const points: OperatingPoint[] = useMemo(() => sweepOperatingPoints(instructionMix, boards, steps), [instructionMix, boards, steps]);
+    const frontier = points.filter(point => point.pareto).sort((a, b) => a.latencyMs - b.latencyMs);
+    const limitValue = Number(limit);
+    const constraint: SweepConstraint | null = limit.trim() === '' || !(limitValue > 0) ? null
+        : constraintKind === 'deadline' ? { kind: 'deadline', latencyMs: limitValue } : { kind: 'budget', energyMj: limitValue };
+    const best = constraint ? bestOperatingPoint(points, constraint) : null;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Interpolated frequencies between profiles</label>
+                    <select value={steps} onChange={e => setSteps(Number(e.target.value))} className="p-1.5 bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                        {Array.from({ length: MAX_INTERPOLATION_STEPS + 1 }, (_, n) => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">Constraint</label>
+                    <div className="flex space-x-2">
+                        {(['deadline', 'budget'] as SweepConstraint['kind'][]).map(kind => (
+                            <button key={kind} onClick={() => setConstraintKind(kind)} className={`px-3 py-1.5 font-semibold rounded-md transition-colors ${constraintKind === kind ? 'bg-cyan-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}>
+                                {kind === 'deadline' ? 'Latency deadline' : 'Energy budget'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div>
+                    <label className="block text-xs font-medium text-slate-400 mb-1">{constraintKind === 'deadline' ? 'Deadline (ms)' : 'Budget (mJ)'}</label>
+                    <input type="number" min="0" step="any" value={limit} onChange={e => setLimit(e.target.value)} placeholder="none" className="w-32 p-1.5 bg-slate-900 text-slate-100 rounded-md border border-slate-600 font-mono focus:outline-none focus:ring-2 focus:ring-cyan-500" />
+                </div>
+            </div>
+
+            <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                    <ScatterChart margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                        <XAxis type="number" dataKey="latencyMs" name="Latency" unit=" ms" stroke="#94a3b8" domain={['auto', 'auto']} tickFormatter={(v: number) => v.toPrecision(3)} />
+                        <YAxis type="number" dataKey="energyMj" name="Energy" unit=" mJ" stroke="#94a3b8" domain={['auto', 'auto']} tickFormatter={(v: number) => v.toPrecision(3)} width={80} />
+                        <Tooltip content={<SweepTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+                        <Legend />
+                        {constraint?.kind === 'deadline' && <ReferenceLine x={constraint.latencyMs} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: 'deadline', fill: '#f59e0b', position: 'top' }} />}
+                        {constraint?.kind === 'budget' && <ReferenceLine y={constraint.energyMj} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: 'budget', fill: '#f59e0b', position: 'right' }} />}
+                        <Scatter name="Dominated" data={points.filter(point => !point.pareto)} fill="#64748b" />
+                        <Scatter name="Pareto frontier" data={frontier} fill="#22d3ee" line={{ stroke: '#22d3ee' }} />
+                        {best && <Scatter name="Best operating point" data={[best]} fill="#4ade80" shape="star" />}
+                    </ScatterChart>
+                </ResponsiveContainer>
+            </div>
+
+            {constraint && (best ? (
+                <div className="flex flex-wrap items-center justify-between gap-2 bg-green-900/20 border border-green-500/50 rounded-md p-3 text-sm">
+                    <p className="text-slate-300">
+                        Best operating point: <strong className="text-green-400">{best.boardName} - {best.label}</strong>{best.profileId === null && ' (interpolated)'} at {best.clockMhz.toFixed(0)} MHz,
+                        {' '}{best.latencyMs.toFixed(3)} ms and {best.energyMj.toFixed(3)} mJ.
+                    </p>
+                    {best.profileId !== null && (
+                        <button onClick={() => onSelect(best.boardId, best.profileId!)} className="text-xs text-cyan-400 hover:text-cyan-300 underline">Use this profile</button>
+                    )}
+                </div>
+            ) : (
+                <p className="text-sm text-red-400" role="alert">
+                    No operating point meets the {constraint.kind === 'deadline' ? `${constraint.latencyMs} ms deadline` : `${constraint.energyMj} mJ budget`}.
+                </p>
+            ))}
+
+            <table className="w-full font-mono text-xs">
+                <thead>
+                    <tr className="text-slate-400 text-left">
+                        <th className="font-normal pb-1 font-sans">Pareto-optimal point</th>
+                        <th className="font-normal pb-1 text-right">Clock</th>
+                        <th className="font-normal pb-1 text-right">Latency</th>
+                        <th className="font-normal pb-1 text-right">Energy</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {frontier.map((point, i) => (
+                        <tr key={`${point.boardId}-${i}`} className={point === best ? 'text-green-400' : 'text-slate-300'}>
+                            <td className="py-0.5 font-sans">{point.boardName} - {point.label}</td>
+                            <td className="py-0.5 text-right">{point.clockMhz.toFixed(0)} MHz</td>
+                            <td className="py-0.5 text-right">{point.latencyMs.toFixed(3)} ms</td>
+                            <td className="py-0.5 text-right">{point.energyMj.toFixed(3)} mJ</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
 const InstructionSlider: React.FC<{
     name: string;
     value: number;
@@ -318,8 +460,12 @@ const LoadingSpinner: React.FC = () => (
 
 export const HardwareEmulation: React.FC = () => {
     const [selectedBoardId, setSelectedBoardId] = useState('pynq-z2');
+    const [userBoards, setUserBoards] = useState<Record<string, Board>>(loadUserBoards);
+    const [isEditorOpen, setIsEditorOpen] = useState(false);
+    const [isSweepOpen, setIsSweepOpen] = useState(false);
+    const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
     const [selectedProfileId, setSelectedProfileId] = useState<ProfileId>('balanced');
-    const [instructionMix, setInstructionMix] = useState<Record<string, number>>(defaultInstructionMix);
+    const [instructionMix, setInstructionMix] = useState<Record<string, number>>(getDefaultInstructionMix);
 
     // State for hardware validation
     const [pynqIp, setPynqIp] = useState('192.168.2.99');
@@ -332,69 +478,28 @@ export const HardwareEmulation: React.FC = () => {
     const [benchmarkError, setBenchmarkError] = useState<string | null>(null);
     const [isServerModalOpen, setIsServerModalOpen] = useState(false);
 
+    // State for the trace-driven estimate
+    const [traceSource, setTraceSource] = useState<TraceSource>('assembly');
+    const [traceCode, setTraceCode] = useState(TRACE_SAMPLE_CODE);
+    const [trace, setTrace] = useState<InstructionTrace | null>(null);
+    const [traceError, setTraceError] = useState<string | null>(null);
+    const [traceProgress, setTraceProgress] = useState<number | null>(null); // Simulated cycles while a trace runs
+    const traceRun = useRef<AbortController | null>(null);
+
+
+    const instructionCategories: Record<string, string[]> = useMemo(() => getInstructionCategories(), []);
 
     const handleInstructionChange = useCallback((name: string, value: number) => {
         setInstructionMix(prev => ({ ...prev, [name]: value }));
     }, []);
 
-    const selectedBoard = boards[selectedBoardId];
+    const boards: Record<string, Board> = useMemo(() => mergeBoards(userBoards), [userBoards]);
+    const selectedBoard = boards[selectedBoardId] ?? boards['pynq-z2'];
     const profile = selectedBoard.profiles[selectedProfileId];
 
     const results = useMemo(() => {
-        const sim = (isHw: boolean) => {
-            let totalCycles = 0;
-            let dynamicEnergyPj = 0;
-            let memoryAccesses = 0;
-            let branchCount = 0;
-
-            for (const [instr, count] of Object.entries(instructionMix)) {
-                const numericCount = Number(count);
-                if (numericCount === 0) continue;
-
-                if (isHw) {
-                    const cyclesPerInstr = profile.cycles_hw[instr] ?? profile.cycles_hw['default'] ?? 1;
-                    totalCycles += numericCount * cyclesPerInstr;
-                    const energyPerCycle = profile.energy_per_cycle_hw[instr] ?? profile.energy_per_cycle_hw['default'] ?? 0;
-                    dynamicEnergyPj += numericCount * cyclesPerInstr * energyPerCycle;
-                } else {
-                    const sw_equivalent_cycles = { 'mac': 5, 'relu': 3, 'conv2d.3x3': 40, 'dwconv.3x3': 35, 'maxpool.2x2': 10, 'sigmoid': 20, 'tanh': 20, 'default': 2 };
-                    totalCycles += numericCount * (sw_equivalent_cycles[instr as keyof typeof sw_equivalent_cycles] || sw_equivalent_cycles.default);
-                }
-
-                if (['lw', 'sw', 'flw', 'fsw'].includes(instr)) {
-                    memoryAccesses += numericCount;
-                }
-                 if (instr === 'beq') {
-                    branchCount += numericCount;
-                }
-            }
-
-            if (!isHw) {
-                dynamicEnergyPj = totalCycles * profile.energy_per_cycle_sw;
-            }
-
-            const cacheMisses = memoryAccesses * (1 - profile.l1_cache_hit_rate);
-            const cachePenaltyCycles = cacheMisses * profile.l1_miss_penalty_cycles;
-            totalCycles += cachePenaltyCycles;
-
-            // FIX: Explicitly cast operands to Number to ensure correct arithmetic operations.
-            const branchMispredicts = Number(branchCount) * (1 - Number(profile.branch_predictor_accuracy));
-            const branchPenaltyCycles = Number(branchMispredicts) * Number(profile.branch_mispredict_penalty_cycles);
-            totalCycles += branchPenaltyCycles;
-            
-            const clockMhz = isHw ? profile.riscv_clk_mhz : profile.arm_clk_mhz;
-            const latencyMs = (totalCycles / (clockMhz * 1e6)) * 1000;
-
-            const staticPowerMw = isHw ? profile.static_power_hw_mw : profile.static_power_sw_mw;
-            const staticEnergyMj = (staticPowerMw / 1000) * (latencyMs / 1000) * 1000;
-            const dynamicEnergyMj = dynamicEnergyPj / 1e9;
-            const totalEnergyMj = dynamicEnergyMj + staticEnergyMj;
-
-            return { latencyMs, totalEnergyMj, totalCycles };
-        };
-
-        const hw = sim(true);
-        const sw = sim(false);
+        const hw = estimateStatistical(instructionMix, profile, true);
+        const sw = estimateStatistical(instructionMix, profile, false);
         const speedup = sw.latencyMs / hw.latencyMs;
         const energyEfficiency = sw.totalEnergyMj / hw.totalEnergyMj;
         
@@ -408,6 +513,53 @@ export const HardwareEmulation: React.FC = () => {
         return { hw, sw, speedup, energyEfficiency, hwThroughput, swThroughput };
     }, [instructionMix, profile]);
     
+    const handleSelectOperatingPoint = useCallback((boardId: string, profileId: ProfileId) => {
+        setSelectedBoardId(boardId);
+        setSelectedProfileId(profileId);
+    }, []);
+
+    const handleSaveBoards = useCallback((next: Record<string, Board>, selectId: string) => {
+        saveUserBoards(next);
+        setUserBoards(next);
+        setSelectedBoardId(selectId);
+    }, []);
+
+    // A newer capture supersedes a simulation still running; its result is dropped.
+    const captureTrace = useCallback(async (capture: (options: ChunkedRunOptions) => InstructionTrace | Promise<InstructionTrace>) => {
+        traceRun.current?.abort();
+        const controller = new AbortController();
+        traceRun.current = controller;
+        setTraceProgress(0);
+        try {
+            const captured = await capture({ signal: controller.signal, onProgress: setTraceProgress });
+            if (controller.signal.aborted) return;
+            setTrace(captured);
+            setTraceError(null);
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            if (err instanceof ProgramLoadError || err instanceof TraceParseError || err instanceof ElfError || err instanceof EngineWorkerError) {
+                setTraceError(err.message);
+            } else {
+                setTraceError('Could not trace the program.');
+                console.error(err);
+            }
+        }
+        traceRun.current = null;
+        setTraceProgress(null);
+    }, []);
+
+    useEffect(() => () => traceRun.current?.abort(), []);
+
+    const handleTraceFile = useCallback(async (file: File) => {
+        if (traceSource === 'log') {
+            const text = await file.text();
+            captureTrace(() => parseExecutionLog(text, file.name));
+        } else {
+            const bytes = new Uint8Array(await file.arrayBuffer());
+            captureTrace(options => traceFromBinary(bytes, file.name, options));
+        }
+    }, [traceSource, captureTrace]);
+
     const handleConnect = useCallback(async () => {
         setConnectionStatus('connecting');
         setStatusMessage(`Connecting to ${pynqIp}...`);
@@ -469,7 +621,7 @@ export const HardwareEmulation: React.FC = () => {
     <>
         <Section title="Hardware Emulation & Cycle-Accurate Simulation" icon={<SignalIcon />}>
             <p className="text-slate-400 mb-8 max-w-4xl">
-                This interactive emulator projects the performance and energy consumption of the custom RISC-V core against a standard ARM core running the same workload in software. The model accounts for key architectural parameters, including clock speed, instruction latencies, cache performance, and power profiles derived from common FPGA development boards. Select a target board and a Dynamic Voltage and Frequency Scaling (DVFS) profile to see the estimated results.
+                This interactive emulator projects the performance and energy consumption of the custom RISC-V core against a standard ARM core running the same workload in software. The model accounts for key architectural parameters, including clock speed, instruction latencies, cache performance, and power profiles derived from common FPGA development boards. Select a target board and a Dynamic Voltage and Frequency Scaling (DVFS) profile to see the estimated results. To compare operating points, sweep every board and frequency and pick from the latency/energy Pareto frontier. The sliders drive a statistical model; for a measured workload, trace a program through the pipeline simulator or load a Spike/QEMU execution log below.
             </p>
 
             <div className="max-w-4xl mb-10">
@@ -515,6 +667,17 @@ export const HardwareEmulation: React.FC = () => {
             </div>
 
 
+            {isEditorOpen && (
+                <div className="mb-8">
+                    <BoardProfileEditor key={selectedBoardId} boards={boards} userBoards={userBoards} selectedBoardId={selectedBoardId} onSave={handleSaveBoards} />
+                </div>
+            )}
+            {isCalibrationOpen && (
+                <div className="mb-8">
+                    <CalibrationPanel boards={boards} userBoards={userBoards} selectedBoardId={selectedBoardId} instructionMix={instructionMix} trace={trace} onSave={handleSaveBoards} />
+                </div>
+            )}
+
             <div className="grid lg:grid-cols-12 gap-8">
                 <div className="lg:col-span-3">
                     <div className="space-y-6 bg-slate-800/50 p-6 rounded-lg border border-slate-700">
@@ -524,6 +687,12 @@ export const HardwareEmulation: React.FC = () => {
                                 {Object.entries(boards).map(([id, board]) => <option key={id} value={id}>{board.name}</option>)}
                             </select>
                              <p className="text-xs text-slate-500 mt-1">{selectedBoard.family}</p>
+                            <button onClick={() => setIsEditorOpen(open => !open)} className="mt-2 text-xs text-cyan-400 hover:text-cyan-300 underline">
+                                {isEditorOpen ? 'Close board editor' : 'Edit boards & profiles...'}
+                            </button>
+                            <button onClick={() => setIsCalibrationOpen(open => !open)} className="mt-1 block text-xs text-cyan-400 hover:text-cyan-300 underline">
+                                {isCalibrationOpen ? 'Close calibration' : 'Calibrate against benchmarks...'}
+                            </button>
                         </div>
                          <div>
                             <label htmlFor="profile-select" className="block text-sm font-medium text-slate-300 mb-2">DVFS Profile</label>
@@ -534,6 +703,9 @@ export const HardwareEmulation: React.FC = () => {
                                     </button>
                                 ))}
                             </div>
+                            <button onClick={() => setIsSweepOpen(open => !open)} className="mt-2 text-xs text-cyan-400 hover:text-cyan-300 underline">
+                                {isSweepOpen ? 'Hide DVFS sweep' : 'Sweep all boards & frequencies...'}
+                            </button>
                         </div>
                     </div>
                      <div className="mt-6 bg-slate-800/50 p-6 rounded-lg border border-slate-700">
@@ -544,7 +716,7 @@ export const HardwareEmulation: React.FC = () => {
                                 <h5 className="text-sm font-semibold text-cyan-400 mb-2">{category}</h5>
                                 <div className="space-y-2">
                                     {instructions.map(instr => (
-                                        <InstructionSlider key={instr} name={instr} value={instructionMix[instr as keyof typeof instructionMix]} onChange={(val) => handleInstructionChange(instr, val)} />
+                                        <InstructionSlider key={instr} name={instr} value={instructionMix[instr]} onChange={(val) => handleInstructionChange(instr, val)} />
                                     ))}
                                 </div>
                             </div>
@@ -587,7 +759,7 @@ export const HardwareEmulation: React.FC = () => {
                     </div>
 
                     <div className="mt-8 bg-slate-800/50 p-6 rounded-lg border border-slate-700">
-                        <h3 className="text-xl font-bold text-slate-100 mb-4">Performance & Energy Comparison</h4>
+                        <h3 className="text-xl font-bold text-slate-100 mb-4">Performance & Energy Comparison</h3>
                         <div className="h-80">
                             <ResponsiveContainer width="100%" height="100%">
                                 <BarChart data={chartData} layout="vertical" margin={{ top: 20, right: 60, left: 20, bottom: 20 }}>
@@ -629,6 +801,60 @@ export const HardwareEmulation: React.FC = () => {
                         </div>
                     </div>
 
+                    {isSweepOpen && (
+                        <div className="mt-8 bg-slate-800/50 p-6 rounded-lg border border-slate-700">
+                            <h3 className="text-xl font-bold text-slate-100 mb-2">DVFS Sweep</h3>
+                            <p className="text-sm text-slate-400 mb-4">
+                                The custom core's latency and energy for the current instruction mix at every board and DVFS profile, plus frequencies interpolated between adjacent profiles. Points on the Pareto frontier cannot be made faster without spending more energy; set a latency deadline or an energy budget to pick the best of them.
+                            </p>
+                            <DvfsSweepPanel instructionMix={instructionMix} boards={boards} onSelect={handleSelectOperatingPoint} />
+                        </div>
+                    )}
+
+                    <div className="mt-8 bg-slate-800/50 p-6 rounded-lg border border-slate-700">
+                        <h3 className="text-xl font-bold text-slate-100 mb-2">Trace-Driven Estimate</h3>
+                        <p className="text-sm text-slate-400 mb-4">
+                            Measure a real instruction stream instead of the sliders: run a program on the pipeline simulator (2-bit predictor, 4 KB L1 caches) or replay a Spike/QEMU execution log through the same models. Cycles are then charged for the mispredictions, cache misses and hazard stalls that actually occurred, and compared with the statistical model on the same instruction mix.
+                        </p>
+                        <div className="flex space-x-2 mb-4">
+                            {(Object.keys(TRACE_SOURCE_NAMES) as TraceSource[]).map(source => (
+                                <button key={source} onClick={() => setTraceSource(source)} className={`px-3 py-1.5 text-sm font-semibold rounded-md transition-colors ${traceSource === source ? 'bg-cyan-500 text-white' : 'bg-slate-700 hover:bg-slate-600 text-slate-300'}`}>
+                                    {TRACE_SOURCE_NAMES[source]}
+                                </button>
+                            ))}
+                        </div>
+                        {traceSource === 'assembly' ? (
+                            <div className="space-y-2">
+                                <textarea
+                                    value={traceCode}
+                                    onChange={e => setTraceCode(e.target.value)}
+                                    className="w-full h-48 font-mono text-sm bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                    spellCheck="false"
+                                    aria-label="Program to trace"
+                                />
+                                <button onClick={() => captureTrace(options => traceInWorker(traceCode, 'assembly program', undefined, undefined, options))} disabled={traceProgress !== null} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                                    Run in Simulator
+                                </button>
+                            </div>
+                        ) : (
+                            <input
+                                key={traceSource}
+                                type="file"
+                                accept={traceSource === 'log' ? '.log,.txt' : '.bin,.elf'}
+                                onChange={e => { if (e.target.files?.[0]) handleTraceFile(e.target.files[0]); }}
+                                className="w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"
+                                aria-label={traceSource === 'log' ? 'Execution log' : 'Program binary'}
+                            />
+                        )}
+                        {traceProgress !== null && (
+                            <p className="mt-3 text-sm text-slate-400" role="status">
+                                Simulating... {formatNumber(traceProgress)} of at most {formatNumber(MAX_TRACE_CYCLES)} cycles
+                            </p>
+                        )}
+                        {traceError && <p className="mt-3 text-sm text-red-400" role="alert">{traceError}</p>}
+                        {trace && <div className="mt-6"><TraceComparisonPanel trace={trace} profile={profile} /></div>}
+                    </div>
+
                 </div>
             </div>
         </Section>
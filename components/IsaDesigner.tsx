@@ -0,0 +1,268 @@
+import React, { useState, useMemo } from 'react';
+import { Section } from './Section';
+import { TerminalIcon } from './icons/TerminalIcon';
+import {
+    CUSTOM_OPCODE_SPACES, encodingPattern, loadUserInstructions, saveUserInstructions, toIsaInstruction, validateCustomInstruction,
+    testSemantics, SemanticsTestError,
+} from '../services/isa';
+import type { CustomInstructionDefinition, CustomInstructionLayout, NnOperands } from '../services/isa';
+import { downloadFile } from '../services/download';
+import { ENGINE_STALL_TIMEOUT_MS } from '../services/engineWorkerClient';
+
+const EXAMPLE_INSTRUCTION: CustomInstructionDefinition = {
+    mnemonic: 'avgpool.2x2',
+    name: '2x2 Average Pooling',
+    semantics: 'rd = mean(M[rs1], M[rs1+4], M[rs1+4*rs2], M[rs1+4*rs2+4])',
+    description: 'Averages a 2x2 window of a row-major matrix whose row stride in words is given by rs2.',
+    compilerRule: 'Replace 2x2 average-pooling loops with `avgpool.2x2`.',
+    layout: 'R',
+    opcode: CUSTOM_OPCODE_SPACES['custom-0'],
+    funct3: 5,
+    funct7: 0,
+    funct2: 0,
+    latency: 2,
+    energyPerCycle: 3,
+    swEquivalentCycles: 12,
+    executeSource: [
+        'const row = rs2 * 4;',
+        'return (readWord(rs1) + readWord(rs1 + 4) + readWord(rs1 + row) + readWord(rs1 + row + 4)) / 4;',
+    ].join('\n'),
+};
+
+const LAYOUT_LABELS: Record<CustomInstructionLayout, string> = {
+    'R': 'R-type (rd, rs1, rs2)',
+    'I': 'I-type (rd, rs1, imm)',
+    'R4': 'R4-type (rd, rs1, rs2, rs3)',
+};
+
+// 32-character bit pattern, most significant bit first, with '-' for operand bits.
+const bitPattern = (def: CustomInstructionDefinition): string => {
+    const { mask, match } = encodingPattern(toIsaInstruction(def).encoding);
+    return Array.from({ length: 32 }, (_, i) => {
+        const bit = 31 - i;
+        return (mask >>> bit) & 1 ? String((match >>> bit) & 1) : '-';
+    }).join('');
+};
+
+const inputClass = "w-full p-2 bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+const labelClass = "block text-sm font-medium text-slate-300 mb-1";
+const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-semibold py-2 px-4 rounded-md disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors";
+
+export const IsaDesigner: React.FC = () => {
+    const [definitions, setDefinitions] = useState<CustomInstructionDefinition[]>(loadUserInstructions);
+    const [draft, setDraft] = useState<CustomInstructionDefinition>(EXAMPLE_INSTRUCTION);
+    // Mnemonic of the saved definition being edited, or null when adding a new one.
+    const [editing, setEditing] = useState<string | null>(null);
+    const [testOperands, setTestOperands] = useState<NnOperands>({ rs1: 1, rs2: 2, rs3: 3, imm: 4 });
+    const [testResult, setTestResult] = useState<{ value?: number; error?: string } | null>(null);
+    const [isTesting, setIsTesting] = useState(false);
+
+    const others: CustomInstructionDefinition[] = definitions.filter((def: CustomInstructionDefinition) => def.mnemonic !== editing);
+    const errors: string[] = useMemo(() => validateCustomInstruction(draft, others), [draft, definitions, editing]);
+
+    const update = <K extends keyof CustomInstructionDefinition>(key: K, value: CustomInstructionDefinition[K]) =>
+        setDraft((d: CustomInstructionDefinition) => ({ ...d, [key]: value }));
+    const numberField = (key: 'funct3' | 'funct7' | 'funct2' | 'latency' | 'energyPerCycle' | 'swEquivalentCycles') =>
+        (e: React.ChangeEvent<HTMLInputElement>) => update(key, e.target.value === '' ? NaN : Number(e.target.value));
+
+    const persist = (next: CustomInstructionDefinition[]) => {
+        saveUserInstructions(next);
+        setDefinitions(next);
+    };
+
+    const handleSave = () => {
+        if (errors.length > 0) return;
+        const saved = { ...draft, compilerRule: draft.compilerRule?.trim() || undefined };
+        const index = definitions.findIndex((def: CustomInstructionDefinition) => def.mnemonic === editing);
+        persist(index === -1 ? [...definitions, saved] : definitions.map((def: CustomInstructionDefinition, i: number) => i === index ? saved : def));
+        setEditing(saved.mnemonic);
+    };
+
+    // Runs the semantic function once in a worker; a function that hangs is stopped after a timeout.
+    const handleTest = async () => {
+        setIsTesting(true);
+        try {
+            setTestResult({ value: await testSemantics(draft.executeSource, testOperands) });
+        } catch (err) {
+            setTestResult({ error: err instanceof SemanticsTestError ? err.message : 'The test could not be run.' });
+        } finally {
+            setIsTesting(false);
+        }
+    };
+
+    const handleEdit = (def: CustomInstructionDefinition) => {
+        setDraft({ ...def, compilerRule: def.compilerRule ?? '' });
+        setEditing(def.mnemonic);
+    };
+
+    const handleDelete = (mnemonic: string) => {
+        persist(definitions.filter((def: CustomInstructionDefinition) => def.mnemonic !== mnemonic));
+        if (editing === mnemonic) setEditing(null);
+    };
+
+    const handleNew = () => {
+        setDraft({ ...EXAMPLE_INSTRUCTION, mnemonic: '', name: '', semantics: '', description: '', compilerRule: '', executeSource: 'return rs1;' });
+        setEditing(null);
+    };
+
+    const pattern = errors.length === 0 ? bitPattern(draft) : null;
+
+    return (
+        <Section title="ISA Designer" icon={<TerminalIcon />}>
+            <div className="text-slate-400 max-w-4xl mb-8">
+                <p>
+                    Define your own instructions in the RISC-V custom opcode spaces. Saved instructions are added to the ISA registry: the pipeline visualizer can assemble and execute them, the Hardware Emulation dashboard offers a slider for each one, and the AI compiler is told to use them. Definitions are stored in this browser and can be exported as JSON.
+                </p>
+            </div>
+            <div className="grid lg:grid-cols-3 gap-8">
+                <div className="lg:col-span-2 bg-slate-800/50 p-6 rounded-lg border border-slate-700 space-y-4">
+                    <h3 className="text-xl font-bold text-slate-100">{editing ? `Editing ${editing}` : 'New Instruction'}</h3>
+                    <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                            <label className={labelClass}>Mnemonic</label>
+                            <input type="text" value={draft.mnemonic} onChange={e => update('mnemonic', e.target.value.trim())} className={`${inputClass} font-mono`} placeholder="e.g., avgpool.2x2" />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Name</label>
+                            <input type="text" value={draft.name} onChange={e => update('name', e.target.value)} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Operand Layout</label>
+                            <select value={draft.layout} onChange={e => update('layout', e.target.value as CustomInstructionLayout)} className={inputClass}>
+                                {Object.entries(LAYOUT_LABELS).map(([layout, label]) => <option key={layout} value={layout}>{label}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>Major Opcode</label>
+                            <select value={draft.opcode} onChange={e => update('opcode', Number(e.target.value))} className={`${inputClass} font-mono`}>
+                                {Object.entries(CUSTOM_OPCODE_SPACES).map(([name, opcode]) => (
+                                    <option key={name} value={opcode}>{name} (0b{opcode.toString(2).padStart(7, '0')})</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className={labelClass}>funct3</label>
+                            <input type="number" min="0" max="7" value={Number.isNaN(draft.funct3) ? '' : draft.funct3} onChange={numberField('funct3')} className={inputClass} />
+                        </div>
+                        {draft.layout === 'R' && (
+                            <div>
+                                <label className={labelClass}>funct7</label>
+                                <input type="number" min="0" max="127" value={Number.isNaN(draft.funct7) ? '' : draft.funct7} onChange={numberField('funct7')} className={inputClass} />
+                            </div>
+                        )}
+                        {draft.layout === 'R4' && (
+                            <div>
+                                <label className={labelClass}>funct2</label>
+                                <input type="number" min="0" max="3" value={Number.isNaN(draft.funct2) ? '' : draft.funct2} onChange={numberField('funct2')} className={inputClass} />
+                            </div>
+                        )}
+                        <div>
+                            <label className={labelClass}>Latency (EX cycles)</label>
+                            <input type="number" min="1" max="64" value={Number.isNaN(draft.latency) ? '' : draft.latency} onChange={numberField('latency')} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Energy per Cycle (pJ)</label>
+                            <input type="number" min="0" step="0.1" value={Number.isNaN(draft.energyPerCycle) ? '' : draft.energyPerCycle} onChange={numberField('energyPerCycle')} className={inputClass} />
+                        </div>
+                        <div>
+                            <label className={labelClass}>Software-Equivalent Cycles</label>
+                            <input type="number" min="1" value={Number.isNaN(draft.swEquivalentCycles) ? '' : draft.swEquivalentCycles} onChange={numberField('swEquivalentCycles')} className={inputClass} />
+                        </div>
+                    </div>
+                    <div>
+                        <label className={labelClass}>Semantics</label>
+                        <input type="text" value={draft.semantics} onChange={e => update('semantics', e.target.value)} className={`${inputClass} font-mono`} placeholder="e.g., rd = (rs1 + rs2) / 2" />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Description</label>
+                        <input type="text" value={draft.description} onChange={e => update('description', e.target.value)} className={inputClass} />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Compiler Rule (optional)</label>
+                        <input type="text" value={draft.compilerRule ?? ''} onChange={e => update('compilerRule', e.target.value)} className={inputClass} placeholder="e.g., Replace 2x2 average-pooling loops with `avgpool.2x2`." />
+                    </div>
+                    <div>
+                        <label className={labelClass}>Semantic Function</label>
+                        <p className="font-mono text-xs text-slate-500 mb-1">function (rs1, rs2, rs3, imm, readWord) {'{'}</p>
+                        <textarea
+                            value={draft.executeSource}
+                            onChange={e => update('executeSource', e.target.value)}
+                            rows={5}
+                            spellCheck={false}
+                            className={`${inputClass} font-mono text-sm`}
+                        />
+                        <p className="font-mono text-xs text-slate-500 mt-1">{'}'} &mdash; returns the value written to rd; readWord(address) reads data memory</p>
+                        <div className="flex flex-wrap items-end gap-2 mt-2">
+                            {(['rs1', 'rs2', 'rs3', 'imm'] as (keyof NnOperands)[]).map(operand => (
+                                <div key={operand} className="w-20">
+                                    <label className="block text-xs font-mono text-slate-400 mb-1">{operand}</label>
+                                    <input
+                                        type="number"
+                                        value={testOperands[operand]}
+                                        onChange={e => setTestOperands((o: NnOperands) => ({ ...o, [operand]: Number(e.target.value) || 0 }))}
+                                        className={`${inputClass} font-mono text-sm !p-1`}
+                                    />
+                                </div>
+                            ))}
+                            <button onClick={handleTest} disabled={isTesting} className={buttonClass}>{isTesting ? 'Testing...' : 'Test'}</button>
+                        </div>
+                        {testResult && (testResult.error !== undefined
+                            ? <p className="text-sm text-red-400 mt-1" role="alert">Test failed: {testResult.error}</p>
+                            : <p className="text-sm text-slate-400 mt-1">rd = <span className="font-mono text-cyan-400">{testResult.value}</span> <span className="text-xs text-slate-500">(readWord returns 0 during the test)</span></p>)}
+                        <p className="text-xs text-slate-500 mt-2">
+                            The function must return for every input. The pipeline simulator steps programs on the page, so it first runs any program that uses
+                            a user-defined instruction in a background worker, and keeps stepping disabled if that run makes no progress for {ENGINE_STALL_TIMEOUT_MS / 1000} s.
+                            Microarchitecture comparisons and trace captures run in the worker and stop the same way.
+                        </p>
+                    </div>
+                    {errors.length > 0 ? (
+                        <ul className="text-sm text-red-400 space-y-1" role="alert">
+                            {errors.map((err, i) => <li key={i}>{err}</li>)}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-400">
+                            Encoding: <span className="font-mono text-cyan-400 tracking-wider">{pattern}</span>
+                            <span className="ml-2 text-slate-500">Syntax: <span className="font-mono">{toIsaInstruction(draft).syntax}</span></span>
+                        </p>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={handleSave} disabled={errors.length > 0} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                            {editing ? 'Save Changes' : 'Add Instruction'}
+                        </button>
+                        <button onClick={handleNew} className={buttonClass}>New</button>
+                    </div>
+                </div>
+                <div className="bg-slate-800/50 p-6 rounded-lg border border-slate-700">
+                    <div className="flex items-center justify-between mb-4">
+                        <h3 className="text-xl font-bold text-slate-100">Your Instructions</h3>
+                        <button
+                            onClick={() => downloadFile(JSON.stringify(definitions, null, 2), 'custom-instructions.json', 'application/json')}
+                            disabled={definitions.length === 0}
+                            className={buttonClass}
+                        >
+                            Export JSON
+                        </button>
+                    </div>
+                    {definitions.length === 0 ? (
+                        <p className="text-sm text-slate-500">No custom instructions yet.</p>
+                    ) : (
+                        <ul className="space-y-2">
+                            {definitions.map((def: CustomInstructionDefinition) => (
+                                <li key={def.mnemonic} className={`p-3 rounded-md border ${editing === def.mnemonic ? 'border-cyan-500 bg-cyan-500/10' : 'border-slate-700 bg-slate-900/50'}`}>
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-mono text-cyan-400">{def.mnemonic}</span>
+                                        <div className="space-x-3 text-xs">
+                                            <button onClick={() => handleEdit(def)} className="text-slate-400 hover:text-slate-100">Edit</button>
+                                            <button onClick={() => handleDelete(def.mnemonic)} className="text-red-400 hover:text-red-300">Delete</button>
+                                        </div>
+                                    </div>
+                                    <p className="text-xs text-slate-400 mt-1">{def.name} &middot; {def.latency} cycle{def.latency === 1 ? '' : 's'}</p>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            </div>
+        </Section>
+    );
+};
@@ -2,7 +2,9 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Section } from './Section';
 import { SignalIcon } from './icons/SignalIcon';
+import { DisassemblyView } from './DisassemblyView';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid, LabelList, LineChart, Line, AreaChart, Area } from 'recharts';
+import { BENCHMARK_HISTORY_KEY } from '../services/calibration';
 
 type Status = 'disconnected' | 'connecting' | 'connected' | 'error';
 
@@ -185,7 +187,7 @@ export const LiveBenchmarking: React.FC = () => {
 
     useEffect(() => {
         const savedBoards = JSON.parse(localStorage.getItem('pynq_boards') || '[]');
-        const savedHistory = JSON.parse(localStorage.getItem('pynq_benchmark_history') || '[]');
+        const savedHistory = JSON.parse(localStorage.getItem(BENCHMARK_HISTORY_KEY) || '[]');
         setBoards(savedBoards);
         setHistory(savedHistory);
         if (savedBoards.length > 0 && !selectedBoardId) {
@@ -280,7 +282,7 @@ export const LiveBenchmarking: React.FC = () => {
         };
         const updatedHistory = [newEntry, ...history];
         setHistory(updatedHistory);
-        localStorage.setItem('pynq_benchmark_history', JSON.stringify(updatedHistory));
+        localStorage.setItem(BENCHMARK_HISTORY_KEY, JSON.stringify(updatedHistory));
         setResults(null);
     };
 
@@ -371,6 +373,7 @@ export const LiveBenchmarking: React.FC = () => {
                             <input type="file" accept=".bin" onChange={e => setBinFile(e.target.files ? e.target.files[0] : null)} className="w-full text-sm text-slate-400 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"/>
                         </div>
                     </div>
+                    <DisassemblyView file={binFile} />
                 </Step>
 
                 <Step number={3} title="Deploy and Run Benchmark" active={isStep3Active}>
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { assembleToMachineCode, toBinary, toIntelHex, toReadmemh, TEXT_BASE } from '../services/encoder';
+import { downloadFile } from '../services/download';
+
+interface MachineCodeExportProps {
+    assemblyCode: string;
+    fileName?: string;
+}
+
+export const MachineCodeExport: React.FC<MachineCodeExportProps> = ({ assemblyCode, fileName = 'program' }) => {
+    const program = useMemo(() => assembleToMachineCode(assemblyCode), [assemblyCode]);
+    const canExport = program.errors.length === 0 && program.words.length > 0;
+
+    const buttonClass = "bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-semibold py-2 px-4 rounded-md disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors";
+
+    return (
+        <div className="bg-slate-900/50 p-4 rounded-lg border border-slate-700">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+                <p className="text-sm text-slate-400">
+                    {program.words.length} instruction{program.words.length === 1 ? '' : 's'} &middot; {program.words.length * 4} bytes at 0x{TEXT_BASE.toString(16).padStart(8, '0')}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                    <button disabled={!canExport} onClick={() => downloadFile(toBinary(program.words), `${fileName}.bin`, 'application/octet-stream')} className={buttonClass}>
+                        Download .bin
+                    </button>
+                    <button disabled={!canExport} onClick={() => downloadFile(toIntelHex(program.words), `${fileName}.hex`, 'text/plain')} className={buttonClass}>
+                        Download Intel HEX
+                    </button>
+                    <button disabled={!canExport} onClick={() => downloadFile(toReadmemh(program.words, program.instructions), `${fileName}.mem`, 'text/plain')} className={buttonClass}>
+                        Download $readmemh
+                    </button>
+                </div>
+            </div>
+            {program.errors.length > 0 && (
+                <ul className="mb-4 text-sm text-red-400 font-mono space-y-1" role="alert">
+                    {program.errors.map((err, i) => <li key={i}>Line {err.line}: {err.message}</li>)}
+                </ul>
+            )}
+            <div className="max-h-64 overflow-y-auto font-mono text-xs">
+                <table className="w-full text-left">
+                    <thead className="text-slate-500 sticky top-0 bg-slate-900">
+                        <tr><th className="py-1 pr-4">Address</th><th className="py-1 pr-4">Word</th><th className="py-1">Instruction</th></tr>
+                    </thead>
+                    <tbody>
+                        {program.instructions.map((instr, i) => (
+                            <tr key={instr.pc} className="text-slate-300">
+                                <td className="py-0.5 pr-4 text-slate-500">{(TEXT_BASE + i * 4).toString(16).padStart(8, '0')}</td>
+                                <td className="py-0.5 pr-4 text-cyan-400">{program.words[i].toString(16).padStart(8, '0')}</td>
+                                <td className="py-0.5">{instr.raw}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
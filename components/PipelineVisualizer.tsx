@@ -1,6 +1,40 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Section } from './Section';
 import { PlayIcon } from './icons/PlayIcon';
+import { parseAssembly, regName, abiName, isFpReg, parseReg, parseImm, FP_REG_BASE, CONTROL_OPS } from '../services/assembler';
+import type { AssemblyError } from '../services/assembler';
+import { CSR_ADDRESSES, ISA } from '../services/isa';
+import { downloadFile, downloadSvg, downloadSvgAsPng } from '../services/download';
+import { writeVcdRecording } from '../services/vcd';
+import { GPIO_LED_COUNT, MMIO_BASE, MMIO_REGISTERS } from '../services/mmio';
+import type { DeviceState, MmioRegister } from '../services/mmio';
+import { parseElf32, elfToAssembly, ElfError } from '../services/elf';
+import type { ElfImage } from '../services/elf';
+import {
+    load, run, runChunked, createSnapshot, isSystemFinished, bootImageFromElf, wordAddress,
+    readsReg, isNnOp, mispredictPenalty, LOAD_OPS, CSR_FILE_NAMES, MSTATUS_MIE, MSTATUS_MPIE,
+    TRAP_CAUSE_NAMES, DEFAULT_CONFIG, memoryEntries,
+} from '../services/pipelineEngine';
+import type {
+    Instruction, PipelineStage, PipelineStageName, CacheAccessMarker, MemoryWord, DataMemory, PerfCounters, CsrFile, Program, BranchResolution,
+    PipelineConfig, SimulatorConfig, CoreState, BootImage, Snapshot, StopReason,
+} from '../services/pipelineEngine';
+import { checkBreakpoints, toggleBreakpointAt, formatCondition, formatWordAddress, COMPARISON_OPS } from '../services/debugger';
+import type { BreakEvent, ComparisonOp, DebugTargets, WatchKind } from '../services/debugger';
+import { analyzeHazards } from '../services/hazards';
+import type { ForwardingPath } from '../services/hazards';
+import { createVcdTracer, createTimingTracer } from '../services/runRecorders';
+import type { TimingCell, TimingRow, TimingTracer, VcdTracer } from '../services/runRecorders';
+import { diffSnapshots, formatCsr, formatFloat } from '../services/stateDiff';
+import type { StateChange } from '../services/stateDiff';
+import { cpiBreakdown, compareMicroarchitectures, describePipeline, samePipeline, CPI_COMPONENTS, MAX_RUN_CYCLES, MICROARCHITECTURES } from '../services/performance';
+import type { CpiComponent, MicroarchitectureResult } from '../services/performance';
+import { runInWorker, EngineWorkerError } from '../services/engineWorkerClient';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { predictorAccuracy, PREDICTOR_NAMES, MAX_HISTORY_BITS, MISPREDICT_PENALTY_CYCLES } from '../services/branchPredictor';
+import type { PredictorConfig, PredictorKind, PredictorState } from '../services/branchPredictor';
+import { validateCacheConfig, cacheSetCount, cacheHitRate, REPLACEMENT_NAMES } from '../services/cache';
+import type { CacheConfig, CacheState, ReplacementPolicy, WritePolicy } from '../services/cache';
 
 const sampleCode = `# Example with multiple hazard types
 # Initial state: x1=256, Mem[256]=42
@@ -15,120 +49,37 @@ end:
 add x8, x8, x9
 `;
 
-type Instruction = {
-    raw: string;
-    op: string;
-    rd?: number;
-    rs1?: number;
-    rs2?: number;
-    imm?: number;
-    pc: number;
-    color?: string;
-};
-
-type PipelineStage = {
-    instr: Instruction | null;
-    pc: number | null;
-    isStall?: boolean;
-    isFlush?: boolean;
-    result?: number;
-    address?: number; // For memory instructions
-};
-
-// Define a specific type for pipeline stage names to fix multiple 'property does not exist on type unknown' errors.
-type PipelineStageName = 'if' | 'id' | 'ex' | 'mem' | 'wb';
-
-const initialPipeline: Record<PipelineStageName, PipelineStage> = {
-    if: { instr: null, pc: null },
-    id: { instr: null, pc: null },
-    ex: { instr: null, pc: null },
-    mem: { instr: null, pc: null },
-    wb: { instr: null, pc: null },
-};
+const sampleKernelCode = `# Core 1: NN kernel for dual-core mode
+# Core 0 contends for the accelerator when its program uses NN instructions too
+li t0, 4          # Iterations
+li t1, 3
+li t2, 5
+loop:
+mac t3, t1, t2    # t3 += t1 * t2 on the shared accelerator
+relu t4, t3
+addi t0, t0, -1
+bnez t0, loop
+sigmoid t5, t4    # Multi-cycle: holds the accelerator
+`;
 
 const STAGE_NAMES: Record<PipelineStageName, string> = {
     if: "Instruction Fetch (IF)",
     id: "Instruction Decode (ID)",
     ex: "Execute (EX)",
+    xu: "Custom Unit (XU)",
     mem: "Memory Access (MEM)",
     wb: "Writeback (WB)",
 };
 
-const COLORS = [
-    '#38bdf8', // sky-400
-    '#34d399', // emerald-400
-    '#facc15', // amber-400
-    '#fb923c', // orange-400
-    '#f87171', // red-400
-    '#a78bfa', // violet-400
-];
-
-const parseReg = (regStr?: string): number | undefined => {
-    if (!regStr) return undefined;
-    const match = regStr.match(/x(\d+)/i);
-    return match ? parseInt(match[1], 10) : undefined;
-};
-
-const parseAssembly = (code: string): { instructions: Instruction[], labels: Record<string, number> } => {
-    const labels: Record<string, number> = {};
-    const instructions: Omit<Instruction, 'pc'>[] = [];
-    const rawLines = code.split('\n');
-    let instructionIndex = 0;
-
-    rawLines.forEach(line => {
-        const trimmedLine = line.split('#')[0].trim();
-        if (trimmedLine.length > 0) {
-            const labelMatch = trimmedLine.match(/^(\w+):/);
-            if (labelMatch) {
-                labels[labelMatch[1]] = instructionIndex;
-            } else {
-                const parts = trimmedLine.replace(/,/g, '').split(/\s+/);
-                const op = parts[0].toLowerCase();
-                const instr: Omit<Instruction, 'pc' | 'color' | 'raw'> & { raw: string, label?: string } = { raw: trimmedLine, op };
-                
-                if (['add', 'sub'].includes(op)) {
-                    instr.rd = parseReg(parts[1]);
-                    instr.rs1 = parseReg(parts[2]);
-                    instr.rs2 = parseReg(parts[3]);
-                } else if (['addi'].includes(op)) {
-                    instr.rd = parseReg(parts[1]);
-                    instr.rs1 = parseReg(parts[2]);
-                    instr.imm = parseInt(parts[3], 10);
-                } else if (['lw', 'sw'].includes(op)) {
-                    instr.rd = parseReg(parts[1]); // Destination for lw, source for sw
-                    const memParts = parts[2]?.match(/(-?\d+)\((x\d+)\)/i);
-                    if (memParts) {
-                        instr.imm = parseInt(memParts[1], 10);
-                        instr.rs1 = parseReg(memParts[2]);
-                    }
-                     if (op === 'sw') {
-                        instr.rs2 = parseReg(parts[1]); // sw rs2 is same as rd field
-                        instr.rd = undefined; // sw doesn't write to rd
-                     }
-                } else if (['beq'].includes(op)) {
-                    instr.rs1 = parseReg(parts[1]);
-                    instr.rs2 = parseReg(parts[2]);
-                    instr.label = parts[3];
-                } else if (['jal'].includes(op)) {
-                    instr.rd = parseReg(parts[1]);
-                    instr.label = parts[2];
-                }
-                instructions.push(instr);
-                instructionIndex++;
-            }
-        }
-    });
-    
-    const finalInstructions = instructions.map((instr, index) => ({ ...instr, pc: index }));
-    return { instructions: finalInstructions, labels };
-};
+// Oldest snapshots are dropped beyond this many, bounding memory on long runs.
+const MAX_HISTORY_SNAPSHOTS = 1000;
 
 interface PipelineVisualizerProps {
     initialCode?: string;
     isEmbedded?: boolean;
 }
 
-const RegisterFileDisplay: React.FC<{ registers: number[], status: string[] }> = ({ registers, status }) => {
+const RegisterFileDisplay: React.FC<{ registers: number[], fpRegisters: number[], status: string[] }> = ({ registers, fpRegisters, status }) => {
     const getStatusStyles = (regStatus: string) => {
         switch (regStatus) {
             case 'just-written': return 'animate-flash-green';
@@ -140,25 +91,32 @@ const RegisterFileDisplay: React.FC<{ registers: number[], status: string[] }> =
         }
     };
 
+    const renderBank = (values: number[], base: number, format: (value: number) => string) => (
+        <div className="grid grid-cols-4 gap-2 bg-slate-900/50 p-2 rounded-lg border border-slate-700 max-h-48 overflow-y-auto">
+            {values.map((value, i) => (
+                <div key={i} className={`p-1.5 rounded-md border-2 bg-slate-800 transition-all text-xs ${getStatusStyles(status[base + i])}`}>
+                    <div className="flex justify-between items-center">
+                         <span className="font-bold text-slate-300" title={abiName(base + i)}>{regName(base + i)}</span>
+                         <span className="font-mono text-slate-400">{format(value)}</span>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+
     return (
         <div>
             <h3 className="text-lg font-semibold text-cyan-400 mb-2">Register File</h3>
-            <div className="grid grid-cols-4 gap-2 bg-slate-900/50 p-2 rounded-lg border border-slate-700 max-h-64 overflow-y-auto">
-                {registers.map((value, i) => (
-                    <div key={i} className={`p-1.5 rounded-md border-2 bg-slate-800 transition-all text-xs ${getStatusStyles(status[i])}`}>
-                        <div className="flex justify-between items-center">
-                             <span className="font-bold text-slate-300">x{i}</span>
-                             <span className="font-mono text-slate-400">{value}</span>
-                        </div>
-                    </div>
-                ))}
-            </div>
+            <h4 className="text-xs font-semibold text-slate-400 mb-1">Integer (x0-x31)</h4>
+            {renderBank(registers, 0, String)}
+            <h4 className="text-xs font-semibold text-slate-400 mb-1 mt-3">Floating-Point (f0-f31, IEEE-754 single)</h4>
+            {renderBank(fpRegisters, FP_REG_BASE, formatFloat)}
         </div>
     );
 };
 
-const DataMemoryDisplay: React.FC<{ memory: Record<number, number>, access: { address: number; type: 'read' | 'write' } | null }> = ({ memory, access }) => {
-    const sortedAddresses = useMemo(() => Object.keys(memory).map(Number).sort((a, b) => a - b), [memory]);
+const DataMemoryDisplay: React.FC<{ memory: DataMemory, access: { address: number; type: 'read' | 'write' } | null }> = ({ memory, access }) => {
+    const words: [number, MemoryWord][] = useMemo(() => memoryEntries(memory), [memory]);
     
     const getStatusStyles = (address: number) => {
         if (access?.address === address) {
@@ -171,11 +129,14 @@ const DataMemoryDisplay: React.FC<{ memory: Record<number, number>, access: { ad
         <div>
             <h3 className="text-lg font-semibold text-cyan-400 mb-2 mt-4">Data Memory</h3>
             <div className="bg-slate-900/50 p-2 rounded-lg border border-slate-700 max-h-64 overflow-y-auto">
-                {sortedAddresses.map(addr => (
+                {words.map(([addr, word]) => (
                     <div key={addr} className={`p-1.5 mb-1.5 rounded-md border-2 bg-slate-800 transition-all text-xs ${getStatusStyles(addr)}`}>
                         <div className="flex justify-between items-center">
                              <span className="font-bold text-slate-300 font-mono">0x{addr.toString(16)}</span>
-                             <span className="font-mono text-slate-400">{memory[addr]}</span>
+                             <span className="font-mono text-slate-400">
+                                {word.type === 'float' ? formatFloat(word.value) : word.value}
+                                <span className="ml-1 text-slate-600">{word.type === 'float' ? 'f32' : 'i32'}</span>
+                             </span>
                         </div>
                     </div>
                 ))}
@@ -184,89 +145,1004 @@ const DataMemoryDisplay: React.FC<{ memory: Record<number, number>, access: { ad
     );
 };
 
+const BranchPredictorPanel: React.FC<{
+    title?: string;
+    config: PredictorConfig;
+    state: PredictorState;
+    onConfigChange: (config: PredictorConfig) => void;
+    activePhtIndex?: number;
+    penaltyCycles?: number;
+}> = ({ title = 'Branch Prediction', config, state, onConfigChange, activePhtIndex, penaltyCycles = MISPREDICT_PENALTY_CYCLES }) => {
+    const { stats } = state;
+    const accuracy = predictorAccuracy(stats);
+    const counterLabel = (counter: number) => config.kind === 'one-bit'
+        ? (counter ? 'T' : 'N')
+        : ['SN', 'WN', 'WT', 'ST'][counter];
+    const isTaken = (counter: number) => config.kind === 'one-bit' ? counter === 1 : counter >= 2;
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+                <h3 className="text-lg font-semibold text-cyan-400">{title}</h3>
+                <div className="flex flex-wrap items-end gap-4">
+                    <div>
+                        <label htmlFor="predictor-kind" className="block text-xs font-medium text-slate-400 mb-1">Predictor</label>
+                        <select id="predictor-kind" value={config.kind} onChange={e => onConfigChange({ ...config, kind: e.target.value as PredictorKind })} className="p-2 bg-slate-900 text-slate-100 text-sm rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500">
+                            {Object.entries(PREDICTOR_NAMES).map(([kind, name]) => <option key={kind} value={kind}>{name}</option>)}
+                        </select>
+                    </div>
+                    {config.kind === 'gshare' && (
+                        <div>
+                            <label htmlFor="history-bits" className="block text-xs font-medium text-slate-400 mb-1">History bits</label>
+                            <input id="history-bits" type="number" min="1" max={MAX_HISTORY_BITS} value={config.historyBits}
+                                onChange={e => onConfigChange({ ...config, historyBits: Math.min(MAX_HISTORY_BITS, Math.max(1, Number(e.target.value) || 1)) })}
+                                className="w-20 p-2 bg-slate-900 text-slate-100 text-sm rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500" />
+                        </div>
+                    )}
+                </div>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-center">
+                <div className="bg-slate-900/50 p-2 rounded-md">
+                    <p className="text-xs text-slate-400">Accuracy</p>
+                    <p className="text-xl font-bold text-slate-100">{accuracy === null ? '--' : `${(accuracy * 100).toFixed(1)}%`}</p>
+                    <p className="text-xs text-slate-500">{stats.correct}/{stats.branches} conditional branches</p>
+                </div>
+                <div className="bg-slate-900/50 p-2 rounded-md">
+                    <p className="text-xs text-slate-400">Mispredictions</p>
+                    <p className="text-xl font-bold text-slate-100">{stats.mispredictions}</p>
+                    <p className="text-xs text-slate-500">incl. {stats.jumps} jump{stats.jumps === 1 ? '' : 's'} resolved</p>
+                </div>
+                <div className="bg-slate-900/50 p-2 rounded-md">
+                    <p className="text-xs text-slate-400">Penalty Cycles</p>
+                    <p className="text-xl font-bold text-slate-100">{stats.penaltyCycles}</p>
+                    <p className="text-xs text-slate-500">{penaltyCycles} per flush of {penaltyCycles === 1 ? 'IF' : 'IF/ID'}</p>
+                </div>
+                <div className="bg-slate-900/50 p-2 rounded-md">
+                    <p className="text-xs text-slate-400">Global History</p>
+                    <p className="text-xl font-bold font-mono text-slate-100">
+                        {config.kind === 'gshare' ? state.history.toString(2).padStart(config.historyBits, '0') : '--'}
+                    </p>
+                </div>
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                    <h4 className="text-xs font-semibold text-slate-400 mb-1">Pattern History Table ({state.pht.length} entries)</h4>
+                    {state.pht.length === 0 ? (
+                        <p className="text-xs text-slate-500">Static predictors keep no history.</p>
+                    ) : (
+                        <div className="grid grid-cols-8 gap-1 max-h-40 overflow-y-auto font-mono text-xs">
+                            {state.pht.map((counter, i) => (
+                                <div key={i} title={`Entry ${i}`} className={`p-1 rounded text-center border ${i === activePhtIndex ? 'border-cyan-400' : 'border-slate-700'} ${isTaken(counter) ? 'bg-emerald-900/50 text-emerald-300' : 'bg-slate-900/50 text-slate-400'}`}>
+                                    {counterLabel(counter)}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div>
+                    <h4 className="text-xs font-semibold text-slate-400 mb-1">Branch Target Buffer ({state.btb.length} entries, direct-mapped)</h4>
+                    {config.kind === 'static-not-taken' || config.kind === 'static-btfn' ? (
+                        <p className="text-xs text-slate-500">Static predictors take targets from the decoded instruction.</p>
+                    ) : (
+                        <div className="max-h-40 overflow-y-auto font-mono text-xs">
+                            <table className="w-full text-left">
+                                <thead className="text-slate-500"><tr><th className="pr-4">Index</th><th className="pr-4">Branch PC</th><th>Target</th></tr></thead>
+                                <tbody>
+                                    {state.btb.map((entry, i) => entry && (
+                                        <tr key={i} className="text-slate-300">
+                                            <td className="pr-4 text-slate-500">{i}</td>
+                                            <td className="pr-4">0x{(entry.tag * 4).toString(16).padStart(4, '0')}</td>
+                                            <td className="text-cyan-400">0x{(entry.target * 4).toString(16).padStart(4, '0')}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const CACHE_SIZES = [64, 128, 256, 512, 1024, 4096];
+const LINE_SIZES = [4, 8, 16, 32, 64];
+const ASSOCIATIVITIES = [1, 2, 4, 8];
+
+const CachePanel: React.FC<{
+    title: string;
+    config: CacheConfig;
+    state: CacheState;
+    onConfigChange: (config: CacheConfig) => void;
+    lastAccess?: CacheAccessMarker;
+    showWritePolicy?: boolean;
+}> = ({ title, config, state, onConfigChange, lastAccess, showWritePolicy = false }) => {
+    const [error, setError] = useState<string | null>(null);
+    const { stats } = state;
+    const hitRate = cacheHitRate(stats);
+    const selectClass = "p-1.5 bg-slate-900 text-slate-100 text-xs rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    // Geometry changes that do not fit (e.g. 4 x 64-byte lines in 64 bytes) are rejected with a message.
+    const change = (patch: Partial<CacheConfig>) => {
+        const next = { ...config, ...patch };
+        const errors = validateCacheConfig(next);
+        setError(errors[0] ?? null);
+        if (errors.length === 0) onConfigChange(next);
+    };
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-cyan-400">{title}</h3>
+                <label className="flex items-center space-x-2 text-sm text-slate-300">
+                    <input type="checkbox" checked={config.enabled} onChange={e => change({ enabled: e.target.checked })} className="accent-cyan-500" />
+                    <span>Enabled</span>
+                </label>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-3 text-xs text-slate-400">
+                <label>Size <select value={config.sizeBytes} onChange={e => change({ sizeBytes: Number(e.target.value) })} className={selectClass}>
+                    {CACHE_SIZES.map(size => <option key={size} value={size}>{size} B</option>)}
+                </select></label>
+                <label>Line <select value={config.lineBytes} onChange={e => change({ lineBytes: Number(e.target.value) })} className={selectClass}>
+                    {LINE_SIZES.map(size => <option key={size} value={size}>{size} B</option>)}
+                </select></label>
+                <label>Ways <select value={config.associativity} onChange={e => change({ associativity: Number(e.target.value) })} className={selectClass}>
+                    {ASSOCIATIVITIES.map(ways => <option key={ways} value={ways}>{ways}</option>)}
+                </select></label>
+                <label>Replace <select value={config.replacement} onChange={e => change({ replacement: e.target.value as ReplacementPolicy })} className={selectClass}>
+                    {Object.entries(REPLACEMENT_NAMES).map(([policy, name]) => <option key={policy} value={policy}>{name}</option>)}
+                </select></label>
+                {showWritePolicy && (
+                    <label>Write <select value={config.writePolicy} onChange={e => change({ writePolicy: e.target.value as WritePolicy })} className={selectClass}>
+                        <option value="write-back">Write-back</option>
+                        <option value="write-through">Write-through</option>
+                    </select></label>
+                )}
+                <label>Miss penalty <input type="number" min="0" max="100" value={config.missPenaltyCycles} onChange={e => change({ missPenaltyCycles: Number(e.target.value) })} className={`${selectClass} w-16`} /></label>
+            </div>
+            {error && <p className="text-xs text-red-400 mb-2" role="alert">{error}</p>}
+            <div className="grid grid-cols-4 gap-2 mb-3 text-center text-xs">
+                <div className="bg-slate-900/50 p-1.5 rounded-md"><p className="text-slate-400">Hits</p><p className="text-lg font-bold text-slate-100">{stats.hits}</p></div>
+                <div className="bg-slate-900/50 p-1.5 rounded-md"><p className="text-slate-400">Misses</p><p className="text-lg font-bold text-slate-100">{stats.misses}</p></div>
+                <div className="bg-slate-900/50 p-1.5 rounded-md"><p className="text-slate-400">Hit Rate</p><p className="text-lg font-bold text-slate-100">{hitRate === null ? '--' : `${(hitRate * 100).toFixed(1)}%`}</p></div>
+                <div className="bg-slate-900/50 p-1.5 rounded-md"><p className="text-slate-400">Stall Cycles</p><p className="text-lg font-bold text-slate-100">{stats.stallCycles}</p></div>
+            </div>
+            {showWritePolicy && (
+                <p className="text-xs text-slate-500 mb-2">{stats.writebacks} dirty write-back{stats.writebacks === 1 ? '' : 's'}, {stats.memoryWrites} write-through store{stats.memoryWrites === 1 ? '' : 's'}</p>
+            )}
+            <div className="max-h-48 overflow-y-auto font-mono text-xs">
+                <table className="w-full text-left">
+                    <thead className="text-slate-500 sticky top-0 bg-slate-800">
+                        <tr>
+                            <th className="pr-2">Set</th>
+                            {Array.from({ length: config.associativity }, (_, way) => <th key={way} className="pr-2">Way {way} (V D tag)</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {state.sets.map((lines, set) => (
+                            <tr key={set} className="text-slate-300">
+                                <td className="pr-2 text-slate-500">{set}</td>
+                                {lines.map((line, way) => {
+                                    const isLast = lastAccess?.set === set && lastAccess.way === way;
+                                    return (
+                                        <td key={way} className={`pr-2 ${isLast ? (lastAccess.hit ? 'text-emerald-400' : 'text-yellow-400') : line.valid ? '' : 'text-slate-600'}`}>
+                                            {line.valid ? 1 : 0} {line.dirty ? 1 : 0} {line.valid ? `0x${line.tag.toString(16)}` : '--'}
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">{cacheSetCount(config)} sets x {config.associativity} ways x {config.lineBytes} B lines</p>
+        </div>
+    );
+};
+
+const DebugPanel: React.FC<{
+    title: string;
+    core: number;
+    instructions: Instruction[];
+    targets: DebugTargets;
+    onChange: (targets: DebugTargets) => void;
+    breakEvent: BreakEvent | null;
+    showListing: boolean;
+}> = ({ title, core, instructions, targets, onChange, breakEvent, showListing }) => {
+    const [condReg, setCondReg] = useState('a0');
+    const [condOp, setCondOp] = useState<ComparisonOp>('==');
+    const [condValue, setCondValue] = useState('0');
+    const [watchAddress, setWatchAddress] = useState('0x100');
+    const [watchKind, setWatchKind] = useState<WatchKind>('write');
+    const [error, setError] = useState<string | null>(null);
+    const inputClass = "p-1.5 bg-slate-900 text-slate-100 text-xs rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+    const nextId = (items: { id: number }[]) => items.reduce((max, item) => Math.max(max, item.id), 0) + 1;
+    const breakpoints = targets.breakpoints[core] ?? [];
+
+    const toggleBreakpoint = (pc: number) => onChange({ ...targets, breakpoints: toggleBreakpointAt(targets.breakpoints, core, pc) });
+
+    const addCondition = () => {
+        const reg = parseReg(condReg);
+        const value = reg !== undefined && isFpReg(reg) ? parseFloat(condValue) : parseImm(condValue);
+        if (reg === undefined) return setError(`Unknown register '${condReg}'.`);
+        if (value === undefined || Number.isNaN(value)) return setError(`Invalid value '${condValue}'.`);
+        setError(null);
+        onChange({ ...targets, conditions: [...targets.conditions, { id: nextId(targets.conditions), reg, op: condOp, value }] });
+    };
+
+    const addWatchpoint = () => {
+        const address = parseImm(watchAddress);
+        if (address === undefined || address < 0 || address > 0xFFFFFFFF) return setError(`Invalid address '${watchAddress}'.`);
+        setError(null);
+        onChange({ ...targets, watchpoints: [...targets.watchpoints, { id: nextId(targets.watchpoints), address: wordAddress(address), kind: watchKind }] });
+    };
+
+    const removeButton = (onClick: () => void) => (
+        <button onClick={onClick} className="text-slate-500 hover:text-red-400" aria-label="Remove">&times;</button>
+    );
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <h3 className="text-lg font-semibold text-cyan-400 mb-3">{title}</h3>
+            {error && <p className="text-xs text-red-400 mb-2" role="alert">{error}</p>}
+            <div className={`grid gap-4 ${showListing ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+                {showListing && (
+                    <div>
+                        <h4 className="text-sm font-semibold text-slate-300 mb-1">Line Breakpoints</h4>
+                        <p className="text-xs text-slate-500 mb-2">Click an instruction to pause when it enters EX.</p>
+                        <div className="max-h-56 overflow-y-auto font-mono text-xs bg-slate-900/50 rounded-md border border-slate-700">
+                            {instructions.map(instr => (
+                                <button
+                                    key={instr.pc}
+                                    onClick={() => toggleBreakpoint(instr.pc)}
+                                    className={`w-full text-left px-2 py-0.5 flex items-center hover:bg-slate-700/50 ${breakEvent?.core === core && breakEvent.pc === instr.pc ? 'bg-fuchsia-900/60' : ''}`}
+                                >
+                                    <span className={`w-3 ${breakpoints.includes(instr.pc) ? 'text-red-500' : 'text-transparent'}`}>&#9679;</span>
+                                    <span className="w-8 text-slate-500 text-right mr-2">{instr.line}</span>
+                                    <span className="text-slate-200 truncate">{instr.source}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+                <div>
+                    <h4 className="text-sm font-semibold text-slate-300 mb-1">Register Conditions</h4>
+                    <p className="text-xs text-slate-500 mb-2">Pause on any core when the condition becomes true.</p>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                        <input value={condReg} onChange={e => setCondReg(e.target.value)} className={`${inputClass} w-16`} aria-label="Register" />
+                        <select value={condOp} onChange={e => setCondOp(e.target.value as ComparisonOp)} className={inputClass} aria-label="Comparison">
+                            {COMPARISON_OPS.map(op => <option key={op} value={op}>{op}</option>)}
+                        </select>
+                        <input value={condValue} onChange={e => setCondValue(e.target.value)} className={`${inputClass} w-20`} aria-label="Value" />
+                        <button onClick={addCondition} className="bg-slate-700 text-slate-200 text-xs font-bold py-1 px-3 rounded-md hover:bg-slate-600">Add</button>
+                    </div>
+                    <ul className="space-y-1 font-mono text-xs text-slate-300">
+                        {targets.conditions.map(condition => (
+                            <li key={condition.id} className="flex justify-between bg-slate-900/50 px-2 py-1 rounded-md">
+                                <span>{formatCondition(condition)}</span>
+                                {removeButton(() => onChange({ ...targets, conditions: targets.conditions.filter(c => c.id !== condition.id) }))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+                <div>
+                    <h4 className="text-sm font-semibold text-slate-300 mb-1">Memory Watchpoints</h4>
+                    <p className="text-xs text-slate-500 mb-2">Pause when MEM touches the data word at the address.</p>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                        <input value={watchAddress} onChange={e => setWatchAddress(e.target.value)} className={`${inputClass} w-28`} aria-label="Address" />
+                        <select value={watchKind} onChange={e => setWatchKind(e.target.value as WatchKind)} className={inputClass} aria-label="Access type">
+                            <option value="write">write</option>
+                            <option value="read">read</option>
+                            <option value="access">read/write</option>
+                        </select>
+                        <button onClick={addWatchpoint} className="bg-slate-700 text-slate-200 text-xs font-bold py-1 px-3 rounded-md hover:bg-slate-600">Add</button>
+                    </div>
+                    <ul className="space-y-1 font-mono text-xs text-slate-300">
+                        {targets.watchpoints.map(watch => (
+                            <li key={watch.id} className="flex justify-between bg-slate-900/50 px-2 py-1 rounded-md">
+                                <span>{formatWordAddress(watch.address)} ({watch.kind === 'access' ? 'read/write' : watch.kind})</span>
+                                {removeButton(() => onChange({ ...targets, watchpoints: targets.watchpoints.filter(w => w.id !== watch.id) }))}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const HistoryPanel: React.FC<{
+    history: Snapshot[];
+    index: number;
+    onSeek: (index: number) => void;
+    onExportVcd: () => void;
+}> = ({ history, index, onSeek, onExportVcd }) => {
+    const firstCycle = history[0].cycle;
+    const lastCycle = history[history.length - 1].cycle;
+    const currentCycle = history[index].cycle;
+    // Null follows the current cycle: compare the previous cycle against it.
+    const [fromCycle, setFromCycle] = useState<number | null>(null);
+    const [toCycle, setToCycle] = useState<number | null>(null);
+    const clamp = (cycle: number) => Math.max(firstCycle, Math.min(lastCycle, cycle));
+    const from = clamp(fromCycle ?? currentCycle - 1);
+    const to = clamp(toCycle ?? currentCycle);
+    const changes: StateChange[] = useMemo(
+        () => diffSnapshots(history[from - firstCycle], history[to - firstCycle]),
+        [history, from, to, firstCycle],
+    );
+    const inputClass = "p-1.5 bg-slate-900 text-slate-100 text-xs rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 w-20";
+    const cycleInput = (value: number, onChange: (cycle: number) => void, label: string) => (
+        <input type="number" min={firstCycle} max={lastCycle} value={value} onChange={e => onChange(clamp(Number(e.target.value)))} className={inputClass} aria-label={label} />
+    );
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-cyan-400">Cycle History</h3>
+                <div className="flex items-center space-x-3">
+                    <p className="text-xs text-slate-500">
+                        Cycles {firstCycle}-{lastCycle} recorded{history.length === MAX_HISTORY_SNAPSHOTS ? ` (last ${MAX_HISTORY_SNAPSHOTS} kept)` : ''}
+                    </p>
+                    <button onClick={onExportVcd} className="bg-slate-700 text-slate-200 text-xs font-bold py-1 px-3 rounded-md hover:bg-slate-600" title="Value Change Dump of every cycle since the last reset, for GTKWave">
+                        Export VCD
+                    </button>
+                </div>
+            </div>
+            <label className="flex items-center space-x-3 text-sm text-slate-300">
+                <span className="w-24">Cycle {currentCycle}</span>
+                <input
+                    type="range" min={0} max={history.length - 1} value={index}
+                    onChange={e => onSeek(Number(e.target.value))}
+                    disabled={history.length < 2}
+                    className="flex-grow accent-cyan-500" aria-label="Cycle scrubber"
+                />
+            </label>
+            {index < history.length - 1 && (
+                <p className="text-xs text-yellow-400 mt-2">Viewing an earlier cycle. Stepping forward from here discards the later history.</p>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-4 text-xs text-slate-400">
+                <span>Diff cycle</span>
+                {cycleInput(from, setFromCycle, 'Diff from cycle')}
+                <span>against cycle</span>
+                {cycleInput(to, setToCycle, 'Diff to cycle')}
+                {(fromCycle !== null || toCycle !== null) && (
+                    <button onClick={() => { setFromCycle(null); setToCycle(null); }} className="text-cyan-400 hover:underline">Follow current cycle</button>
+                )}
+            </div>
+            <div className="mt-2 max-h-48 overflow-y-auto font-mono text-xs">
+                {changes.length === 0 ? (
+                    <p className="text-slate-500">No register or memory differences.</p>
+                ) : (
+                    <table className="w-full text-left">
+                        <thead className="text-slate-500 sticky top-0 bg-slate-800">
+                            <tr><th className="pr-4">Location</th><th className="pr-4">Cycle {from}</th><th>Cycle {to}</th></tr>
+                        </thead>
+                        <tbody>
+                            {changes.map(change => (
+                                <tr key={change.location} className="text-slate-300">
+                                    <td className="pr-4">{change.location}</td>
+                                    <td className="pr-4 text-slate-400">{change.before}</td>
+                                    <td className="text-cyan-400">{change.after}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+        </div>
+    );
+};
+
+const TIMING_STAGE_COLORS: Record<PipelineStageName, string> = {
+    if: '#0e7490', id: '#1d4ed8', ex: '#7c3aed', xu: '#be185d', mem: '#b45309', wb: '#047857',
+};
+const TIMING_LABEL_WIDTH = 190;
+const TIMING_CELL_WIDTH = 34;
+const TIMING_CELL_HEIGHT = 20;
+// Cycles drawn on screen at once, keeping the SVG a manageable size on long runs; exports can cover the whole run.
+const TIMING_WINDOW_CYCLES = 100;
+
+// The rows of `rows` with a cell in cycles `first` to `last`.
+const timingRowsBetween = (rows: Map<number, TimingRow>, first: number, last: number): TimingRow[] =>
+    [...rows.values()].filter(row => Object.keys(row.cells).some(cycle => Number(cycle) >= first && Number(cycle) <= last));
+
+const TimingDiagramSvg: React.FC<{
+    svgRef: React.Ref<SVGSVGElement>;
+    rows: TimingRow[];
+    firstCycle: number;
+    lastCycle: number;
+    currentCycle: number;
+    onSeekCycle?: (cycle: number) => void; // Absent for cycles that cannot be seeked to
+    canSeek?: (cycle: number) => boolean;
+}> = ({ svgRef, rows, firstCycle, lastCycle, currentCycle, onSeekCycle, canSeek }) => {
+    const cycles = Array.from({ length: Math.max(0, lastCycle - firstCycle + 1) }, (_, i) => firstCycle + i);
+    const width = TIMING_LABEL_WIDTH + cycles.length * TIMING_CELL_WIDTH + 1;
+    const height = (rows.length + 1) * TIMING_CELL_HEIGHT + 1;
+    const x = (cycle: number) => TIMING_LABEL_WIDTH + (cycle - firstCycle) * TIMING_CELL_WIDTH;
+    const inView = currentCycle >= firstCycle && currentCycle <= lastCycle;
+
+    return (
+        <svg ref={svgRef} width={width} height={height} viewBox={`0 0 ${width} ${height}`} fontFamily="monospace" fontSize="10">
+            <rect width={width} height={height} fill="#0f172a" />
+            <rect x={x(currentCycle)} y={0} width={TIMING_CELL_WIDTH} height={height} fill="#334155" opacity={inView ? 0.6 : 0} />
+            {cycles.map(cycle => {
+                const seekable = onSeekCycle !== undefined && (canSeek?.(cycle) ?? true);
+                return (
+                    <text
+                        key={cycle} x={x(cycle) + TIMING_CELL_WIDTH / 2} y={TIMING_CELL_HEIGHT - 6} textAnchor="middle" fill={seekable ? '#94a3b8' : '#475569'}
+                        style={seekable ? { cursor: 'pointer' } : undefined} onClick={seekable ? () => onSeekCycle(cycle) : undefined}
+                    >
+                        {cycle}
+                    </text>
+                );
+            })}
+            {rows.map((row, r) => {
+                const y = (r + 1) * TIMING_CELL_HEIGHT;
+                return (
+                    <g key={row.seq}>
+                        <line x1={0} x2={width} y1={y} y2={y} stroke="#1e293b" />
+                        <text x={4} y={y + TIMING_CELL_HEIGHT - 6} fill={row.color ?? '#e2e8f0'}>
+                            {`${(row.pc * 4).toString(16).padStart(4, '0')}  ${row.raw}`.slice(0, 30)}
+                        </text>
+                        {Object.entries(row.cells).map(([cycleKey, cell]: [string, TimingCell]) => {
+                            const cycle = Number(cycleKey);
+                            if (cycle < firstCycle || cycle > lastCycle) return null;
+                            const fill = cell.kind === 'flush' ? '#991b1b' : cell.kind === 'stall' ? '#713f12' : TIMING_STAGE_COLORS[cell.stage];
+                            const label = cell.kind === 'flush' ? 'flush' : cell.kind === 'stall' ? 'stall' : cell.stage.toUpperCase();
+                            return (
+                                <g key={cycle}>
+                                    <rect x={x(cycle) + 1} y={y + 1} width={TIMING_CELL_WIDTH - 2} height={TIMING_CELL_HEIGHT - 2} rx={2} fill={fill} />
+                                    <text x={x(cycle) + TIMING_CELL_WIDTH / 2} y={y + TIMING_CELL_HEIGHT - 6} textAnchor="middle" fill="#f8fafc" fontSize={cell.kind === 'active' ? 10 : 8}>{label}</text>
+                                </g>
+                            );
+                        })}
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+const EMPTY_TIMING_ROWS = new Map<number, TimingRow>();
+
+type TimingExport = { format: 'svg' | 'png'; scope: 'window' | 'run' };
+
+const TimingDiagramPanel: React.FC<{
+    title: string;
+    rows: Map<number, TimingRow>; // Every cycle since the last reset; see createTimingTracer
+    history: Snapshot[];
+    index: number;
+    onSeek: (index: number) => void;
+}> = ({ title, rows, history, index, onSeek }) => {
+    const svgRef = useRef<SVGSVGElement>(null);
+    const runSvgRef = useRef<SVGSVGElement>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
+    const [exportScope, setExportScope] = useState<TimingExport['scope']>('window');
+    const [pendingExport, setPendingExport] = useState<TimingExport | null>(null);
+    // Null follows the current cycle, keeping it at the right edge of the window.
+    const [windowStart, setWindowStart] = useState<number | null>(null);
+
+    // Column 0 is the reset state, which holds no instructions.
+    const runFirstCycle = 1;
+    const runLastCycle = history[history.length - 1].cycle;
+    const currentCycle = history[index].cycle;
+    const maxStart = Math.max(runFirstCycle, runLastCycle - TIMING_WINDOW_CYCLES + 1);
+    const firstCycle = Math.max(runFirstCycle, Math.min(maxStart, windowStart ?? currentCycle - TIMING_WINDOW_CYCLES + 1));
+    const lastCycle = Math.min(runLastCycle, firstCycle + TIMING_WINDOW_CYCLES - 1);
+    // `history` changes whenever the tracer has recorded more cycles or rewound.
+    const windowRows: TimingRow[] = useMemo(() => timingRowsBetween(rows, firstCycle, lastCycle), [rows, history, firstCycle, lastCycle]);
+    const runRows: TimingRow[] = useMemo(() => pendingExport?.scope === 'run' ? [...rows.values()] : [], [rows, history, pendingExport]);
+    const buttonClass = "bg-slate-700 text-slate-200 text-xs font-bold py-1 px-3 rounded-md hover:bg-slate-600 disabled:text-slate-500";
+    const historyFirstCycle = history[0].cycle;
+
+    // A full-run export renders its own, off-screen SVG first; the download starts once it is in the DOM.
+    useEffect(() => {
+        if (!pendingExport) return;
+        const svg = pendingExport.scope === 'run' ? runSvgRef.current : svgRef.current;
+        setPendingExport(null);
+        if (!svg) return;
+        if (pendingExport.format === 'svg') {
+            downloadSvg(svg, 'pipeline-timing.svg');
+        } else {
+            setExportError(null);
+            downloadSvgAsPng(svg, 'pipeline-timing.png').catch((e: Error) => setExportError(e.message));
+        }
+    }, [pendingExport]);
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-cyan-400">{title}</h3>
+                <div className="flex items-center space-x-2">
+                    <select value={exportScope} onChange={e => setExportScope(e.target.value as TimingExport['scope'])} className="p-1 bg-slate-900 text-slate-100 text-xs rounded-md border border-slate-600" aria-label="Cycles to export">
+                        <option value="window">Shown cycles</option>
+                        <option value="run">Whole run</option>
+                    </select>
+                    <button onClick={() => setPendingExport({ format: 'svg', scope: exportScope })} disabled={rows.size === 0} className={buttonClass}>Export SVG</button>
+                    <button onClick={() => setPendingExport({ format: 'png', scope: exportScope })} disabled={rows.size === 0} className={buttonClass}>Export PNG</button>
+                </div>
+            </div>
+            {exportError && <p className="text-xs text-red-400 mb-2" role="alert">{exportError}</p>}
+            {rows.size === 0 ? (
+                <p className="text-sm text-slate-500">Step the simulation to build the diagram.</p>
+            ) : (
+                <>
+                    <label className="flex items-center space-x-3 text-xs text-slate-400 mb-2">
+                        <span className="w-28">Cycles {firstCycle}-{lastCycle}</span>
+                        <input
+                            type="range" min={runFirstCycle} max={maxStart} value={firstCycle}
+                            onChange={e => setWindowStart(Number(e.target.value))}
+                            disabled={maxStart === runFirstCycle}
+                            className="flex-grow accent-cyan-500" aria-label="Timing diagram window"
+                        />
+                        <button onClick={() => setWindowStart(null)} disabled={windowStart === null} className={buttonClass}>Follow current cycle</button>
+                    </label>
+                    <div className="overflow-auto max-h-96 border border-slate-700 rounded-md">
+                        <TimingDiagramSvg
+                            svgRef={svgRef} rows={windowRows} firstCycle={firstCycle} lastCycle={lastCycle} currentCycle={currentCycle}
+                            onSeekCycle={cycle => onSeek(cycle - historyFirstCycle)} canSeek={cycle => cycle >= historyFirstCycle}
+                        />
+                    </div>
+                </>
+            )}
+            {pendingExport?.scope === 'run' && (
+                <div className="hidden">
+                    <TimingDiagramSvg svgRef={runSvgRef} rows={runRows} firstCycle={runFirstCycle} lastCycle={runLastCycle} currentCycle={currentCycle} />
+                </div>
+            )}
+            <p className="text-xs text-slate-500 mt-2">
+                One row per fetched instruction, including wrong-path fetches; click a cycle number to jump to it.
+                {historyFirstCycle > 0 ? ` Cycles before ${historyFirstCycle} have left the cycle history and cannot be jumped to.` : ''}
+            </p>
+        </div>
+    );
+};
+
+const CPI_COLORS: Record<CpiComponent, string> = {
+    'Base': '#22d3ee',
+    'Load-use': '#eab308',
+    'RAW': '#84cc16',
+    'Branch flush': '#ef4444',
+    'Custom EX': '#a855f7',
+    'Cache miss': '#f97316',
+    'Contention': '#ec4899',
+    'Fill/drain': '#64748b',
+};
+
+const formatCpi = ({ cycles, retired }: PerfCounters): string => retired === 0 ? '--' : (cycles / retired).toFixed(2);
+
+const CpiBreakdownChart: React.FC<{ data: Record<string, string | number>[]; labelWidth?: number }> = ({ data, labelWidth = 60 }) => (
+    <div style={{ height: 80 + data.length * 50 }}>
+        <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical" margin={{ top: 10, right: 30, left: 20, bottom: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis type="number" stroke="#94a3b8" />
+                <YAxis type="category" dataKey="name" stroke="#94a3b8" width={labelWidth} axisLine={false} tickLine={false} />
+                <Tooltip
+                    contentStyle={{ background: '#1e293b', border: '1px solid #334155', borderRadius: '0.5rem' }}
+                    cursor={{ fill: 'rgba(100, 116, 139, 0.1)' }}
+                    formatter={(value: number) => value.toFixed(3)}
+                />
+                <Legend />
+                {CPI_COMPONENTS.map(key => (
+                    <Bar key={key} dataKey={key} stackId="cpi" fill={CPI_COLORS[key]} barSize={30} />
+                ))}
+            </BarChart>
+        </ResponsiveContainer>
+    </div>
+);
+
+const PerformancePanel: React.FC<{ cores: CoreState[] }> = ({ cores }) => {
+    const chartData = cores.map((c, i) => ({ name: cores.length > 1 ? `Core ${i}` : 'CPI', ...cpiBreakdown(c.counters, c.contentionStalls) }));
+    const stat = (label: string, value: string | number) => (
+        <div className="bg-slate-900/50 p-2 rounded-md">
+            <p className="text-xs text-slate-400">{label}</p>
+            <p className="text-lg font-bold text-slate-100">{value}</p>
+        </div>
+    );
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <h3 className="text-lg font-semibold text-cyan-400 mb-3">Performance Counters</h3>
+            {cores.map((c, i) => {
+                const { cycles, retired, loadUseStalls, rawStalls, branchFlushes, forwardsFromEx, forwardsFromXu, forwardsFromMem, customOccupancyCycles, cacheStallCycles } = c.counters;
+                return (
+                    <div key={i} className="mb-4">
+                        {cores.length > 1 && <h4 className="text-sm font-semibold text-slate-300 mb-2">Core {i}</h4>}
+                        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-center">
+                            {stat('Cycles', cycles)}
+                            {stat('Retired', retired)}
+                            {stat('CPI', formatCpi(c.counters))}
+                            {stat('Load-use stalls', loadUseStalls)}
+                            {stat('Other RAW stalls', rawStalls)}
+                            {stat('Branch flushes', branchFlushes)}
+                            {stat('Forwards EX→ID', forwardsFromEx)}
+                            {stat('Forwards XU→ID', forwardsFromXu)}
+                            {stat('Forwards MEM→ID', forwardsFromMem)}
+                            {stat('Custom EX occupancy', customOccupancyCycles)}
+                            {stat('Cache stall cycles', cacheStallCycles)}
+                            {stat('Contention stalls', c.contentionStalls)}
+                        </div>
+                    </div>
+                );
+            })}
+            <h4 className="text-sm font-semibold text-slate-300 mb-2">CPI Breakdown</h4>
+            <CpiBreakdownChart data={chartData} />
+        </div>
+    );
+};
+
+// Decoded meaning of a CSR value, shown under it in the CSR panel.
+const describeCsr = (name: keyof CsrFile, { csrs, lastTrap }: CoreState): string => {
+    switch (name) {
+        case 'mstatus': return `MIE=${csrs.mstatus & MSTATUS_MIE ? 1 : 0} MPIE=${csrs.mstatus & MSTATUS_MPIE ? 1 : 0} MPP=M`;
+        case 'mtvec': return csrs.mtvec === 0 ? 'No handler (traps halt)' : 'Direct mode';
+        case 'mcause': return !lastTrap && csrs.mcause === 0 ? 'No trap yet' : TRAP_CAUSE_NAMES[csrs.mcause] ?? 'Unknown cause';
+        case 'mcycle':
+        case 'minstret': return `${csrs[name]} (decimal)`;
+        default: return '';
+    }
+};
+
+const CsrPanel: React.FC<{ cores: CoreState[] }> = ({ cores }) => (
+    <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+        <h3 className="text-lg font-semibold text-cyan-400 mb-3">Machine-Mode CSRs</h3>
+        {cores.map((c, i) => (
+            <div key={i} className="mb-4">
+                {cores.length > 1 && <h4 className="text-sm font-semibold text-slate-300 mb-2">Core {i} (mhartid = {c.hartId})</h4>}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {CSR_FILE_NAMES.map(name => (
+                        <div key={name} className="bg-slate-900/50 p-2 rounded-md">
+                            <p className="text-xs text-slate-400">
+                                {name} <span className="text-slate-600">0x{CSR_ADDRESSES[name].toString(16)}</span>
+                            </p>
+                            <p className="font-mono text-sm text-slate-100">{formatCsr(c.csrs[name])}</p>
+                            <p className="text-xs text-slate-500 truncate">{describeCsr(name, c)}</p>
+                        </div>
+                    ))}
+                </div>
+                <p className="text-xs text-slate-400 mt-2">
+                    {c.lastTrap
+                        ? `Last trap: ${TRAP_CAUSE_NAMES[c.lastTrap.cause]} at ${formatWordAddress(c.lastTrap.pc * 4)}${c.lastTrap.handled ? ', handled at mtvec.' : '; no handler was installed, so the hart halted.'}`
+                        : 'No traps taken.'}
+                </p>
+            </div>
+        ))}
+        <p className="text-xs text-slate-500">
+            Read and write these with csrr/csrw (cycle and instret are read-only aliases). ecall, ebreak, writes to read-only or
+            unknown CSRs, misaligned loads and stores and misaligned jalr targets trap precisely: younger instructions are
+            flushed, mepc/mcause/mtval are set and fetch continues at mtvec. mret returns to mepc.
+        </p>
+    </div>
+);
+
+const MMIO_REGISTER_DOCS: Record<MmioRegister, string> = {
+    ACCEL_CTRL: 'W: bit 0 starts. R: bit 0 busy, bit 1 done',
+    COMPLETE: 'W: exit code; ends the run',
+    ACCEL_SRC_A: 'Matrix A (rows x cols, row-major)',
+    ACCEL_SRC_B: 'Vector B (cols)',
+    ACCEL_DST: 'Result C = relu(A x B) (rows)',
+    ACCEL_ROWS: 'Rows (max 256)',
+    ACCEL_COLS: 'Columns (max 256)',
+    UART_TX: 'W: low byte to the console',
+    UART_STATUS: 'R: bit 0 TX ready',
+    GPIO_LEDS: `R/W: ${GPIO_LED_COUNT} LEDs, bit i lights LED i`,
+};
+
+const MmioPanel: React.FC<{ devices: DeviceState }> = ({ devices }) => {
+    const { uart, leds, accelerator, completion } = devices;
+    const status = accelerator.busy ? `Busy (${accelerator.cyclesRemaining} cycles left)` : accelerator.done ? 'Done' : 'Idle';
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <h3 className="text-lg font-semibold text-cyan-400 mb-3">Memory-Mapped I/O</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                    <h4 className="text-sm font-semibold text-slate-300 mb-2">UART Console</h4>
+                    <pre className="h-32 overflow-auto p-2 rounded-md bg-black/60 border border-slate-700 font-mono text-xs text-emerald-300 whitespace-pre-wrap">
+                        {uart || <span className="text-slate-600">(no output)</span>}
+                    </pre>
+                    <h4 className="text-sm font-semibold text-slate-300 mt-3 mb-2">GPIO LEDs</h4>
+                    <div className="flex items-center gap-2">
+                        {Array.from({ length: GPIO_LED_COUNT }, (_, i) => GPIO_LED_COUNT - 1 - i).map(bit => {
+                            const lit = (leds >> bit) & 1;
+                            return (
+                                <div key={bit} className="flex flex-col items-center">
+                                    <div className={`w-5 h-5 rounded-full border ${lit ? 'bg-emerald-400 border-emerald-200 shadow-[0_0_8px_#34d399]' : 'bg-slate-700 border-slate-600'}`} title={`LED ${bit}`} />
+                                    <span className="text-[10px] text-slate-500">{bit}</span>
+                                </div>
+                            );
+                        })}
+                        <span className="ml-2 font-mono text-xs text-slate-400">0x{leds.toString(16).padStart(2, '0')}</span>
+                    </div>
+                </div>
+                <div className="text-sm">
+                    <h4 className="font-semibold text-slate-300 mb-2">Accelerator</h4>
+                    <dl className="grid grid-cols-2 gap-x-2 gap-y-1 font-mono text-xs">
+                        <dt className="text-slate-400">Status</dt><dd className="text-slate-100">{status}</dd>
+                        <dt className="text-slate-400">A</dt><dd className="text-slate-100">{formatWordAddress(accelerator.srcA)}</dd>
+                        <dt className="text-slate-400">B</dt><dd className="text-slate-100">{formatWordAddress(accelerator.srcB)}</dd>
+                        <dt className="text-slate-400">C</dt><dd className="text-slate-100">{formatWordAddress(accelerator.dst)}</dd>
+                        <dt className="text-slate-400">Rows x cols</dt><dd className="text-slate-100">{accelerator.rows} x {accelerator.cols}</dd>
+                        <dt className="text-slate-400">Runs</dt><dd className="text-slate-100">{accelerator.runs}</dd>
+                    </dl>
+                    <h4 className="font-semibold text-slate-300 mt-3 mb-1">Completion</h4>
+                    <p className={`text-xs ${completion ? 'text-emerald-300' : 'text-slate-500'}`}>
+                        {completion ? `Exit code ${completion.code} from hart ${completion.hart}` : 'Not signalled'}
+                    </p>
+                </div>
+            </div>
+            <details className="mt-3 text-xs text-slate-400">
+                <summary className="cursor-pointer text-slate-300">Register map</summary>
+                <table className="mt-2 w-full font-mono">
+                    <tbody>
+                        {(Object.keys(MMIO_REGISTERS) as MmioRegister[]).map(name => (
+                            <tr key={name} className="border-t border-slate-700/50">
+                                <td className="py-0.5 pr-2 text-slate-300">{formatWordAddress(MMIO_BASE + MMIO_REGISTERS[name])}</td>
+                                <td className="pr-2 text-cyan-300">{name}</td>
+                                <td className="font-sans">{MMIO_REGISTER_DOCS[name]}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </details>
+        </div>
+    );
+};
+
+const MicroarchitecturePanel: React.FC<{
+    config: SimulatorConfig;
+    onPipelineChange: (pipeline: PipelineConfig) => void;
+    programs: Program[];
+    coreCount: number;
+    boot?: BootImage;
+}> = ({ config, onPipelineChange, programs, coreCount, boot }) => {
+    const [results, setResults] = useState<MicroarchitectureResult[] | null>(null);
+    const [comparedCount, setComparedCount] = useState<number | null>(null); // Configurations done while comparing
+    const [compareError, setCompareError] = useState<string | null>(null);
+    const comparison = useRef<AbortController | null>(null);
+    const { pipeline } = config;
+    const selectClass = "p-1.5 bg-slate-900 text-slate-100 text-xs rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+    // A comparison only holds for the programs, caches and predictor it was run with.
+    useEffect(() => {
+        comparison.current?.abort();
+        setResults(null);
+        setComparedCount(null);
+        setCompareError(null);
+    }, [programs, coreCount, boot, config.predictor, config.icache, config.dcache, config.l2]);
+
+    useEffect(() => () => comparison.current?.abort(), []);
+
+    const compare = async () => {
+        const controller = new AbortController();
+        comparison.current = controller;
+        setComparedCount(0);
+        setCompareError(null);
+        try {
+            const compared = await compareMicroarchitectures(programs, config, coreCount, boot, setComparedCount, controller.signal);
+            if (compared === null) return;
+            setResults(compared);
+        } catch (e) {
+            if (controller.signal.aborted) return;
+            if (!(e instanceof EngineWorkerError)) console.error(e);
+            setCompareError(e instanceof EngineWorkerError ? e.message : 'Could not compare the configurations.');
+        }
+        setComparedCount(null);
+    };
+
+    return (
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-cyan-400">Microarchitecture</h3>
+                <button
+                    onClick={compare}
+                    disabled={comparedCount !== null}
+                    className="bg-slate-700 text-slate-200 text-xs font-bold py-1 px-3 rounded-md hover:bg-slate-600 disabled:text-slate-500"
+                >
+                    {comparedCount !== null ? `Comparing... ${comparedCount}/${MICROARCHITECTURES.length}` : 'Compare All Configurations'}
+                </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-slate-300">
+                <label className="flex items-center space-x-2">
+                    <input type="checkbox" checked={pipeline.forwarding} onChange={e => onPipelineChange({ ...pipeline, forwarding: e.target.checked })} className="accent-cyan-500" />
+                    <span>Data forwarding</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>Resolve branches in</span>
+                    <select value={pipeline.branchResolution} onChange={e => onPipelineChange({ ...pipeline, branchResolution: e.target.value as BranchResolution })} className={selectClass}>
+                        <option value="ex">EX ({MISPREDICT_PENALTY_CYCLES}-cycle penalty)</option>
+                        <option value="id">ID (1-cycle penalty)</option>
+                    </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <input type="checkbox" checked={pipeline.splitEx} onChange={e => onPipelineChange({ ...pipeline, splitEx: e.target.checked })} className="accent-cyan-500" />
+                    <span>Split EX (custom unit XU for multi-cycle instructions)</span>
+                </label>
+            </div>
+            {compareError && <p className="mt-3 text-xs text-red-400" role="alert">{compareError}</p>}
+            {results && (
+                <div className="mt-4">
+                    <div className="overflow-x-auto font-mono text-xs">
+                        <table className="w-full text-left">
+                            <thead className="text-slate-500">
+                                <tr>
+                                    <th className="pr-4">Configuration</th><th className="pr-4">Cycles</th><th className="pr-4">CPI</th>
+                                    <th className="pr-4">Load-use</th><th className="pr-4">Other RAW</th><th className="pr-4">Flush cycles</th><th>Custom EX</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.map(result => (
+                                    <tr key={describePipeline(result.pipeline)} className={samePipeline(result.pipeline, pipeline) ? 'text-cyan-300' : 'text-slate-300'}>
+                                        <td className="pr-4">{describePipeline(result.pipeline)}</td>
+                                        <td className="pr-4">{result.finished ? result.cycles : `>${MAX_RUN_CYCLES}`}</td>
+                                        <td className="pr-4">{formatCpi(result.counters)}</td>
+                                        <td className="pr-4">{result.counters.loadUseStalls}</td>
+                                        <td className="pr-4">{result.counters.rawStalls}</td>
+                                        <td className="pr-4">{result.counters.flushPenaltyCycles}</td>
+                                        <td>{result.counters.customOccupancyCycles}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <h4 className="text-sm font-semibold text-slate-300 mt-4 mb-2">CPI Breakdown by Configuration</h4>
+                    <CpiBreakdownChart
+                        data={results.map(result => ({ name: describePipeline(result.pipeline), ...cpiBreakdown(result.counters, result.contentionStalls) }))}
+                        labelWidth={220}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const PipelineStagesView: React.FC<{
+    pipeline: Record<PipelineStageName, PipelineStage>;
+    forwardingPath: ForwardingPath | null;
+    hazardMessage: string;
+    compact?: boolean;
+    breakStage?: PipelineStageName | null; // Stage holding the instruction that triggered the last pause
+    showXu?: boolean;
+}> = ({ pipeline, forwardingPath, hazardMessage, compact = false, breakStage = null, showXu = false }) => (
+    <>
+        <div className={compact ? 'space-y-2' : 'space-y-3'}>
+            {Object.entries(pipeline).filter(([stageKey]) => showXu || stageKey !== 'xu').map(([stageKey, stageData]: [string, PipelineStage]) => {
+                const isForwardingSource = forwardingPath?.from === stageKey;
+                const isForwardingDest = forwardingPath?.to === stageKey;
+                const isForwarding = isForwardingSource || isForwardingDest;
+
+                return (
+                    <div key={stageKey} className={`${compact ? 'p-2' : 'p-4'} rounded-lg border-2 transition-all duration-300 ${
+                        stageData.isFlush ? 'animate-flash-red' :
+                        stageData.isStall ? 'animate-flash-yellow' :
+                        isForwarding ? 'animate-flash-cyan' :
+                        'border-slate-700 bg-slate-800/50'
+                    } ${breakStage === stageKey ? 'ring-2 ring-fuchsia-500' : ''}`}>
+                        <h4 className={`font-bold text-slate-300 ${compact ? 'text-xs' : ''}`}>{STAGE_NAMES[stageKey as PipelineStageName]}</h4>
+                        <div
+                          className={`font-mono ${compact ? 'text-sm p-2 mt-1 h-10' : 'text-lg p-3 mt-2 h-16'} bg-slate-900/50 rounded flex items-center justify-center transition-all duration-300`}
+                          style={{ borderLeft: stageData.instr?.color ? `4px solid ${stageData.instr.color}` : '4px solid transparent'}}
+                        >
+                            {stageData.isStall && !stageData.instr ? <span className="text-yellow-400 font-bold">-- BUBBLE --</span> :
+                             stageData.isFlush ? <span className="text-red-400 font-bold">-- FLUSH --</span> :
+                             stageData.instr ? <span style={{ color: stageData.instr.color || '#afeeee' }} className="font-semibold">{stageData.instr.raw}</span> :
+                             <span className="text-slate-600">-- empty --</span>
+                            }
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+        <div className={`mt-4 ${compact ? 'min-h-12 p-2' : 'h-12 p-3'} bg-slate-800 rounded-lg border border-slate-700 flex items-center justify-center`}>
+            <p className={`font-semibold ${compact ? 'text-xs' : 'text-sm'} text-center ${forwardingPath ? 'text-cyan-300' : hazardMessage.includes('HAZARD') || hazardMessage.includes('CONTENTION') ? 'text-yellow-400' : 'text-slate-500'}`}>
+                {hazardMessage}
+            </p>
+        </div>
+    </>
+);
+
 export const PipelineVisualizer: React.FC<PipelineVisualizerProps> = ({ initialCode = sampleCode, isEmbedded = false }) => {
     const [assemblyCode, setAssemblyCode] = useState(initialCode);
-    const [instructions, setInstructions] = useState<Instruction[]>([]);
-    const [labels, setLabels] = useState<Record<string, number>>({});
-    const [pc, setPc] = useState(0);
-    const [cycle, setCycle] = useState(0);
-    const [pipeline, setPipeline] = useState<Record<PipelineStageName, PipelineStage>>(initialPipeline);
-    const [registerFile, setRegisterFile] = useState<number[]>([]);
-    const [dataMemory, setDataMemory] = useState<Record<number, number>>({});
-    const [lastWrittenReg, setLastWrittenReg] = useState<number | null>(null);
+    const [secondaryCode, setSecondaryCode] = useState(sampleKernelCode);
+    const [dualCore, setDualCore] = useState(false);
+    const [programs, setPrograms] = useState<Program[]>([{ instructions: [], labels: {} }]);
+    const [parseErrors, setParseErrors] = useState<AssemblyError[][]>([[]]);
+    const [config, setConfig] = useState<SimulatorConfig>(DEFAULT_CONFIG);
+    const [history, setHistory] = useState<Snapshot[]>(() => [createSnapshot(1, DEFAULT_CONFIG)]);
+    const [historyIndex, setHistoryIndex] = useState(0); // The snapshot on display; stepping forward from the past discards later ones
+    const [selectedCore, setSelectedCore] = useState(0);
     const [highlightedPcs, setHighlightedPcs] = useState<Record<number, string>>({});
-    const [memoryAccessStatus, setMemoryAccessStatus] = useState<{ address: number; type: 'read' | 'write' } | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [runSpeed, setRunSpeed] = useState(10); // Cycles per second
+    const [runProgress, setRunProgress] = useState<number | null>(null); // Cycles done while running to the end
+    const longRun = useRef<AbortController | null>(null);
+    const vcdTracer = useRef<VcdTracer | null>(null); // Every cycle since the last reset; see createVcdTracer
+    const timingTracer = useRef<TimingTracer | null>(null); // Likewise; see createTimingTracer
+    const [debugTargets, setDebugTargets] = useState<DebugTargets>({ breakpoints: [[], []], conditions: [], watchpoints: [] });
+    const [breakEvent, setBreakEvent] = useState<BreakEvent | null>(null);
+    const [elf, setElf] = useState<{ name: string; image: ElfImage } | null>(null);
+    const [elfError, setElfError] = useState<string | null>(null);
+
+    // A loaded executable keeps its entry point and data until it is unloaded, even if the listing is edited.
+    const boot: BootImage | undefined = useMemo(() => elf ? bootImageFromElf(elf.image) : undefined, [elf]);
 
     const resetSimulationState = useCallback(() => {
-        setCycle(0);
-        setPc(0);
-        setPipeline(initialPipeline);
-        const regs = Array(32).fill(0);
-        regs[1] = 256; // x1 = base address for lw/sw
-        setRegisterFile(regs);
-        setDataMemory({ 256: 42 });
-        setLastWrittenReg(null);
-        setMemoryAccessStatus(null);
+        longRun.current?.abort();
+        longRun.current = null;
+        vcdTracer.current = null;
+        timingTracer.current = null;
+        setRunProgress(null);
+        setIsRunning(false);
+        setBreakEvent(null);
+        setHistory([createSnapshot(dualCore ? 2 : 1, config, boot)]);
+        setHistoryIndex(0);
+        if (!dualCore) setSelectedCore(0);
+    }, [config, dualCore, boot]);
+
+    const loadElf = useCallback((file: File) => {
+        file.arrayBuffer()
+            .then(buffer => {
+                const image = parseElf32(new Uint8Array(buffer));
+                setElf({ name: file.name, image });
+                setElfError(null);
+                setAssemblyCode(elfToAssembly(image));
+            })
+            .catch(e => {
+                if (!(e instanceof ElfError)) console.error(e);
+                setElfError(e instanceof ElfError ? e.message : `Could not read '${file.name}'.`);
+            });
     }, []);
 
     useEffect(() => {
         setAssemblyCode(initialCode);
     }, [initialCode]);
 
-    useEffect(() => {
-        const { instructions: parsed, labels: parsedLabels } = parseAssembly(assemblyCode);
-        setInstructions(parsed);
-        setLabels(parsedLabels);
+    // Core 1 runs its own program in the editor; the embedded listing has no second editor, so both harts run it.
+    const loadPrograms = useCallback(() => {
+        const sources = dualCore ? [assemblyCode, isEmbedded ? assemblyCode : secondaryCode] : [assemblyCode];
+        const parsed = sources.map(source => parseAssembly(source));
+        setPrograms(parsed.map(({ instructions, labels }) => ({ instructions, labels })));
+        setParseErrors(parsed.map(({ errors }) => errors));
         resetSimulationState();
-    }, [assemblyCode, resetSimulationState]);
+    }, [assemblyCode, secondaryCode, dualCore, isEmbedded, resetSimulationState]);
 
-    const isFinished = useMemo(() => {
-        return pc >= instructions.length && Object.values(pipeline).every((stage: PipelineStage) => stage.instr === null);
-    }, [pc, instructions.length, pipeline]);
-    
-    const { hazardMessage, forwardingPath } = useMemo(() => {
-        const id_instr = pipeline.id.instr;
-        const ex_instr = pipeline.ex.instr;
-        const mem_instr = pipeline.mem.instr;
-
-        const idReadsReg = (reg?: number) => reg !== undefined && reg !== 0 && (id_instr?.rs1 === reg || id_instr?.rs2 === reg);
-
-        // Data Hazard Priority 1: Load-Use Hazard (requires stall)
-        if (ex_instr?.op === 'lw' && idReadsReg(ex_instr.rd)) {
-            return {
-                hazardMessage: `DATA HAZARD: Load-Use dependency on x${ex_instr.rd}. Stall required.`,
-                forwardingPath: null,
-            };
-        }
+    useEffect(() => {
+        loadPrograms();
+    }, [loadPrograms]);
 
-        // Data Hazard Priority 2: EX -> ID Forwarding
-        if (ex_instr?.rd !== undefined && idReadsReg(ex_instr.rd)) {
-            return {
-                hazardMessage: `FORWARDING: x${ex_instr.rd} forwarded from EX to ID.`,
-                forwardingPath: { from: 'ex', to: 'id', reg: ex_instr.rd },
-            };
-        }
+    const { cycle, cores, shared }: Snapshot = history[historyIndex] ?? history[history.length - 1];
+    const core: CoreState = cores[selectedCore] ?? cores[0];
+    const { pipeline, pc, registerFile, fpRegisterFile, lastWrittenReg } = core;
+    const instructions: Instruction[] = (programs[selectedCore] ?? programs[0]).instructions;
 
-        // Data Hazard Priority 3: MEM -> ID Forwarding
-        if (mem_instr?.rd !== undefined && idReadsReg(mem_instr.rd)) {
-            return {
-                hazardMessage: `FORWARDING: x${mem_instr.rd} forwarded from MEM to ID.`,
-                forwardingPath: { from: 'mem', to: 'id', reg: mem_instr.rd },
-            };
-        }
+    const isFinished = useMemo(() => isSystemFinished({ cores, shared }, programs), [cores, shared, programs]);
 
-        // Control Hazard: Branch/Jump in EX stage
-        const ex_op = pipeline.ex.instr?.op;
-        if ((ex_op === 'beq' || ex_op === 'jal') && pipeline.ex.instr) {
-             return {
-                hazardMessage: `CONTROL HAZARD: Branch ('${pipeline.ex.instr.raw}') in EX. Flush imminent if taken.`,
-                forwardingPath: null,
-            };
-        }
+    // Stepping calls the semantic functions of user-defined instructions on the page, where one that never
+    // returns would freeze it. Programs using them are run in the engine worker first, up to MAX_RUN_CYCLES
+    // cycles, and the controls stay disabled until that run has finished without stalling.
+    const usesUserInstructions = useMemo(() => programs.some(program => program.instructions.some(instr => ISA[instr.op]?.userDefined)), [programs]);
+    const [checkingInWorker, setCheckingInWorker] = useState(false);
+    const [workerCheckError, setWorkerCheckError] = useState<string | null>(null);
+    const blockedByCheck = checkingInWorker || workerCheckError !== null;
+
+    useEffect(() => {
+        setWorkerCheckError(null);
+        setCheckingInWorker(usesUserInstructions);
+        if (!usesUserInstructions) return;
+        const controller = new AbortController();
+        runInWorker(load(programs, config, boot), MAX_RUN_CYCLES, { signal: controller.signal })
+            .catch(e => {
+                if (controller.signal.aborted) return;
+                if (!(e instanceof EngineWorkerError)) console.error(e);
+                setWorkerCheckError(e instanceof EngineWorkerError ? e.message : 'Could not check the user-defined instructions.');
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setCheckingInWorker(false);
+            });
+        return () => controller.abort();
+    }, [programs, config, boot, usesUserInstructions]);
 
-        // No hazard detected
-        return { hazardMessage: 'Status: No hazards detected.', forwardingPath: null };
-    }, [pipeline]);
+    const { hazardMessage, forwardingPath } = useMemo(() => analyzeHazards(core, config.pipeline), [core, config.pipeline]);
 
     useEffect(() => {
         const newHighlights: Record<number, string> = {};
@@ -275,8 +1151,8 @@ export const PipelineVisualizer: React.FC<PipelineVisualizerProps> = ({ initialC
         }
 
         const { ex, id, if: if_stage } = pipeline;
-        const isLoadUse = ex.instr?.op === 'lw' && id.instr && id.instr.rd !== 0 && (id.instr.rs1 === ex.instr.rd || id.instr.rs2 === ex.instr.rd);
-        const isControlHazard = ex.instr && ['beq', 'jal'].includes(ex.instr.op);
+        const isLoadUse = !!ex.instr && LOAD_OPS.includes(ex.instr.op) && readsReg(id.instr, ex.instr.rd);
+        const isControlHazard = ex.instr && CONTROL_OPS.includes(ex.instr.op);
 
         if (isLoadUse && ex.pc !== null) {
             newHighlights[ex.pc] = 'hazard-source';
@@ -286,185 +1162,135 @@ export const PipelineVisualizer: React.FC<PipelineVisualizerProps> = ({ initialC
             if (id.isFlush && id.pc !== null) newHighlights[id.pc] = 'hazard-victim-flush';
             if (if_stage.isFlush && if_stage.pc !== null) newHighlights[if_stage.pc] = 'hazard-victim-flush';
         } else if (forwardingPath && forwardingPath.from && forwardingPath.to) {
-            const fromPc = pipeline[forwardingPath.from as keyof typeof pipeline].pc;
-            const toPc = pipeline[forwardingPath.to as keyof typeof pipeline].pc;
+            const fromPc = pipeline[forwardingPath.from].pc;
+            const toPc = pipeline[forwardingPath.to].pc;
             if (fromPc !== null) newHighlights[fromPc] = 'forward-source';
             if (toPc !== null) newHighlights[toPc] = 'forward-dest';
         }
-        
+
+        if (breakEvent?.core === selectedCore && breakEvent.pc !== null) newHighlights[breakEvent.pc] = 'breakpoint';
+
         setHighlightedPcs(newHighlights);
-    }, [pipeline, pc, instructions, forwardingPath]);
+    }, [pipeline, pc, instructions, forwardingPath, breakEvent, selectedCore]);
 
     const registerStatus = useMemo(() => {
-        const status = Array(32).fill('idle');
+        const status = Array(64).fill('idle');
         const { id, ex } = pipeline;
 
         // Check for load-use hazard
-        const isLoadUse = ex.instr?.op === 'lw' && id.instr && ex.instr.rd !== 0 && (id.instr.rs1 === ex.instr.rd || id.instr.rs2 === ex.instr.rd);
-    
+        const isLoadUse = !!ex.instr && LOAD_OPS.includes(ex.instr.op) && readsReg(id.instr, ex.instr.rd);
+
         // Set statuses with priority
         if (id.instr?.rs1 !== undefined) status[id.instr.rs1] = 'reading';
         if (id.instr?.rs2 !== undefined) status[id.instr.rs2] = 'reading';
-    
+        if (id.instr?.rs3 !== undefined) status[id.instr.rs3] = 'reading';
+
         if (ex.instr?.rd !== undefined && ex.instr.rd !== 0) status[ex.instr.rd] = 'writing';
         if (pipeline.mem.instr?.rd !== undefined && pipeline.mem.instr.rd !== 0) status[pipeline.mem.instr.rd] = 'writing';
-        
+
         if (forwardingPath) {
              status[forwardingPath.reg] = 'forwarding-source';
         }
-    
+
         // HIGHEST PRIORITY OVERRIDES
-        if (isLoadUse && ex.instr.rd !== undefined) {
-            // The destination of the LW is the source of the hazard
-            status[ex.instr.rd] = 'load-use-hazard'; 
+        if (isLoadUse && ex.instr?.rd !== undefined) {
+            // The destination of the load is the source of the hazard
+            status[ex.instr.rd] = 'load-use-hazard';
         }
 
         if (lastWrittenReg !== null) {
             status[lastWrittenReg] = 'just-written';
         }
-    
+
         return status;
     }, [pipeline, lastWrittenReg, forwardingPath]);
 
-    const clockTick = useCallback(() => {
-        if (isFinished) return;
+    // The VCD tracer for a run from `state`: recording starts at the first run after a reset, and a run
+    // from an earlier cycle drops the cycles recorded after it.
+    const vcdTracerFrom = useCallback((state: Snapshot): VcdTracer => {
+        if (vcdTracer.current === null) vcdTracer.current = createVcdTracer(programs, config.pipeline, state);
+        else vcdTracer.current.rewind(state.cycle);
+        return vcdTracer.current;
+    }, [programs, config.pipeline]);
 
-        let newPc = pc;
-        let stallId = false;
-        let flushIf = false;
-        let flushId = false;
-        let regWrittenThisCycle: number | null = null;
-        let branchTaken = false;
-        let newMemoryAccessStatus: { address: number, type: 'read' | 'write' } | null = null;
-        
-        const newPipeline: Record<PipelineStageName, PipelineStage> = {
-            if: { instr: null, pc: null },
-            id: { instr: null, pc: null },
-            ex: { instr: null, pc: null },
-            mem: { instr: null, pc: null },
-            wb: { instr: null, pc: null },
+    const timingTracerFrom = useCallback((state: Snapshot): TimingTracer => {
+        if (timingTracer.current === null) timingTracer.current = createTimingTracer(state);
+        else timingTracer.current.rewind(state);
+        return timingTracer.current;
+    }, []);
+
+    // Starts recording a run from the snapshot on display: `shouldStop` feeds every cycle to the VCD and
+    // timing tracers, keeps the last MAX_HISTORY_SNAPSHOTS snapshots and stops on a breakpoint, and
+    // `commit` publishes the run in one state update.
+    const recordRun = useCallback(() => {
+        const snapshots: Snapshot[] = history.slice(0, historyIndex + 1);
+        const tracers = [vcdTracerFrom(snapshots[snapshots.length - 1]), timingTracerFrom(snapshots[snapshots.length - 1])];
+        let event: BreakEvent | null = null;
+        const shouldStop = (before: Snapshot, after: Snapshot): boolean => {
+            snapshots.push(after);
+            tracers.forEach(tracer => tracer.record(after));
+            // Trimmed in batches so a long run neither grows without bound nor shifts the array every cycle.
+            if (snapshots.length > 2 * MAX_HISTORY_SNAPSHOTS) snapshots.splice(0, snapshots.length - MAX_HISTORY_SNAPSHOTS);
+            event = checkBreakpoints(before.cores, after.cores, programs, debugTargets);
+            return event !== null;
         };
-        const newRegisterFile = [...registerFile];
-        const newMemory = { ...dataMemory };
-        
-        setLastWrittenReg(null);
-
-        // --- WB Stage ---
-        const wb_instr = pipeline.mem.instr;
-        const wb_result = pipeline.mem.result;
-        if (wb_instr?.rd !== undefined && wb_instr.rd !== 0 && wb_result !== undefined) {
-            newRegisterFile[wb_instr.rd] = wb_result;
-            regWrittenThisCycle = wb_instr.rd;
-        }
-        newPipeline.wb = { instr: wb_instr, pc: pipeline.mem.pc, result: wb_result };
-
-        // --- MEM Stage ---
-        const mem_instr = pipeline.ex.instr;
-        const mem_addr = pipeline.ex.address;
-        let mem_result = pipeline.ex.result;
-
-        if (mem_instr?.op === 'lw' && mem_addr !== undefined) {
-            mem_result = dataMemory[mem_addr] || 0;
-            newMemoryAccessStatus = { address: mem_addr, type: 'read' };
-        } else if (mem_instr?.op === 'sw' && mem_addr !== undefined) {
-            const valueToStore = pipeline.ex.result ?? 0;
-            newMemory[mem_addr] = valueToStore;
-            newMemoryAccessStatus = { address: mem_addr, type: 'write' };
-        }
-        newPipeline.mem = { instr: mem_instr, pc: pipeline.ex.pc, result: mem_result, address: mem_addr };
+        const commit = (reason: StopReason): BreakEvent | null => {
+            const kept = snapshots.slice(-MAX_HISTORY_SNAPSHOTS);
+            setHistory(kept);
+            setHistoryIndex(kept.length - 1);
+            setBreakEvent(event);
+            if (event) setSelectedCore((event as BreakEvent).core);
+            if (reason !== 'max-cycles') setIsRunning(false);
+            return event;
+        };
+        return { machine: { programs, config, state: snapshots[snapshots.length - 1] }, shouldStop, commit };
+    }, [history, historyIndex, programs, config, debugTargets, vcdTracerFrom, timingTracerFrom]);
 
-        // --- EX Stage ---
-        const id_instr_for_ex = pipeline.id.instr;
-        if (pipeline.ex.instr?.op === 'lw' && id_instr_for_ex && pipeline.ex.instr.rd !== 0 && pipeline.ex.instr.rd !== undefined && (id_instr_for_ex.rs1 === pipeline.ex.instr.rd || id_instr_for_ex.rs2 === pipeline.ex.instr.rd)) {
-             stallId = true;
-        }
-        
-        let ex_result: number | undefined = undefined;
-        let ex_address: number | undefined = undefined;
-        
-        if (!stallId && id_instr_for_ex) {
-            const getValue = (regNum?: number): number => {
-                if (regNum === undefined || regNum === 0) return 0;
-                if (pipeline.mem.instr?.rd === regNum && pipeline.mem.result !== undefined) return pipeline.mem.result;
-                if (pipeline.ex.instr?.rd === regNum && pipeline.ex.result !== undefined) return pipeline.ex.result;
-                if (wb_instr?.rd === regNum && wb_result !== undefined) return wb_result;
-                return registerFile[regNum];
-            };
-
-            const val1 = getValue(id_instr_for_ex.rs1);
-            const val2 = getValue(id_instr_for_ex.rs2);
-            
-            switch(id_instr_for_ex.op) {
-                case 'add': ex_result = val1 + val2; break;
-                case 'sub': ex_result = val1 - val2; break;
-                case 'addi': ex_result = val1 + (id_instr_for_ex.imm ?? 0); break;
-                case 'lw':
-                case 'sw':
-                    ex_address = val1 + (id_instr_for_ex.imm ?? 0);
-                    if (id_instr_for_ex.op === 'sw') {
-                        ex_result = val2; // Value to be stored
-                    }
-                    break;
-                case 'beq':
-                    if (val1 === val2) {
-                        const label = id_instr_for_ex.raw.split(/\s+/).pop() || '';
-                        newPc = labels[label] ?? pc;
-                        branchTaken = true;
-                    }
-                    break;
-                case 'jal':
-                    ex_result = (id_instr_for_ex.pc + 1); // Return address is PC of next instruction
-                    const label = id_instr_for_ex.raw.split(/\s+/).pop() || '';
-                    newPc = labels[label] ?? pc;
-                    branchTaken = true;
-                    break;
-            }
-        }
-        
-        if(branchTaken) {
-            flushIf = true;
-            flushId = true;
-        }
+    // Advances the simulation by up to `maxCycles`, stopping early at the end of the program or on a
+    // breakpoint, then commits the result in one state update.
+    const runCycles = useCallback((maxCycles: number): BreakEvent | null => {
+        const { machine, shouldStop, commit } = recordRun();
+        return commit(run(machine, maxCycles, shouldStop).reason);
+    }, [recordRun]);
 
-        newPipeline.ex = stallId ? { instr: null, pc: null, isStall: true } : { instr: id_instr_for_ex, pc: pipeline.id.pc, result: ex_result, address: ex_address };
+    // Run to End in chunks, so the page stays responsive. Stop keeps the cycles run so far; a reset
+    // discards them.
+    const runToEnd = useCallback(async () => {
+        setIsRunning(false);
+        const controller = new AbortController();
+        longRun.current = controller;
+        setRunProgress(0);
+        const { machine, shouldStop, commit } = recordRun();
+        const { reason } = await runChunked(machine, MAX_RUN_CYCLES, shouldStop, { signal: controller.signal, onProgress: setRunProgress });
+        if (longRun.current !== controller) return;
+        longRun.current = null;
+        setRunProgress(null);
+        commit(reason);
+    }, [recordRun]);
 
-        // --- ID Stage ---
-        if (stallId) {
-            newPipeline.id = { ...pipeline.id, isStall: true };
-        } else if (flushId) {
-            newPipeline.id = { instr: pipeline.if.instr, pc: pipeline.if.pc, isFlush: true };
-        } else {
-            newPipeline.id = { instr: pipeline.if.instr, pc: pipeline.if.pc };
-        }
-        
-        // --- IF Stage ---
-        if (flushIf) {
-            newPipeline.if = { instr: null, pc: null, isFlush: true };
-        } else if (stallId) {
-            newPipeline.if = pipeline.if;
-        } else if (newPc < instructions.length) {
-            const nextInstr = instructions[newPc];
-            if (nextInstr) {
-                 const coloredInstr = { ...nextInstr, color: COLORS[nextInstr.pc % COLORS.length] };
-                 newPipeline.if = { instr: coloredInstr, pc: newPc };
-            }
-        }
-        
-        setPipeline(newPipeline);
-        setRegisterFile(newRegisterFile);
-        setDataMemory(newMemory);
-        setLastWrittenReg(regWrittenThisCycle);
-        setMemoryAccessStatus(newMemoryAccessStatus);
-
-        if (branchTaken) {
-            setPc(newPc);
-        } else if (!stallId) {
-            setPc(pc + 1);
-        }
-        setCycle(c => c + 1);
+    const seekHistory = useCallback((index: number) => {
+        setIsRunning(false);
+        setBreakEvent(null);
+        setHistoryIndex(Math.max(0, Math.min(history.length - 1, index)));
+    }, [history]);
+
+    const clockTick = useCallback(() => {
+        if (isFinished) return;
+        runCycles(1);
+    }, [isFinished, runCycles]);
+
+    useEffect(() => () => {
+        longRun.current?.abort();
+        longRun.current = null;
+    }, []);
+
+    // Continuous run: one cycle per timer tick; the effect re-arms after every cycle.
+    useEffect(() => {
+        if (!isRunning) return;
+        const timer = setTimeout(() => runCycles(1), 1000 / runSpeed);
+        return () => clearTimeout(timer);
+    }, [isRunning, runSpeed, runCycles]);
 
-    }, [pipeline, pc, instructions, isFinished, registerFile, dataMemory, labels]);
-    
     const getHighlightClass = (pc: number): string => {
         const type = highlightedPcs[pc];
         switch (type) {
@@ -475,93 +1301,286 @@ export const PipelineVisualizer: React.FC<PipelineVisualizerProps> = ({ initialC
             case 'hazard-victim-flush': return 'bg-red-900/40';
             case 'forward-source': return 'bg-cyan-900/70 border-l-2 border-cyan-500';
             case 'forward-dest': return 'bg-cyan-900/40';
+            case 'breakpoint': return 'bg-fuchsia-900/70 border-l-2 border-fuchsia-500';
             default: return '';
         }
     };
 
+    const toggleBreakpoint = (pc: number) =>
+        setDebugTargets((t: DebugTargets) => ({ ...t, breakpoints: toggleBreakpointAt(t.breakpoints, selectedCore, pc) }));
+
+    const formatPc = (c: CoreState, program?: Program) =>
+        program && c.pc < program.instructions.length ? `0x${(c.pc * 4).toString(16).padStart(4, '0')}` : 'done';
+    const corePrefix = dualCore ? `Core ${selectedCore}: ` : '';
+
+    const renderErrors = (errors: AssemblyError[], id: string) => errors.length > 0 && (
+        <div id={id} className="mt-2 max-h-24 overflow-y-auto text-sm text-red-400" role="alert">
+            {errors.map((err, i) => (
+                <p key={i}>Line {err.line}: {err.message} <span className="text-red-400/70">(skipped)</span></p>
+            ))}
+        </div>
+    );
+
     const visualizerUi = (
         <div className="grid lg:grid-cols-12 gap-8">
             <div className="lg:col-span-3">
-                <h3 className="text-lg font-semibold text-cyan-400 mb-2">Code Execution</h3>
+                <h3 className="text-lg font-semibold text-cyan-400 mb-2">{dualCore && !isEmbedded ? 'Core 0 Program' : 'Code Execution'}</h3>
                  {isEmbedded ? (
                     <div className="w-full h-96 font-mono text-sm bg-slate-900 text-slate-100 rounded-md border border-slate-600 overflow-y-auto">
                         {instructions.map((instr) => (
-                            <div key={instr.pc} className={`px-3 py-0.5 transition-colors duration-300 relative ${getHighlightClass(instr.pc)}`}>
+                            <div
+                                key={instr.pc}
+                                onClick={() => toggleBreakpoint(instr.pc)}
+                                title="Click to toggle a breakpoint"
+                                className={`px-3 py-0.5 transition-colors duration-300 relative cursor-pointer ${getHighlightClass(instr.pc)}`}
+                            >
                                 {highlightedPcs[instr.pc] === 'pc' && <span className="absolute left-1 top-0.5 text-cyan-400">&gt;</span>}
-                                <span className="ml-2">{instr.raw || ' '}</span>
+                                {debugTargets.breakpoints[selectedCore]?.includes(instr.pc) && <span className="absolute right-2 top-0.5 text-red-500">&#9679;</span>}
+                                <span className="ml-2">{instr.source || ' '}</span>
+                                {instr.source !== instr.raw && <span className="ml-2 text-xs text-slate-500">&rarr; {instr.raw}</span>}
                             </div>
                         ))}
                     </div>
                 ) : (
+                    <>
+                    <div className="mb-2 text-sm">
+                        <input
+                            type="file"
+                            accept=".elf,.out"
+                            onChange={e => { if (e.target.files?.[0]) loadElf(e.target.files[0]); e.target.value = ''; }}
+                            className="w-full text-sm text-slate-400 file:mr-4 file:py-1 file:px-3 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-slate-700 file:text-slate-200 hover:file:bg-slate-600"
+                            aria-label="Load ELF executable"
+                        />
+                        {elf && (
+                            <div className="mt-2 flex items-center justify-between gap-2 bg-slate-900/50 rounded-md px-2 py-1 text-xs text-slate-300">
+                                <span className="font-mono">
+                                    {elf.name}: entry 0x{elf.image.entry.toString(16).padStart(8, '0')}, {elf.image.sections.filter(s => s.kind !== 'text').reduce((sum, s) => sum + s.size, 0)} data bytes, {elf.image.symbols.length} symbols
+                                </span>
+                                <button onClick={() => setElf(null)} className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 rounded-md">Unload</button>
+                            </div>
+                        )}
+                        {elfError && <p className="mt-2 text-xs text-red-400" role="alert">{elfError}</p>}
+                    </div>
                     <textarea
                         value={assemblyCode}
                         onChange={(e) => setAssemblyCode(e.target.value)}
-                        className="w-full h-96 font-mono text-sm bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        className={`w-full ${dualCore ? 'h-56' : 'h-96'} font-mono text-sm bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500`}
                         spellCheck="false"
                         aria-label="Assembly code editor"
+                        aria-invalid={parseErrors[0]?.length > 0}
+                        aria-describedby={parseErrors[0]?.length > 0 ? "assembly-errors" : undefined}
                     />
+                    </>
                 )}
-                 <div className="flex items-center space-x-4 mt-4">
-                    <button onClick={clockTick} disabled={isFinished} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                {renderErrors(parseErrors[0] ?? [], 'assembly-errors')}
+                {dualCore && !isEmbedded && (
+                    <>
+                        <h3 className="text-lg font-semibold text-cyan-400 mb-2 mt-4">Core 1 Program</h3>
+                        <textarea
+                            value={secondaryCode}
+                            onChange={(e) => setSecondaryCode(e.target.value)}
+                            className="w-full h-56 font-mono text-sm bg-slate-900 text-slate-100 rounded-md border border-slate-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                            spellCheck="false"
+                            aria-label="Core 1 assembly code editor"
+                            aria-invalid={parseErrors[1]?.length > 0}
+                            aria-describedby={parseErrors[1]?.length > 0 ? "core1-assembly-errors" : undefined}
+                        />
+                        {renderErrors(parseErrors[1] ?? [], 'core1-assembly-errors')}
+                    </>
+                )}
+                 <div className="flex flex-wrap items-center gap-2 mt-4">
+                    <button onClick={clockTick} disabled={isFinished || isRunning || runProgress !== null || blockedByCheck} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
                         Step Forward
                     </button>
-                    <button onClick={() => {
-                        // Reset with current code in textarea if not embedded
-                        const codeToReset = isEmbedded ? initialCode : assemblyCode;
-                        const { instructions: parsed, labels: parsedLabels } = parseAssembly(codeToReset);
-                        setInstructions(parsed);
-                        setLabels(parsedLabels);
-                        resetSimulationState();
-                    }} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600">
+                    <button onClick={() => seekHistory(historyIndex - 1)} disabled={historyIndex === 0 || runProgress !== null} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 disabled:text-slate-500">
+                        Step Back
+                    </button>
+                    <button onClick={() => { setBreakEvent(null); setIsRunning(!isRunning); }} disabled={isFinished || runProgress !== null || blockedByCheck} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                        {isRunning ? 'Pause' : 'Run'}
+                    </button>
+                    {runProgress === null ? (
+                        <button onClick={runToEnd} disabled={isFinished || blockedByCheck} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700 disabled:bg-slate-600">
+                            Run to End
+                        </button>
+                    ) : (
+                        <button onClick={() => longRun.current?.abort()} className="bg-cyan-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-cyan-700">
+                            Stop ({runProgress} cycles)
+                        </button>
+                    )}
+                    <button onClick={loadPrograms} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600">
                         Reset
                     </button>
                 </div>
+                <label className="flex items-center space-x-2 mt-3 text-sm text-slate-300">
+                    <span>Speed</span>
+                    <input type="range" min="1" max="60" value={runSpeed} onChange={e => setRunSpeed(Number(e.target.value))} className="flex-grow accent-cyan-500" aria-label="Run speed" />
+                    <span className="w-24 text-right text-slate-400">{runSpeed} cycles/s</span>
+                </label>
+                {checkingInWorker && <p className="mt-3 text-xs text-slate-400" role="status">Checking the user-defined instructions in a worker...</p>}
+                {workerCheckError && <p className="mt-3 text-xs text-red-400" role="alert">{workerCheckError}</p>}
+                {shared.devices.completion && (
+                    <p className="mt-3 p-2 text-sm rounded-md bg-emerald-900/40 border border-emerald-700 text-emerald-200" role="status">
+                        {dualCore ? `Core ${shared.devices.completion.hart}` : 'The program'} wrote exit code {shared.devices.completion.code} to the completion register; the run has ended.
+                    </p>
+                )}
+                {breakEvent && (
+                    <p className="mt-3 p-2 text-sm rounded-md bg-fuchsia-900/40 border border-fuchsia-700 text-fuchsia-200" role="status">
+                        Paused{dualCore ? ` on core ${breakEvent.core}` : ''}: {breakEvent.reason}
+                    </p>
+                )}
+                <label className="flex items-center space-x-2 mt-4 text-sm text-slate-300">
+                    <input type="checkbox" checked={dualCore} onChange={e => setDualCore(e.target.checked)} className="accent-cyan-500" />
+                    <span>Dual-core (shared L2, memory and NN accelerator)</span>
+                </label>
             </div>
             <div className="lg:col-span-6">
                 <div className="flex justify-between items-center mb-4">
                     <h3 className="text-lg font-semibold text-cyan-400">Pipeline Stages</h3>
                     <div className="text-right">
                        <p className="text-slate-100 font-bold text-xl">Cycle: {cycle}</p>
-                       <p className="text-slate-400 text-sm">PC: {pc < instructions.length ? pc : 'done'}</p>
+                       {!dualCore && <p className="text-slate-400 text-sm">PC: {formatPc(core, programs[0])}</p>}
                     </div>
                 </div>
-                <div className="space-y-3">
-                    {Object.entries(pipeline).map(([stageKey, stageData]: [string, PipelineStage]) => {
-                        const isForwardingSource = forwardingPath?.from === stageKey;
-                        const isForwardingDest = forwardingPath?.to === stageKey;
-                        const isForwarding = isForwardingSource || isForwardingDest;
-
-                        return (
-                            <div key={stageKey} className={`p-4 rounded-lg border-2 transition-all duration-300 ${
-                                stageData.isFlush ? 'animate-flash-red' : 
-                                stageData.isStall ? 'animate-flash-yellow' : 
-                                isForwarding ? 'animate-flash-cyan' : 
-                                'border-slate-700 bg-slate-800/50'
-                            }`}>
-                                <h4 className="font-bold text-slate-300">{STAGE_NAMES[stageKey as PipelineStageName]}</h4>
-                                <div 
-                                  className="font-mono text-lg p-3 mt-2 bg-slate-900/50 rounded h-16 flex items-center justify-center transition-all duration-300"
-                                  style={{ borderLeft: stageData.instr?.color ? `4px solid ${stageData.instr.color}` : '4px solid transparent'}}
-                                >
-                                    {stageData.isStall && !stageData.instr ? <span className="text-yellow-400 font-bold">-- BUBBLE --</span> :
-                                     stageData.isFlush ? <span className="text-red-400 font-bold">-- FLUSH --</span> :
-                                     stageData.instr ? <span style={{ color: stageData.instr.color || '#afeeee' }} className="font-semibold">{stageData.instr.raw}</span> :
-                                     <span className="text-slate-600">-- empty --</span>
-                                    }
+                {dualCore ? (
+                    <div className="grid grid-cols-2 gap-3">
+                        {cores.map((c: CoreState, i: number) => {
+                            const hazards = analyzeHazards(c, config.pipeline);
+                            return (
+                                <div key={i}>
+                                    <button
+                                        onClick={() => setSelectedCore(i)}
+                                        className={`w-full flex justify-between items-center mb-2 px-2 py-1 rounded-md text-sm font-semibold ${selectedCore === i ? 'bg-cyan-500/10 text-cyan-300' : 'text-slate-400 hover:bg-slate-700'}`}
+                                    >
+                                        <span>Core {i}</span>
+                                        <span className="font-mono font-normal">PC: {formatPc(c, programs[i])}</span>
+                                    </button>
+                                    <PipelineStagesView
+                                        pipeline={c.pipeline} forwardingPath={hazards.forwardingPath} hazardMessage={hazards.hazardMessage} compact
+                                        breakStage={breakEvent?.core === i ? breakEvent.stage : null} showXu={config.pipeline.splitEx}
+                                    />
                                 </div>
+                            );
+                        })}
+                    </div>
+                ) : (
+                    <PipelineStagesView pipeline={pipeline} forwardingPath={forwardingPath} hazardMessage={hazardMessage} breakStage={breakEvent?.stage} showXu={config.pipeline.splitEx} />
+                )}
+            </div>
+             <div className="lg:col-span-3">
+                {dualCore && (
+                    <div className="flex space-x-2 mb-2">
+                        {cores.map((_: CoreState, i: number) => (
+                            <button key={i} onClick={() => setSelectedCore(i)} className={`px-3 py-1 rounded-md text-sm font-semibold ${selectedCore === i ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                Core {i}
+                            </button>
+                        ))}
+                    </div>
+                )}
+                <RegisterFileDisplay registers={registerFile} fpRegisters={fpRegisterFile} status={registerStatus} />
+                <DataMemoryDisplay memory={shared.memory} access={core.memoryAccess} />
+            </div>
+            {dualCore && (
+                <div className="lg:col-span-12 bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                    <h3 className="text-lg font-semibold text-cyan-400 mb-3">Shared NN Accelerator</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                        {cores.map((c: CoreState, i: number) => (
+                            <div key={i} className="bg-slate-900/50 p-2 rounded-md">
+                                <p className="text-xs text-slate-400">Core {i} contention stalls</p>
+                                <p className="text-xl font-bold text-slate-100">{c.contentionStalls}</p>
                             </div>
-                        );
-                    })}
-                </div>
-                <div className="mt-4 h-12 p-3 bg-slate-800 rounded-lg border border-slate-700 flex items-center justify-center">
-                    <p className={`font-semibold text-sm text-center ${forwardingPath ? 'text-cyan-300' : hazardMessage.includes('HAZARD') ? 'text-yellow-400' : 'text-slate-500'}`}>
-                        {hazardMessage}
-                    </p>
+                        ))}
+                        <div className="bg-slate-900/50 p-2 rounded-md">
+                            <p className="text-xs text-slate-400">Accelerator</p>
+                            <p className="text-xl font-bold text-slate-100">
+                                {(() => {
+                                    const owner = cores.findIndex((c: CoreState) => isNnOp(c.pipeline.ex.instr) || isNnOp(c.pipeline.xu.instr));
+                                    return owner === -1 ? 'idle' : `Core ${owner}`;
+                                })()}
+                            </p>
+                        </div>
+                        <div className="bg-slate-900/50 p-2 rounded-md">
+                            <p className="text-xs text-slate-400">Total contention stalls</p>
+                            <p className="text-xl font-bold text-slate-100">{cores.reduce((sum: number, c: CoreState) => sum + c.contentionStalls, 0)}</p>
+                        </div>
+                    </div>
                 </div>
+            )}
+            <div className="lg:col-span-12">
+                <MicroarchitecturePanel
+                    config={config}
+                    onPipelineChange={pipelineConfig => setConfig((c: SimulatorConfig) => ({ ...c, pipeline: pipelineConfig }))}
+                    programs={programs}
+                    coreCount={cores.length}
+                    boot={boot}
+                />
             </div>
-             <div className="lg:col-span-3">
-                <RegisterFileDisplay registers={registerFile} status={registerStatus} />
-                <DataMemoryDisplay memory={dataMemory} access={memoryAccessStatus} />
+            <div className="lg:col-span-12">
+                <PerformancePanel cores={cores} />
+            </div>
+            <div className="lg:col-span-12">
+                <CsrPanel cores={cores} />
+            </div>
+            <div className="lg:col-span-12">
+                <MmioPanel devices={shared.devices} />
+            </div>
+            <div className="lg:col-span-12">
+                <TimingDiagramPanel title={`${corePrefix}Pipeline Timing Diagram`} rows={timingTracer.current?.rows[selectedCore] ?? EMPTY_TIMING_ROWS} history={history} index={historyIndex} onSeek={seekHistory} />
+            </div>
+            <div className="lg:col-span-12">
+                <HistoryPanel
+                    history={history}
+                    index={historyIndex}
+                    onSeek={seekHistory}
+                    onExportVcd={() => downloadFile(writeVcdRecording((vcdTracer.current ?? createVcdTracer(programs, config.pipeline, history[0])).recording), 'pipeline-trace.vcd', 'text/plain')}
+                />
+            </div>
+            <div className="lg:col-span-12">
+                <DebugPanel
+                    title={`${corePrefix}Breakpoints & Watchpoints`}
+                    core={selectedCore}
+                    instructions={instructions}
+                    targets={debugTargets}
+                    onChange={setDebugTargets}
+                    breakEvent={breakEvent}
+                    showListing={!isEmbedded}
+                />
+            </div>
+            <div className="lg:col-span-12">
+                <BranchPredictorPanel
+                    title={`${corePrefix}Branch Prediction`}
+                    config={config.predictor}
+                    state={core.predictorState}
+                    onConfigChange={predictor => setConfig((c: SimulatorConfig) => ({ ...c, predictor }))}
+                    activePhtIndex={pipeline.ex.prediction?.phtIndex}
+                    penaltyCycles={mispredictPenalty(config.pipeline)}
+                />
+            </div>
+            <div className="lg:col-span-6">
+                <CachePanel
+                    title={`${corePrefix}L1 Instruction Cache`}
+                    config={config.icache}
+                    state={core.icacheState}
+                    onConfigChange={icache => setConfig((c: SimulatorConfig) => ({ ...c, icache }))}
+                    lastAccess={core.cacheAccess.i}
+                />
+            </div>
+            <div className="lg:col-span-6">
+                <CachePanel
+                    title={`${corePrefix}L1 Data Cache`}
+                    config={config.dcache}
+                    state={core.dcacheState}
+                    onConfigChange={dcache => setConfig((c: SimulatorConfig) => ({ ...c, dcache }))}
+                    lastAccess={core.cacheAccess.d}
+                    showWritePolicy
+                />
+            </div>
+            <div className="lg:col-span-12">
+                <CachePanel
+                    title="Shared L2 Cache (refills L1 misses)"
+                    config={config.l2}
+                    state={shared.l2State}
+                    onConfigChange={l2 => setConfig((c: SimulatorConfig) => ({ ...c, l2 }))}
+                />
             </div>
         </div>
     );
@@ -573,9 +1592,9 @@ export const PipelineVisualizer: React.FC<PipelineVisualizerProps> = ({ initialC
     return (
         <Section title="Interactive Pipeline Visualizer" icon={<PlayIcon />}>
             <p className="text-slate-400 mb-8 max-w-4xl">
-                This tool simulates a 5-stage RISC-V pipeline with data forwarding and a visible register file. You can write your own custom assembly code in the text area below or use one of the examples from the "Interactive Demos" page. Any changes to the code will automatically reset the simulation.
+                This tool simulates a 5-stage RISC-V pipeline with data forwarding and visible integer and floating-point (RV32F) register files. It executes the full RV32IMF instruction set with Zicsr plus the custom NN extension over byte-addressed data memory, accepts ABI register names (a0, sp, fa0, ...) and expands the standard pseudo-instructions (li, la, mv, j, call, ret, beqz, ...); unrecognised lines are reported below the editor. Branches are predicted at fetch by a selectable predictor and resolved in EX, with the measured accuracy and mispredict penalty shown below the pipeline. Forwarding, the branch resolution stage and a split EX with a separate custom unit can be toggled, and all combinations compared side by side. Optional set-associative L1 instruction and data caches, backed by a shared L2, stall IF and MEM on misses. ecall, ebreak, illegal CSR accesses and misaligned accesses raise precise machine-mode traps that vector to mtvec, and the CSR panel shows mtvec, mepc, mcause and the mcycle/minstret counters firmware reads with csrr. Loads and stores to the MMIO window at 0x80000000 reach simulated devices: a UART console, GPIO LEDs, the matrix-vector accelerator's control registers and the completion register at 0x80000004, which ends the run. A linked RV32 ELF executable can be loaded instead of typing code: its code is disassembled into the editor with labels from the symbol table, .data and .bss are placed in data memory at their linked addresses and the PC starts at the entry point. In dual-core mode two harts (a0 holds the hart id) run side by side over shared memory and contend for the NN accelerator. Run the program continuously or to the end, pausing on line breakpoints, register conditions or memory watchpoints, then step back or scrub through the recorded cycles and diff the machine state between any two of them. The timing diagram charts every instruction against the cycles it spent in each stage and can be exported as SVG or PNG. You can write your own custom assembly code in the text area below or use one of the examples from the "Interactive Demos" page. Any changes to the code will automatically reset the simulation.
             </p>
             {visualizerUi}
         </Section>
     );
-};
\ No newline at end of file
+};
@@ -7,6 +7,7 @@ import { CodeIcon } from './icons/CodeIcon';
 import { CpuIcon } from './icons/CpuIcon';
 import { PlayIcon } from './icons/PlayIcon';
 import { MicrochipIcon } from './icons/MicrochipIcon';
+import { TerminalIcon } from './icons/TerminalIcon';
 
 interface SidebarProps {
   currentView: DashboardView;
@@ -19,6 +20,7 @@ const navItems = [
     { id: 'memory_map', label: 'Memory Map', icon: <MicrochipIcon /> },
     { id: 'compiler_optimizations', label: 'Compiler Optimizations', icon: <CpuIcon /> },
     { id: 'pipeline_visualization', label: 'Pipeline Visualizer', icon: <PlayIcon /> },
+    { id: 'isa_designer', label: 'ISA Designer', icon: <TerminalIcon /> },
     { id: 'demo', label: 'Interactive Demos', icon: <CodeIcon /> },
     { id: 'conclusion', label: 'Conclusion', icon: <ZapIcon /> },
 ];
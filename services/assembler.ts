@@ -0,0 +1,350 @@
+// Assembler front end shared by the simulator and tooling: resolves ABI register names,
+// expands standard pseudo-instructions and parses base instructions into operand fields.
+import { CSR_ADDRESSES, ISA, ISA_INSTRUCTIONS } from './isa';
+
+export interface Instruction {
+    raw: string; // Base instruction text after pseudo-instruction expansion
+    source: string; // Original source statement (identical to raw unless it was a pseudo-instruction)
+    line: number; // 1-based source line
+    op: string;
+    rd?: number;
+    rs1?: number;
+    rs2?: number;
+    rs3?: number;
+    imm?: number; // Also the 5-bit zero-extended source of the csr*i instructions
+    csr?: number; // 12-bit CSR address of the Zicsr instructions
+    rm?: string; // Static rounding mode operand of fcvt (e.g. 'rtz')
+    target?: string; // Branch/jump target: a label or a byte offset relative to this instruction
+    pc: number; // Instruction index; the architectural PC is pc * 4
+}
+
+export interface AssemblyError {
+    line: number;
+    message: string;
+}
+
+export interface AssemblyResult {
+    instructions: Instruction[];
+    labels: Record<string, number>; // Label -> instruction index
+    errors: AssemblyError[];
+}
+
+// Register operands share one index space: 0-31 are x0-x31 and 32-63 are f0-f31.
+// This keeps hazard detection and forwarding bank-agnostic.
+export const FP_REG_BASE = 32;
+export const isFpReg = (reg: number) => reg >= FP_REG_BASE;
+export const regName = (reg: number) => isFpReg(reg) ? `f${reg - FP_REG_BASE}` : `x${reg}`;
+
+export const INT_ABI_NAMES = [
+    'zero', 'ra', 'sp', 'gp', 'tp', 't0', 't1', 't2', 's0', 's1', 'a0', 'a1', 'a2', 'a3', 'a4', 'a5',
+    'a6', 'a7', 's2', 's3', 's4', 's5', 's6', 's7', 's8', 's9', 's10', 's11', 't3', 't4', 't5', 't6',
+];
+export const FP_ABI_NAMES = [
+    'ft0', 'ft1', 'ft2', 'ft3', 'ft4', 'ft5', 'ft6', 'ft7', 'fs0', 'fs1', 'fa0', 'fa1', 'fa2', 'fa3', 'fa4', 'fa5',
+    'fa6', 'fa7', 'fs2', 'fs3', 'fs4', 'fs5', 'fs6', 'fs7', 'fs8', 'fs9', 'fs10', 'fs11', 'ft8', 'ft9', 'ft10', 'ft11',
+];
+export const abiName = (reg: number) => isFpReg(reg) ? FP_ABI_NAMES[reg - FP_REG_BASE] : INT_ABI_NAMES[reg];
+
+const ABI_REGISTERS: Record<string, number> = { fp: 8 };
+INT_ABI_NAMES.forEach((name, i) => { ABI_REGISTERS[name] = i; });
+FP_ABI_NAMES.forEach((name, i) => { ABI_REGISTERS[name] = FP_REG_BASE + i; });
+
+export const parseReg = (regStr?: string): number | undefined => {
+    if (!regStr) return undefined;
+    const name = regStr.trim().toLowerCase();
+    if (ABI_REGISTERS[name] !== undefined) return ABI_REGISTERS[name];
+    const match = name.match(/^([xf])(\d+)$/);
+    if (!match) return undefined;
+    const index = parseInt(match[2], 10);
+    if (index > 31) return undefined;
+    return match[1] === 'f' ? FP_REG_BASE + index : index;
+};
+
+export const parseImm = (immStr?: string): number | undefined => {
+    const match = immStr?.trim().match(/^([+-]?)(0x[0-9a-f]+|0b[01]+|\d+)$/i);
+    if (!match) return undefined;
+    const magnitude = Number(match[2]);
+    return match[1] === '-' ? -magnitude : magnitude;
+};
+
+// A CSR by name (mcycle, mtvec, ...) or by its 12-bit address.
+export const parseCsr = (csrStr?: string): number | undefined => {
+    const name = csrStr?.trim().toLowerCase();
+    if (!name) return undefined;
+    if (CSR_ADDRESSES[name] !== undefined) return CSR_ADDRESSES[name];
+    const address = parseImm(name);
+    return address !== undefined && address >= 0 && address <= 0xFFF ? address : undefined;
+};
+
+// "imm(reg)" memory operand; the offset may be omitted ("(x1)").
+const parseMemOperand = (operand?: string): { imm?: number; rs1?: number } => {
+    const match = operand?.match(/^(.*)\((\w+)\)$/);
+    if (!match) return {};
+    return { imm: match[1].trim() === '' ? 0 : parseImm(match[1]), rs1: parseReg(match[2]) };
+};
+
+export const BRANCH_OPS = ISA_INSTRUCTIONS.filter(instr => instr.format === 'BRANCH').map(instr => instr.mnemonic);
+export const CONTROL_OPS = [...BRANCH_OPS, 'jal', 'jalr'];
+
+// Splits a 32-bit constant into the lui/addi pair that materialises it.
+const splitHiLo = (value: number): { hi: number; lo: number } => {
+    const lo = (value << 20) >> 20;
+    const hi = ((value - lo) >>> 12) & 0xFFFFF;
+    return { hi, lo };
+};
+
+// Expands a pseudo-instruction into base instruction text, or returns null when `op` is not a
+// pseudo-instruction (or is a base mnemonic used with its full operand list).
+const expandPseudo = (op: string, ops: string[], labelAddress: (label: string) => number): string[] | null => {
+    switch (op) {
+        case 'nop': return ['addi x0, x0, 0'];
+        case 'li': {
+            const value = parseImm(ops[1]);
+            if (value === undefined) return null;
+            if (value >= -2048 && value < 2048) return [`addi ${ops[0]}, x0, ${value}`];
+            const { hi, lo } = splitHiLo(value | 0);
+            return lo === 0 ? [`lui ${ops[0]}, ${hi}`] : [`lui ${ops[0]}, ${hi}`, `addi ${ops[0]}, ${ops[0]}, ${lo}`];
+        }
+        case 'la': {
+            // Always two instructions so that label addresses are stable between passes.
+            const { hi, lo } = splitHiLo(labelAddress(ops[1]));
+            return [`lui ${ops[0]}, ${hi}`, `addi ${ops[0]}, ${ops[0]}, ${lo}`];
+        }
+        case 'mv': return [`addi ${ops[0]}, ${ops[1]}, 0`];
+        case 'not': return [`xori ${ops[0]}, ${ops[1]}, -1`];
+        case 'neg': return [`sub ${ops[0]}, x0, ${ops[1]}`];
+        case 'seqz': return [`sltiu ${ops[0]}, ${ops[1]}, 1`];
+        case 'snez': return [`sltu ${ops[0]}, x0, ${ops[1]}`];
+        case 'sltz': return [`slt ${ops[0]}, ${ops[1]}, x0`];
+        case 'sgtz': return [`slt ${ops[0]}, x0, ${ops[1]}`];
+        case 'beqz': return [`beq ${ops[0]}, x0, ${ops[1]}`];
+        case 'bnez': return [`bne ${ops[0]}, x0, ${ops[1]}`];
+        case 'blez': return [`bge x0, ${ops[0]}, ${ops[1]}`];
+        case 'bgez': return [`bge ${ops[0]}, x0, ${ops[1]}`];
+        case 'bltz': return [`blt ${ops[0]}, x0, ${ops[1]}`];
+        case 'bgtz': return [`blt x0, ${ops[0]}, ${ops[1]}`];
+        case 'bgt': return [`blt ${ops[1]}, ${ops[0]}, ${ops[2]}`];
+        case 'ble': return [`bge ${ops[1]}, ${ops[0]}, ${ops[2]}`];
+        case 'bgtu': return [`bltu ${ops[1]}, ${ops[0]}, ${ops[2]}`];
+        case 'bleu': return [`bgeu ${ops[1]}, ${ops[0]}, ${ops[2]}`];
+        case 'j': return [`jal x0, ${ops[0]}`];
+        case 'jal': return ops.length === 1 ? [`jal ra, ${ops[0]}`] : null;
+        case 'jr': return [`jalr x0, 0(${ops[0]})`];
+        case 'jalr': return ops.length === 1 ? [`jalr ra, 0(${ops[0]})`] : null;
+        case 'ret': return ['jalr x0, 0(ra)'];
+        case 'call': return [`jal ra, ${ops[0]}`];
+        case 'tail': return [`jal x0, ${ops[0]}`];
+        case 'fmv.s': return [`fsgnj.s ${ops[0]}, ${ops[1]}, ${ops[1]}`];
+        case 'fabs.s': return [`fsgnjx.s ${ops[0]}, ${ops[1]}, ${ops[1]}`];
+        case 'fneg.s': return [`fsgnjn.s ${ops[0]}, ${ops[1]}, ${ops[1]}`];
+        case 'csrr': return [`csrrs ${ops[0]}, ${ops[1]}, x0`];
+        case 'csrw': return [`csrrw x0, ${ops[0]}, ${ops[1]}`];
+        case 'csrs': return [`csrrs x0, ${ops[0]}, ${ops[1]}`];
+        case 'csrc': return [`csrrc x0, ${ops[0]}, ${ops[1]}`];
+        case 'csrwi': return [`csrrwi x0, ${ops[0]}, ${ops[1]}`];
+        case 'csrsi': return [`csrrsi x0, ${ops[0]}, ${ops[1]}`];
+        case 'csrci': return [`csrrci x0, ${ops[0]}, ${ops[1]}`];
+        case 'rdcycle': return [`csrrs ${ops[0]}, cycle, x0`];
+        case 'rdinstret': return [`csrrs ${ops[0]}, instret, x0`];
+        // The canonical unimplemented instruction: a write to the read-only cycle CSR, which always traps.
+        case 'unimp': return ['csrrw x0, cycle, x0'];
+        default: return null;
+    }
+};
+
+// Resolves %hi(sym)/%lo(sym) relocations against text label addresses.
+const resolveRelocations = (operand: string, labelAddress: (label: string) => number): string =>
+    operand.replace(/%(hi|lo)\(([\w.$]+)\)/g, (_, kind: string, label: string) => {
+        const { hi, lo } = splitHiLo(labelAddress(label));
+        return String(kind === 'hi' ? hi : lo);
+    });
+
+const splitStatement = (text: string): { mnemonic: string; op: string; operands: string[] } => {
+    const [mnemonic, ...rest] = text.split(/\s+/);
+    const operands = rest.join(' ').split(',').map(part => part.trim()).filter(part => part.length > 0);
+    return { mnemonic, op: mnemonic.toLowerCase(), operands };
+};
+
+// Parses one base instruction; returns an error message when it cannot be decoded.
+const parseBaseInstruction = (text: string): Omit<Instruction, 'pc' | 'source' | 'line'> | string => {
+    const { mnemonic, op, operands: parts } = splitStatement(text);
+    const format = ISA[op]?.format; // Operand layout from the registry, including user-defined instructions
+    if (!format) return `Unknown instruction '${mnemonic}'.`;
+
+    const instr: Omit<Instruction, 'pc' | 'source' | 'line'> = { raw: text, op };
+    let required: (keyof Instruction)[] = [];
+
+    switch (format) {
+        case 'R':
+            instr.rd = parseReg(parts[0]);
+            instr.rs1 = parseReg(parts[1]);
+            instr.rs2 = parseReg(parts[2]);
+            required = ['rd', 'rs1', 'rs2'];
+            break;
+        case 'R4':
+            instr.rd = parseReg(parts[0]);
+            instr.rs1 = parseReg(parts[1]);
+            instr.rs2 = parseReg(parts[2]);
+            instr.rs3 = parseReg(parts[3]);
+            required = ['rd', 'rs1', 'rs2', 'rs3'];
+            break;
+        case 'MAC':
+            instr.rd = parseReg(parts[0]);
+            instr.rs1 = parseReg(parts[1]);
+            instr.rs2 = parseReg(parts[2]);
+            instr.rs3 = instr.rd; // mac accumulates into rd, so rd is also a source
+            required = ['rd', 'rs1', 'rs2'];
+            break;
+        case 'UNARY':
+            instr.rd = parseReg(parts[0]);
+            instr.rs1 = parseReg(parts[1]);
+            instr.rm = parts[2]?.toLowerCase();
+            required = ['rd', 'rs1'];
+            break;
+        case 'I':
+            instr.rd = parseReg(parts[0]);
+            instr.rs1 = parseReg(parts[1]);
+            instr.imm = parseImm(parts[2]);
+            required = ['rd', 'rs1', 'imm'];
+            break;
+        case 'LOAD':
+            instr.rd = parseReg(parts[0]);
+            Object.assign(instr, parseMemOperand(parts[1]));
+            required = ['rd', 'rs1', 'imm'];
+            break;
+        case 'STORE':
+            instr.rs2 = parseReg(parts[0]);
+            Object.assign(instr, parseMemOperand(parts[1]));
+            required = ['rs2', 'rs1', 'imm'];
+            break;
+        case 'BRANCH':
+            instr.rs1 = parseReg(parts[0]);
+            instr.rs2 = parseReg(parts[1]);
+            instr.target = parts[2];
+            required = ['rs1', 'rs2', 'target'];
+            break;
+        case 'U':
+            instr.rd = parseReg(parts[0]);
+            instr.imm = parseImm(parts[1]);
+            required = ['rd', 'imm'];
+            break;
+        case 'JAL':
+            instr.rd = parseReg(parts[0]);
+            instr.target = parts[1];
+            required = ['rd', 'target'];
+            break;
+        case 'JALR':
+            instr.rd = parseReg(parts[0]);
+            if (parts[1]?.includes('(')) {
+                Object.assign(instr, parseMemOperand(parts[1]));
+            } else {
+                instr.rs1 = parseReg(parts[1]);
+                instr.imm = parts[2] === undefined ? 0 : parseImm(parts[2]);
+            }
+            required = ['rd', 'rs1', 'imm'];
+            break;
+        case 'CSR':
+            instr.rd = parseReg(parts[0]);
+            instr.csr = parseCsr(parts[1]);
+            instr.rs1 = parseReg(parts[2]);
+            required = ['rd', 'csr', 'rs1'];
+            break;
+        case 'CSRI': {
+            instr.rd = parseReg(parts[0]);
+            instr.csr = parseCsr(parts[1]);
+            const uimm = parseImm(parts[2]);
+            instr.imm = uimm !== undefined && uimm >= 0 && uimm <= 31 ? uimm : undefined;
+            required = ['rd', 'csr', 'imm'];
+            break;
+        }
+        case 'NONE':
+            break;
+    }
+
+    const missing = required.filter(field => instr[field] === undefined);
+    if (missing.length > 0) return `Invalid operands for '${op}': expected ${required.join(', ')}.`;
+    return instr;
+};
+
+type Statement = { line: number; text: string; labels: string[] };
+
+const expandStatement = (statement: Statement, labelAddress: (label: string) => number): string[] => {
+    const { op, operands } = splitStatement(statement.text);
+    const resolved = operands.map(operand => resolveRelocations(operand, labelAddress));
+    const expansion = expandPseudo(op, resolved, labelAddress);
+    if (expansion) return expansion;
+    return [resolved.length > 0 ? `${splitStatement(statement.text).mnemonic} ${resolved.join(', ')}` : statement.text];
+};
+
+export function parseAssembly(code: string): AssemblyResult {
+    const errors: AssemblyError[] = [];
+    const statements: Statement[] = [];
+    const pendingLabels: string[] = [];
+    const statementLabels: Record<string, Statement | null> = {}; // null: label at end of program
+
+    code.split('\n').forEach((line, lineIndex) => {
+        let text = line.split('#')[0].trim();
+        let labelMatch = text.match(/^([\w.$]+):/);
+        while (labelMatch) {
+            pendingLabels.push(labelMatch[1]);
+            statementLabels[labelMatch[1]] = null;
+            text = text.slice(labelMatch[0].length).trim();
+            labelMatch = text.match(/^([\w.$]+):/);
+        }
+        // Assembler directives (.text, .globl, .align, ...) carry no instructions for the simulator.
+        if (text.length === 0 || text.startsWith('.')) return;
+        statements.push({ line: lineIndex + 1, text, labels: pendingLabels.splice(0) });
+    });
+
+    // Pass 1 validates every statement with placeholder label addresses (expansion sizes never
+    // depend on label values) and drops the ones that do not assemble.
+    const valid = statements.filter(statement => {
+        let undefinedLabel: string | undefined;
+        const expansion = expandStatement(statement, label => {
+            if (statementLabels[label] === undefined && parseImm(label) === undefined) undefinedLabel ??= label;
+            return 0;
+        });
+        if (undefinedLabel !== undefined) {
+            errors.push({ line: statement.line, message: `Undefined label '${undefinedLabel}'.` });
+            return false;
+        }
+        for (const text of expansion) {
+            const parsed = parseBaseInstruction(text);
+            if (typeof parsed === 'string') {
+                errors.push({ line: statement.line, message: parsed });
+                return false;
+            }
+            if (parsed.target !== undefined && statementLabels[parsed.target] === undefined && parseImm(parsed.target) === undefined) {
+                errors.push({ line: statement.line, message: `Undefined label '${parsed.target}'.` });
+                return false;
+            }
+        }
+        return true;
+    });
+
+    // Labels of a dropped statement fall through to the next statement that assembled.
+    const labels: Record<string, number> = {};
+    let index = 0;
+    let carried: string[] = [];
+    statements.forEach(statement => {
+        carried = carried.concat(statement.labels);
+        if (!valid.includes(statement)) return;
+        carried.forEach(label => { labels[label] = index; });
+        carried = [];
+        index += expandStatement(statement, () => 0).length;
+    });
+    carried.concat(pendingLabels).forEach(label => { labels[label] = index; });
+
+    // Pass 2 expands with the final label addresses.
+    const labelAddress = (label: string): number => labels[label] !== undefined ? labels[label] * 4 : parseImm(label) ?? 0;
+    const instructions: Instruction[] = [];
+    valid.forEach(statement => {
+        expandStatement(statement, labelAddress).forEach(text => {
+            const parsed = parseBaseInstruction(text) as Omit<Instruction, 'pc' | 'source' | 'line'>;
+            instructions.push({ ...parsed, source: statement.text, line: statement.line, pc: instructions.length });
+        });
+    });
+    errors.sort((a, b) => a.line - b.line);
+
+    return { instructions, labels, errors };
+}
@@ -0,0 +1,193 @@
+// FPGA board and DVFS profile definitions for the Hardware Emulation dashboard. The built-in boards can be
+// overridden and extended by the user; those boards are stored in this browser and exchanged as JSON.
+import { ISA, ISA_INSTRUCTIONS } from './isa';
+
+export type ProfileId = 'performance' | 'balanced' | 'low_power';
+
+export type DVFSProfile = {
+  name: string;
+  riscv_clk_mhz: number;
+  arm_clk_mhz: number;
+  energy_per_cycle_hw: { [key: string]: number };
+  energy_per_cycle_sw: number;
+  static_power_hw_mw: number;
+  static_power_sw_mw: number;
+  l1_cache_hit_rate: number;
+  l1_miss_penalty_cycles: number;
+  dram_energy_per_access_pj: number;
+  branch_predictor_accuracy: number;
+  branch_mispredict_penalty_cycles: number;
+  cycles_hw: { [key: string]: number }; // Board-specific cycle counts
+};
+
+export type Board = {
+  name: string;
+  family: string;
+  profiles: {
+    performance: DVFSProfile;
+    balanced: DVFSProfile;
+    low_power: DVFSProfile;
+  };
+};
+
+export const BUILTIN_BOARDS: Record<string, Board> = {
+  // --- Xilinx/AMD Boards ---
+  "pynq-z2": {
+    name: "PYNQ-Z2", family: "Xilinx Zynq-7000",
+    profiles: {
+      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 780, energy_per_cycle_hw: { 'mac': 4.7, 'relu': 1.6, 'conv2d.3x3': 13, 'dwconv.3x3': 10.3, 'maxpool.2x2': 6, 'sigmoid': 23, 'tanh': 23, 'fadd.s': 1.2, 'fsub.s': 1.2, 'fmul.s': 3.9, 'fdiv.s': 16, 'flw': 7.8, 'fsw': 7.8, 'lw': 6.2, 'sw': 6.2, 'beq': 0.78, 'jal': 0.94, 'addi': 0.62, 'default': 0.78 }, energy_per_cycle_sw: 29, static_power_hw_mw: 150, static_power_sw_mw: 250, l1_cache_hit_rate: 0.98, l1_miss_penalty_cycles: 40, dram_energy_per_access_pj: 650, branch_predictor_accuracy: 0.92, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 650, energy_per_cycle_hw: { 'mac': 3, 'relu': 1, 'conv2d.3x3': 8.33, 'dwconv.3x3': 6.67, 'maxpool.2x2': 4, 'sigmoid': 15, 'tanh': 15, 'fadd.s': 0.8, 'fsub.s': 0.8, 'fmul.s': 2.5, 'fdiv.s': 10, 'flw': 5, 'fsw': 5, 'lw': 4, 'sw': 4, 'beq': 0.5, 'jal': 0.6, 'addi': 0.4, 'default': 0.5 }, energy_per_cycle_sw: 20, static_power_hw_mw: 100, static_power_sw_mw: 180, l1_cache_hit_rate: 0.97, l1_miss_penalty_cycles: 42, dram_energy_per_access_pj: 680, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 520, energy_per_cycle_hw: { 'mac': 1.7, 'relu': 0.56, 'conv2d.3x3': 4.67, 'dwconv.3x3': 3.67, 'maxpool.2x2': 2.25, 'sigmoid': 8.4, 'tanh': 8.4, 'fadd.s': 0.45, 'fsub.s': 0.45, 'fmul.s': 1.4, 'fdiv.s': 5.6, 'flw': 2.8, 'fsw': 2.8, 'lw': 2.2, 'sw': 2.2, 'beq': 0.28, 'jal': 0.34, 'addi': 0.22, 'default': 0.28 }, energy_per_cycle_sw: 13, static_power_hw_mw: 70, static_power_sw_mw: 120, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 45, dram_energy_per_access_pj: 720, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+    }
+  },
+  "arty-a7": {
+    name: "Arty A7-100T", family: "Xilinx Artix-7",
+    profiles: {
+      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 500, energy_per_cycle_hw: { 'mac': 3.7, 'relu': 1.2, 'conv2d.3x3': 10.3, 'dwconv.3x3': 8.33, 'maxpool.2x2': 4.95, 'sigmoid': 19, 'tanh': 19, 'fadd.s': 0.99, 'fsub.s': 0.99, 'fmul.s': 3.1, 'fdiv.s': 12, 'flw': 6.2, 'fsw': 6.2, 'lw': 5, 'sw': 5, 'beq': 0.62, 'jal': 0.75, 'addi': 0.5, 'default': 0.62 }, energy_per_cycle_sw: 23, static_power_hw_mw: 120, static_power_sw_mw: 180, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 50, dram_energy_per_access_pj: 800, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 400, energy_per_cycle_hw: { 'mac': 2.4, 'relu': 0.8, 'conv2d.3x3': 6.67, 'dwconv.3x3': 5.33, 'maxpool.2x2': 3.2, 'sigmoid': 12, 'tanh': 12, 'fadd.s': 0.64, 'fsub.s': 0.64, 'fmul.s': 2, 'fdiv.s': 8, 'flw': 4, 'fsw': 4, 'lw': 3.2, 'sw': 3.2, 'beq': 0.4, 'jal': 0.48, 'addi': 0.32, 'default': 0.4 }, energy_per_cycle_sw: 16, static_power_hw_mw: 80, static_power_sw_mw: 130, l1_cache_hit_rate: 0.95, l1_miss_penalty_cycles: 52, dram_energy_per_access_pj: 840, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 320, energy_per_cycle_hw: { 'mac': 1.3, 'relu': 0.45, 'conv2d.3x3': 3.67, 'dwconv.3x3': 3, 'maxpool.2x2': 1.8, 'sigmoid': 6.7, 'tanh': 6.7, 'fadd.s': 0.36, 'fsub.s': 0.36, 'fmul.s': 1.1, 'fdiv.s': 4.5, 'flw': 2.2, 'fsw': 2.2, 'lw': 1.8, 'sw': 1.8, 'beq': 0.22, 'jal': 0.27, 'addi': 0.18, 'default': 0.22 }, energy_per_cycle_sw: 10, static_power_hw_mw: 50, static_power_sw_mw: 90, l1_cache_hit_rate: 0.94, l1_miss_penalty_cycles: 55, dram_energy_per_access_pj: 880, branch_predictor_accuracy: 0.85, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+    }
+  },
+  "basys3": {
+    name: "Basys 3", family: "Xilinx Artix-7",
+    profiles: {
+      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 500, energy_per_cycle_hw: { 'mac': 3.3, 'relu': 1.1, 'conv2d.3x3': 9.33, 'dwconv.3x3': 7.33, 'maxpool.2x2': 4.4, 'sigmoid': 17, 'tanh': 17, 'fadd.s': 0.88, 'fsub.s': 0.88, 'fmul.s': 2.8, 'fdiv.s': 11, 'flw': 5.5, 'fsw': 5.5, 'lw': 4.4, 'sw': 4.4, 'beq': 0.55, 'jal': 0.66, 'addi': 0.44, 'default': 0.55 }, energy_per_cycle_sw: 20, static_power_hw_mw: 110, static_power_sw_mw: 170, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 50, dram_energy_per_access_pj: 800, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 400, energy_per_cycle_hw: { 'mac': 2.1, 'relu': 0.7, 'conv2d.3x3': 6, 'dwconv.3x3': 4.67, 'maxpool.2x2': 2.8, 'sigmoid': 11, 'tanh': 11, 'fadd.s': 0.56, 'fsub.s': 0.56, 'fmul.s': 1.8, 'fdiv.s': 7, 'flw': 3.5, 'fsw': 3.5, 'lw': 2.8, 'sw': 2.8, 'beq': 0.35, 'jal': 0.42, 'addi': 0.28, 'default': 0.35 }, energy_per_cycle_sw: 14, static_power_hw_mw: 75, static_power_sw_mw: 120, l1_cache_hit_rate: 0.95, l1_miss_penalty_cycles: 52, dram_energy_per_access_pj: 840, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 320, energy_per_cycle_hw: { 'mac': 1.2, 'relu': 0.39, 'conv2d.3x3': 3.27, 'dwconv.3x3': 2.6, 'maxpool.2x2': 1.55, 'sigmoid': 5.9, 'tanh': 5.9, 'fadd.s': 0.31, 'fsub.s': 0.31, 'fmul.s': 0.98, 'fdiv.s': 3.9, 'flw': 2, 'fsw': 2, 'lw': 1.6, 'sw': 1.6, 'beq': 0.2, 'jal': 0.24, 'addi': 0.16, 'default': 0.2 }, energy_per_cycle_sw: 9, static_power_hw_mw: 45, static_power_sw_mw: 80, l1_cache_hit_rate: 0.94, l1_miss_penalty_cycles: 55, dram_energy_per_access_pj: 880, branch_predictor_accuracy: 0.85, branch_mispredict_penalty_cycles: 4, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 5, 'tanh': 5, 'conv2d.3x3': 4, 'dwconv.3x3': 4, 'maxpool.2x2': 3, 'fadd.s': 3, 'fsub.s': 3, 'fmul.s': 4, 'fdiv.s': 14, 'flw': 3, 'fsw': 2, 'lw': 3, 'sw': 2, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+    }
+  },
+  "zybo-z7": {
+    name: "Zybo Z7-20", family: "Xilinx Zynq-7000",
+    profiles: {
+      performance: { name: "Performance", riscv_clk_mhz: 125, arm_clk_mhz: 780, energy_per_cycle_hw: { 'mac': 4.7, 'relu': 1.6, 'conv2d.3x3': 13, 'dwconv.3x3': 10.3, 'maxpool.2x2': 6, 'sigmoid': 23, 'tanh': 23, 'fadd.s': 1.2, 'fsub.s': 1.2, 'fmul.s': 3.9, 'fdiv.s': 16, 'flw': 7.8, 'fsw': 7.8, 'lw': 6.2, 'sw': 6.2, 'beq': 0.78, 'jal': 0.94, 'addi': 0.62, 'default': 0.78 }, energy_per_cycle_sw: 29, static_power_hw_mw: 150, static_power_sw_mw: 250, l1_cache_hit_rate: 0.98, l1_miss_penalty_cycles: 40, dram_energy_per_access_pj: 650, branch_predictor_accuracy: 0.92, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      balanced: { name: "Balanced", riscv_clk_mhz: 100, arm_clk_mhz: 650, energy_per_cycle_hw: { 'mac': 3, 'relu': 1, 'conv2d.3x3': 8.33, 'dwconv.3x3': 6.67, 'maxpool.2x2': 4, 'sigmoid': 15, 'tanh': 15, 'fadd.s': 0.8, 'fsub.s': 0.8, 'fmul.s': 2.5, 'fdiv.s': 10, 'flw': 5, 'fsw': 5, 'lw': 4, 'sw': 4, 'beq': 0.5, 'jal': 0.6, 'addi': 0.4, 'default': 0.5 }, energy_per_cycle_sw: 20, static_power_hw_mw: 100, static_power_sw_mw: 180, l1_cache_hit_rate: 0.97, l1_miss_penalty_cycles: 42, dram_energy_per_access_pj: 680, branch_predictor_accuracy: 0.90, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+      low_power: { name: "Low Power", riscv_clk_mhz: 75, arm_clk_mhz: 520, energy_per_cycle_hw: { 'mac': 1.7, 'relu': 0.56, 'conv2d.3x3': 4.67, 'dwconv.3x3': 3.67, 'maxpool.2x2': 2.25, 'sigmoid': 8.4, 'tanh': 8.4, 'fadd.s': 0.45, 'fsub.s': 0.45, 'fmul.s': 1.4, 'fdiv.s': 5.6, 'flw': 2.8, 'fsw': 2.8, 'lw': 2.2, 'sw': 2.2, 'beq': 0.28, 'jal': 0.34, 'addi': 0.22, 'default': 0.28 }, energy_per_cycle_sw: 13, static_power_hw_mw: 70, static_power_sw_mw: 120, l1_cache_hit_rate: 0.96, l1_miss_penalty_cycles: 45, dram_energy_per_access_pj: 720, branch_predictor_accuracy: 0.88, branch_mispredict_penalty_cycles: 3, cycles_hw: { 'mac': 1, 'relu': 1, 'sigmoid': 4, 'tanh': 4, 'conv2d.3x3': 3, 'dwconv.3x3': 3, 'maxpool.2x2': 2, 'fadd.s': 2, 'fsub.s': 2, 'fmul.s': 3, 'fdiv.s': 12, 'flw': 2, 'fsw': 1, 'lw': 2, 'sw': 1, 'beq': 1, 'jal': 1, 'addi': 1, 'add':1, 'sub':1, 'default': 1 } },
+    }
+  },
+};
+
+export const PROFILE_IDS: ProfileId[] = ['performance', 'balanced', 'low_power'];
+
+// Per-instruction tables fall back to this entry for instructions they do not list.
+export const DEFAULT_ENTRY = 'default';
+
+const USER_BOARDS_KEY = 'riscv_boardProfiles';
+
+// Scalar profile parameters with their valid ranges, in editor order.
+export const PROFILE_PARAMETERS: { key: keyof DVFSProfile; label: string; unit: string; min: number; max?: number }[] = [
+    { key: 'riscv_clk_mhz', label: 'RISC-V clock', unit: 'MHz', min: 0.001 },
+    { key: 'arm_clk_mhz', label: 'ARM clock', unit: 'MHz', min: 0.001 },
+    { key: 'static_power_hw_mw', label: 'RISC-V static power', unit: 'mW', min: 0 },
+    { key: 'static_power_sw_mw', label: 'ARM static power', unit: 'mW', min: 0 },
+    { key: 'energy_per_cycle_sw', label: 'ARM energy per cycle', unit: 'pJ', min: 0 },
+    { key: 'l1_cache_hit_rate', label: 'L1 hit rate', unit: '0..1', min: 0, max: 1 },
+    { key: 'l1_miss_penalty_cycles', label: 'L1 miss penalty', unit: 'cycles', min: 0 },
+    { key: 'dram_energy_per_access_pj', label: 'DRAM energy per access', unit: 'pJ', min: 0 },
+    { key: 'branch_predictor_accuracy', label: 'Branch predictor accuracy', unit: '0..1', min: 0, max: 1 },
+    { key: 'branch_mispredict_penalty_cycles', label: 'Mispredict penalty', unit: 'cycles', min: 0 },
+];
+
+export interface BoardValidation {
+    errors: string[]; // The board cannot be saved
+    warnings: string[]; // Instructions that fall back to a default cost
+}
+
+const PROFILE_NAMES: Record<ProfileId, string> = { performance: 'Performance', balanced: 'Balanced', low_power: 'Low Power' };
+
+// Instructions the workload mix can contain; each should have a cost in every profile.
+const mixMnemonics = () => ISA_INSTRUCTIONS.filter(instr => instr.defaultMixCount !== undefined).map(instr => instr.mnemonic);
+
+export function validateBoard(board: Board): BoardValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    if (typeof board.name !== 'string' || !board.name.trim()) errors.push('Board name is required.');
+    if (typeof board.family !== 'string') errors.push('Board family must be text.');
+
+    PROFILE_IDS.forEach(id => {
+        const profile = board.profiles?.[id];
+        const where = PROFILE_NAMES[id];
+        if (!profile || typeof profile !== 'object') {
+            errors.push(`${where}: profile is missing.`);
+            return;
+        }
+        if (typeof profile.name !== 'string' || !profile.name.trim()) errors.push(`${where}: profile name is required.`);
+        PROFILE_PARAMETERS.forEach(({ key, label, min, max }) => {
+            const value = profile[key];
+            if (typeof value !== 'number' || !(value >= min) || (max !== undefined && value > max)) {
+                errors.push(`${where}: ${label} must be ${max === undefined ? `at least ${min}` : `between ${min} and ${max}`}.`);
+            }
+        });
+
+        const tables: { name: string; table: Record<string, number>; valid: (value: number) => boolean; requirement: string }[] = [
+            { name: 'cycles', table: profile.cycles_hw, valid: value => value > 0, requirement: 'positive' },
+            { name: 'energy per cycle', table: profile.energy_per_cycle_hw, valid: value => value >= 0, requirement: 'zero or positive' },
+        ];
+        tables.forEach(({ name, table, valid, requirement }) => {
+            if (!table || typeof table !== 'object') {
+                errors.push(`${where}: the ${name} table is missing.`);
+                return;
+            }
+            Object.entries(table).forEach(([mnemonic, value]) => {
+                if (mnemonic !== DEFAULT_ENTRY && !ISA[mnemonic]) errors.push(`${where}: ${name} lists '${mnemonic}', which is not in the ISA.`);
+                else if (typeof value !== 'number' || !valid(value)) errors.push(`${where}: ${name} of '${mnemonic}' must be ${requirement}.`);
+            });
+            const missing = mixMnemonics().filter(mnemonic => table[mnemonic] === undefined);
+            if (missing.length > 0) {
+                warnings.push(`${where}: no ${name} for ${missing.join(', ')}; the ISA registry value${table[DEFAULT_ENTRY] !== undefined ? ' or the default entry' : ''} is used.`);
+            }
+        });
+    });
+    return { errors, warnings };
+}
+
+export class BoardImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BoardImportError';
+    }
+}
+
+// Parses an export of user boards (board id -> board). Every board must validate.
+export function parseBoardsJson(text: string): Record<string, Board> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new BoardImportError('The file is not valid JSON.');
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new BoardImportError('Expected an object mapping board ids to boards.');
+    const problems = Object.entries(parsed as Record<string, Board>).flatMap(([id, board]) =>
+        !board || typeof board !== 'object'
+            ? [`${id}: not a board.`]
+            : validateBoard(board).errors.map(error => `${board.name || id}: ${error}`));
+    if (problems.length > 0) throw new BoardImportError(problems.join('\n'));
+    return parsed as Record<string, Board>;
+}
+
+export const exportBoardsJson = (boards: Record<string, Board>): string => JSON.stringify(boards, null, 2);
+
+export function loadUserBoards(): Record<string, Board> {
+    try {
+        const saved: Record<string, Board> = JSON.parse(localStorage.getItem(USER_BOARDS_KEY) || '{}');
+        // Drop anything that no longer validates (e.g. an instruction removed from the ISA Designer).
+        return Object.fromEntries(Object.entries(saved).filter(([, board]) => validateBoard(board).errors.length === 0));
+    } catch (e) {
+        console.error('Failed to load board profiles:', e);
+        return {};
+    }
+}
+
+export function saveUserBoards(boards: Record<string, Board>) {
+    localStorage.setItem(USER_BOARDS_KEY, JSON.stringify(boards));
+}
+
+// Built-in boards with the user's boards added; a user board with a built-in id replaces it.
+export const mergeBoards = (userBoards: Record<string, Board>): Record<string, Board> => ({ ...BUILTIN_BOARDS, ...userBoards });
+
+// A board id derived from `name` that is not in `taken`.
+export function boardId(name: string, taken: Record<string, unknown>): string {
+    const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'board';
+    let id = base;
+    for (let n = 2; taken[id] !== undefined; n++) id = `${base}-${n}`;
+    return id;
+}
@@ -0,0 +1,134 @@
+// Branch prediction models for the pipeline simulator. The fetch stage asks for a prediction for every
+// control-flow instruction; EX resolves it and trains the predictor. Program counters are instruction
+// indices (byte address / 4), so table indices use the PC directly.
+import { BRANCH_OPS } from './assembler';
+
+export type PredictorKind = 'static-not-taken' | 'static-btfn' | 'one-bit' | 'two-bit' | 'gshare';
+
+export interface PredictorConfig {
+    kind: PredictorKind;
+    historyBits: number; // gshare global history length; the PHT then has 2^historyBits entries
+}
+
+export const PREDICTOR_NAMES: Record<PredictorKind, string> = {
+    'static-not-taken': 'Static not-taken',
+    'static-btfn': 'Static BTFN (backward taken, forward not)',
+    'one-bit': '1-bit history',
+    'two-bit': '2-bit saturating counter',
+    'gshare': 'gshare',
+};
+
+export const DEFAULT_PREDICTOR: PredictorConfig = { kind: 'static-not-taken', historyBits: 4 };
+
+export const MAX_HISTORY_BITS = 8;
+export const BTB_ENTRIES = 16;
+const BIMODAL_PHT_ENTRIES = 16;
+
+// IF and ID are flushed when EX finds a misprediction (the simulator's default resolution stage).
+export const MISPREDICT_PENALTY_CYCLES = 2;
+
+export interface BtbEntry {
+    tag: number; // PC of the control instruction
+    target: number;
+}
+
+export interface PredictorStats {
+    branches: number; // Resolved conditional branches
+    correct: number; // Conditional branches whose direction was predicted correctly
+    jumps: number; // Resolved jal/jalr
+    mispredictions: number; // Any redirect from EX, including jumps with a missing or stale target
+    penaltyCycles: number;
+}
+
+export interface PredictorState {
+    pht: number[]; // 1-bit (0/1) or 2-bit (0..3) counters; empty for the static predictors
+    btb: (BtbEntry | null)[];
+    history: number; // Global branch history, most recent outcome in bit 0
+    stats: PredictorStats;
+}
+
+export interface Prediction {
+    taken: boolean;
+    nextPc: number;
+    phtIndex?: number;
+}
+
+const isDynamic = (kind: PredictorKind) => kind === 'one-bit' || kind === 'two-bit' || kind === 'gshare';
+
+const phtSize = (config: PredictorConfig) =>
+    config.kind === 'gshare' ? 1 << config.historyBits : isDynamic(config.kind) ? BIMODAL_PHT_ENTRIES : 0;
+
+// Counters start weakly not-taken.
+const initialCounter = (kind: PredictorKind) => kind === 'one-bit' ? 0 : 1;
+
+export function createPredictorState(config: PredictorConfig): PredictorState {
+    return {
+        pht: Array(phtSize(config)).fill(initialCounter(config.kind)),
+        btb: Array(BTB_ENTRIES).fill(null),
+        history: 0,
+        stats: { branches: 0, correct: 0, jumps: 0, mispredictions: 0, penaltyCycles: 0 },
+    };
+}
+
+const phtIndex = (config: PredictorConfig, state: PredictorState, pc: number): number =>
+    config.kind === 'gshare' ? (pc ^ state.history) & (state.pht.length - 1) : pc % state.pht.length;
+
+const counterTaken = (kind: PredictorKind, counter: number) => kind === 'one-bit' ? counter === 1 : counter >= 2;
+
+// `decodedTarget` is the PC-relative target of a branch or jal, which the static predictors read from the
+// instruction word as a pre-decoder would. The dynamic predictors only redirect fetch on a BTB hit.
+export function predict(config: PredictorConfig, state: PredictorState, pc: number, op: string, decodedTarget?: number): Prediction {
+    const fallThrough: Prediction = { taken: false, nextPc: pc + 1 };
+    const isBranch = BRANCH_OPS.includes(op);
+
+    switch (config.kind) {
+        case 'static-not-taken':
+            return fallThrough;
+        case 'static-btfn':
+            if (decodedTarget === undefined) return fallThrough;
+            if (!isBranch || decodedTarget <= pc) return { taken: true, nextPc: decodedTarget };
+            return fallThrough;
+        default: {
+            const entry = state.btb[pc % BTB_ENTRIES];
+            const target = entry?.tag === pc ? entry.target : undefined;
+            if (!isBranch) return target === undefined ? fallThrough : { taken: true, nextPc: target };
+            const index = phtIndex(config, state, pc);
+            const taken = counterTaken(config.kind, state.pht[index]);
+            return taken && target !== undefined ? { taken, nextPc: target, phtIndex: index } : { ...fallThrough, taken, phtIndex: index };
+        }
+    }
+}
+
+// Trains the predictor with the resolved outcome and records whether fetch followed the right path.
+// `penaltyCycles` is the cost of a redirect, which depends on the stage that resolves branches.
+export function resolveBranch(
+    config: PredictorConfig, state: PredictorState, pc: number, op: string,
+    prediction: Prediction, taken: boolean, actualNextPc: number, penaltyCycles = MISPREDICT_PENALTY_CYCLES,
+): PredictorState {
+    const isBranch = BRANCH_OPS.includes(op);
+    const mispredicted = prediction.nextPc !== actualNextPc;
+    const stats = {
+        branches: state.stats.branches + (isBranch ? 1 : 0),
+        correct: state.stats.correct + (isBranch && prediction.taken === taken ? 1 : 0),
+        jumps: state.stats.jumps + (isBranch ? 0 : 1),
+        mispredictions: state.stats.mispredictions + (mispredicted ? 1 : 0),
+        penaltyCycles: state.stats.penaltyCycles + (mispredicted ? penaltyCycles : 0),
+    };
+    if (!isDynamic(config.kind)) return { ...state, stats };
+
+    const pht = [...state.pht];
+    let history = state.history;
+    if (isBranch) {
+        const index = prediction.phtIndex ?? phtIndex(config, state, pc);
+        pht[index] = config.kind === 'one-bit'
+            ? (taken ? 1 : 0)
+            : taken ? Math.min(3, pht[index] + 1) : Math.max(0, pht[index] - 1);
+        if (config.kind === 'gshare') history = ((history << 1) | (taken ? 1 : 0)) & ((1 << config.historyBits) - 1);
+    }
+    const btb = [...state.btb];
+    if (taken) btb[pc % BTB_ENTRIES] = { tag: pc, target: actualNextPc };
+    return { pht, btb, history, stats };
+}
+
+export const predictorAccuracy = (stats: PredictorStats): number | null =>
+    stats.branches === 0 ? null : stats.correct / stats.branches;
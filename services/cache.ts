@@ -0,0 +1,154 @@
+// Set-associative cache timing model for the pipeline simulator's L1 and shared L2 caches. The simulator
+// keeps data in its flat memory; caches only track tags and valid/dirty bits to decide hits, misses and stalls.
+
+export type ReplacementPolicy = 'lru' | 'fifo' | 'random';
+export type WritePolicy = 'write-back' | 'write-through';
+
+export interface CacheConfig {
+    enabled: boolean;
+    sizeBytes: number;
+    lineBytes: number;
+    associativity: number;
+    replacement: ReplacementPolicy;
+    writePolicy: WritePolicy; // Write-back allocates on write misses; write-through does not
+    missPenaltyCycles: number;
+}
+
+export interface CacheLine {
+    valid: boolean;
+    dirty: boolean;
+    tag: number;
+    lastUsed: number; // Access counter value of the most recent hit or fill (LRU)
+    filledAt: number; // Access counter value of the fill (FIFO)
+}
+
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    writebacks: number; // Dirty lines written to memory on eviction
+    memoryWrites: number; // Stores passed straight through to memory
+    stallCycles: number;
+}
+
+export interface CacheState {
+    sets: CacheLine[][];
+    stats: CacheStats;
+    accesses: number;
+    seed: number; // LCG state for random replacement, so runs are reproducible
+}
+
+export interface CacheAccess {
+    state: CacheState;
+    hit: boolean;
+    set: number;
+    way: number;
+    stallCycles: number;
+}
+
+export const REPLACEMENT_NAMES: Record<ReplacementPolicy, string> = { 'lru': 'LRU', 'fifo': 'FIFO', 'random': 'Random' };
+
+export const DEFAULT_ICACHE: CacheConfig = {
+    enabled: false, sizeBytes: 256, lineBytes: 16, associativity: 2, replacement: 'lru', writePolicy: 'write-back', missPenaltyCycles: 4,
+};
+export const DEFAULT_DCACHE: CacheConfig = { ...DEFAULT_ICACHE };
+export const DEFAULT_L2: CacheConfig = { ...DEFAULT_ICACHE, sizeBytes: 1024, lineBytes: 32, associativity: 4, missPenaltyCycles: 20 };
+
+const isPowerOfTwo = (value: number) => Number.isInteger(value) && value > 0 && (value & (value - 1)) === 0;
+
+export function validateCacheConfig(config: CacheConfig): string[] {
+    const errors: string[] = [];
+    if (!isPowerOfTwo(config.sizeBytes)) errors.push('Cache size must be a power of two.');
+    if (!isPowerOfTwo(config.lineBytes) || config.lineBytes < 4) errors.push('Line size must be a power of two of at least 4 bytes.');
+    if (!isPowerOfTwo(config.associativity)) errors.push('Associativity must be a power of two.');
+    if (errors.length === 0 && config.lineBytes * config.associativity > config.sizeBytes) {
+        errors.push('Line size x associativity exceeds the cache size.');
+    }
+    if (!Number.isInteger(config.missPenaltyCycles) || config.missPenaltyCycles < 0) errors.push('Miss penalty must be a whole number of cycles.');
+    return errors;
+}
+
+export const cacheSetCount = (config: CacheConfig): number => config.sizeBytes / (config.lineBytes * config.associativity);
+
+export function createCacheState(config: CacheConfig): CacheState {
+    const emptyLine: CacheLine = { valid: false, dirty: false, tag: 0, lastUsed: 0, filledAt: 0 };
+    return {
+        sets: Array.from({ length: cacheSetCount(config) }, () => Array.from({ length: config.associativity }, () => ({ ...emptyLine }))),
+        stats: { hits: 0, misses: 0, writebacks: 0, memoryWrites: 0, stallCycles: 0 },
+        accesses: 0,
+        seed: 1,
+    };
+}
+
+const chooseVictim = (config: CacheConfig, lines: CacheLine[], seed: number): { way: number; seed: number } => {
+    const empty = lines.findIndex(line => !line.valid);
+    if (empty !== -1) return { way: empty, seed };
+    switch (config.replacement) {
+        case 'lru': return { way: lines.reduce((best, line, i) => line.lastUsed < lines[best].lastUsed ? i : best, 0), seed };
+        case 'fifo': return { way: lines.reduce((best, line, i) => line.filledAt < lines[best].filledAt ? i : best, 0), seed };
+        case 'random': {
+            const next = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+            return { way: (next >>> 16) % lines.length, seed: next };
+        }
+    }
+};
+
+// Looks up `address`, updating tags, dirty bits and counters. Misses stall for the refill plus, under
+// write-back, the write-back of a dirty victim.
+export function accessCache(config: CacheConfig, state: CacheState, address: number, isWrite: boolean): CacheAccess {
+    const setCount = state.sets.length;
+    const lineNumber = Math.floor((address >>> 0) / config.lineBytes);
+    const set = lineNumber % setCount;
+    const tag = Math.floor(lineNumber / setCount);
+    const accesses = state.accesses + 1;
+    const lines = state.sets[set].map(line => ({ ...line }));
+    const sets = state.sets.map((s, i) => i === set ? lines : s);
+    const stats = { ...state.stats };
+    const writeThrough = config.writePolicy === 'write-through';
+    if (isWrite && writeThrough) stats.memoryWrites++;
+
+    const hitWay = lines.findIndex(line => line.valid && line.tag === tag);
+    if (hitWay !== -1) {
+        stats.hits++;
+        lines[hitWay].lastUsed = accesses;
+        if (isWrite && !writeThrough) lines[hitWay].dirty = true;
+        return { state: { ...state, sets, stats, accesses }, hit: true, set, way: hitWay, stallCycles: 0 };
+    }
+
+    stats.misses++;
+    // Write-through caches do not allocate on a write miss; the store goes to memory via the write buffer.
+    if (isWrite && writeThrough) {
+        return { state: { ...state, sets, stats, accesses }, hit: false, set, way: -1, stallCycles: 0 };
+    }
+
+    const { way, seed } = chooseVictim(config, lines, state.seed);
+    let stallCycles = config.missPenaltyCycles;
+    if (lines[way].valid && lines[way].dirty) {
+        stats.writebacks++;
+        stallCycles += config.missPenaltyCycles;
+    }
+    lines[way] = { valid: true, dirty: isWrite && !writeThrough, tag, lastUsed: accesses, filledAt: accesses };
+    stats.stallCycles += stallCycles;
+    return { state: { sets, stats, accesses, seed }, hit: false, set, way, stallCycles };
+}
+
+export const cacheHitRate = (stats: CacheStats): number | null => {
+    const total = stats.hits + stats.misses;
+    return total === 0 ? null : stats.hits / total;
+};
+
+export interface HierarchyAccess {
+    l1: CacheAccess;
+    l2State: CacheState;
+    stallCycles: number;
+}
+
+// Accesses an L1 backed by an optional shared L2. The L1 miss penalty is the time to reach the next level;
+// a refill that also misses in an enabled L2 adds the L2 miss penalty. Write-backs are charged at L1 only.
+export function accessHierarchy(
+    l1Config: CacheConfig, l1State: CacheState, l2Config: CacheConfig, l2State: CacheState, address: number, isWrite: boolean,
+): HierarchyAccess {
+    const l1 = accessCache(l1Config, l1State, address, isWrite);
+    if (l1.hit || l1.way === -1 || !l2Config.enabled) return { l1, l2State, stallCycles: l1.stallCycles };
+    const l2 = accessCache(l2Config, l2State, address, false);
+    return { l1, l2State: l2.state, stallCycles: l1.stallCycles + l2.stallCycles };
+}
@@ -0,0 +1,203 @@
+// Calibration of a board's emulator profiles against benchmarks measured on the board. Each sample pairs a
+// Live Benchmarking history entry with the instruction mix of its workload and the DVFS profile it ran at.
+// Least squares fits three per-board correction factors: one for cycles, one for dynamic energy and one
+// for static power.
+import { ISA, ISA_INSTRUCTIONS } from './isa';
+import { DEFAULT_ENTRY, PROFILE_IDS } from './boards';
+import type { Board, DVFSProfile, ProfileId } from './boards';
+import { estimateStatistical, hwCyclesPerInstr, hwEnergyPerCycle } from './emulationModel';
+
+// Written by the Live Benchmarking page; the measured fields are those of the PYNQ server's response.
+export const BENCHMARK_HISTORY_KEY = 'pynq_benchmark_history';
+const CALIBRATION_PAIRINGS_KEY = 'riscv_calibrationPairings';
+
+export interface BenchmarkHistoryEntry {
+    boardName: string;
+    timestamp: string;
+    hw_latency_ms: number;
+    hw_energy_mj: number;
+}
+
+export interface CalibrationSample {
+    entry: BenchmarkHistoryEntry;
+    instructionMix: Record<string, number>;
+    mixName: string;
+    profileId: ProfileId;
+}
+
+// What a history entry was paired with, stored per entry timestamp so a calibration can be reproduced
+// after a reload. The profile is kept even while the entry has no mix.
+export interface CalibrationPairing {
+    profileId: ProfileId;
+    instructionMix?: Record<string, number>;
+    mixName?: string;
+}
+
+export interface CorrectionFactors {
+    cycles: number;
+    dynamicEnergy: number;
+    staticPower: number;
+}
+
+export interface SampleComparison {
+    sample: CalibrationSample;
+    before: { latencyMs: number; energyMj: number };
+    after: { latencyMs: number; energyMj: number };
+}
+
+// Mean absolute percentage error over the samples.
+export interface ModelError {
+    latencyPct: number;
+    energyPct: number;
+}
+
+export interface CalibrationResult {
+    factors: CorrectionFactors;
+    // 'shared' when the samples cannot tell dynamic from static energy apart (e.g. a single sample), so
+    // both are scaled by the same factor.
+    energyFit: 'separate' | 'shared';
+    board: Board; // The board with the factors applied to all of its profiles
+    comparisons: SampleComparison[];
+    errorBefore: ModelError;
+    errorAfter: ModelError;
+}
+
+export class CalibrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CalibrationError';
+    }
+}
+
+const isMeasured = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export function loadBenchmarkHistory(): BenchmarkHistoryEntry[] {
+    try {
+        const saved: BenchmarkHistoryEntry[] = JSON.parse(localStorage.getItem(BENCHMARK_HISTORY_KEY) || '[]');
+        // Entries without a usable measurement cannot be fitted against.
+        return saved.filter(entry => typeof entry.timestamp === 'string' && isMeasured(entry.hw_latency_ms) && isMeasured(entry.hw_energy_mj));
+    } catch (e) {
+        console.error('Failed to load benchmark history:', e);
+        return [];
+    }
+}
+
+const isPairing = (pairing: CalibrationPairing): boolean =>
+    PROFILE_IDS.includes(pairing?.profileId)
+    && (pairing.instructionMix === undefined || (typeof pairing.instructionMix === 'object' && pairing.instructionMix !== null
+        && Object.values(pairing.instructionMix).every(count => typeof count === 'number' && Number.isFinite(count))));
+
+export function loadCalibrationPairings(): Record<string, CalibrationPairing> {
+    try {
+        const saved: Record<string, CalibrationPairing> = JSON.parse(localStorage.getItem(CALIBRATION_PAIRINGS_KEY) || '{}');
+        return Object.fromEntries(Object.entries(saved).filter(([, pairing]) => isPairing(pairing)));
+    } catch (e) {
+        console.error('Failed to load calibration pairings:', e);
+        return {};
+    }
+}
+
+export function saveCalibrationPairings(pairings: Record<string, CalibrationPairing>) {
+    localStorage.setItem(CALIBRATION_PAIRINGS_KEY, JSON.stringify(pairings));
+}
+
+// The samples of the history entries measured on the board named `boardName` that have a mix paired.
+// Runs on another board measured different hardware and would skew the fit.
+export const pairedSamples = (history: BenchmarkHistoryEntry[], pairings: Record<string, CalibrationPairing>, boardName: string): CalibrationSample[] =>
+    history.flatMap(entry => {
+        const pairing = pairings[entry.timestamp];
+        if (entry.boardName !== boardName || !pairing?.instructionMix) return [];
+        return [{ entry, instructionMix: pairing.instructionMix, mixName: pairing.mixName ?? 'saved mix', profileId: pairing.profileId }];
+    });
+
+// Every per-instruction entry is written out before scaling; otherwise user-defined instructions that fall
+// back to their definition's latency or energy would escape the correction.
+export function applyCorrections(profile: DVFSProfile, factors: CorrectionFactors, mnemonics: string[]): DVFSProfile {
+    const keys = [...new Set([...Object.keys(profile.cycles_hw), ...Object.keys(profile.energy_per_cycle_hw), ...mnemonics])];
+    const cycles = (instr: string) => instr === DEFAULT_ENTRY ? profile.cycles_hw[DEFAULT_ENTRY] ?? 1 : hwCyclesPerInstr(profile, instr);
+    const energy = (instr: string) => instr === DEFAULT_ENTRY ? profile.energy_per_cycle_hw[DEFAULT_ENTRY] ?? 0 : hwEnergyPerCycle(profile, instr);
+    return {
+        ...profile,
+        cycles_hw: Object.fromEntries(keys.map(instr => [instr, cycles(instr) * factors.cycles])),
+        // Dynamic energy is cycles x energy per cycle, so the cycle correction is divided back out.
+        energy_per_cycle_hw: Object.fromEntries(keys.map(instr => [instr, energy(instr) * factors.dynamicEnergy / factors.cycles])),
+        l1_miss_penalty_cycles: profile.l1_miss_penalty_cycles * factors.cycles,
+        branch_mispredict_penalty_cycles: profile.branch_mispredict_penalty_cycles * factors.cycles,
+        static_power_hw_mw: profile.static_power_hw_mw * factors.staticPower,
+    };
+}
+
+type EnergyRow = { dynamic: number; static: number; measured: number };
+
+// Non-negative least squares for measured = dynamic x d + static x s.
+function fitEnergy(rows: EnergyRow[]): { dynamic: number; static: number; shared: boolean } {
+    const sum = (term: (row: EnergyRow) => number) => rows.reduce((total, row) => total + term(row), 0);
+    const dd = sum(r => r.dynamic * r.dynamic), ss = sum(r => r.static * r.static), ds = sum(r => r.dynamic * r.static);
+    const dm = sum(r => r.dynamic * r.measured), sm = sum(r => r.static * r.measured);
+    const residual = (d: number, s: number) => sum(r => (r.dynamic * d + r.static * s - r.measured) ** 2);
+
+    const det = dd * ss - ds * ds;
+    if (det <= 1e-9 * dd * ss) {
+        const factor = (dm + sm) / (dd + 2 * ds + ss);
+        return { dynamic: factor, static: factor, shared: true };
+    }
+    const d = (dm * ss - sm * ds) / det;
+    const s = (dd * sm - ds * dm) / det;
+    if (d >= 0 && s >= 0) return { dynamic: d, static: s, shared: false };
+    // The unconstrained optimum needs a negative factor, so the constrained one has a factor at zero.
+    const dynamicOnly = { dynamic: dd > 0 ? dm / dd : 0, static: 0, shared: false };
+    const staticOnly = { dynamic: 0, static: ss > 0 ? sm / ss : 0, shared: false };
+    return residual(dynamicOnly.dynamic, 0) <= residual(0, staticOnly.static) ? dynamicOnly : staticOnly;
+}
+
+const meanAbsolutePct = (pairs: [number, number][]) =>
+    pairs.reduce((total, [model, measured]) => total + Math.abs(model - measured) / measured, 0) / pairs.length * 100;
+
+const modelError = (comparisons: SampleComparison[], side: 'before' | 'after'): ModelError => ({
+    latencyPct: meanAbsolutePct(comparisons.map(c => [c[side].latencyMs, c.sample.entry.hw_latency_ms])),
+    energyPct: meanAbsolutePct(comparisons.map(c => [c[side].energyMj, c.sample.entry.hw_energy_mj])),
+});
+
+// Fits the correction factors for `board` to the samples. The cycle factor is fitted to latency first;
+// the energy factors are then fitted with static energy taken over the corrected latency, so the saved
+// profile reproduces the fit.
+export function calibrateBoard(board: Board, samples: CalibrationSample[]): CalibrationResult {
+    if (samples.length === 0) throw new CalibrationError('Pair at least one benchmark with an instruction mix.');
+    const estimates = samples.map(sample => estimateStatistical(sample.instructionMix, board.profiles[sample.profileId], true));
+    if (estimates.some(estimate => !(estimate.latencyMs > 0))) throw new CalibrationError('A paired instruction mix is empty; the model predicts no work for it.');
+
+    const cycles = samples.reduce((total, s, i) => total + estimates[i].latencyMs * s.entry.hw_latency_ms, 0)
+        / estimates.reduce((total, e) => total + e.latencyMs ** 2, 0);
+    const energy = fitEnergy(samples.map((sample, i) => ({
+        dynamic: estimates[i].dynamicEnergyMj,
+        static: (estimates[i].totalEnergyMj - estimates[i].dynamicEnergyMj) * cycles,
+        measured: sample.entry.hw_energy_mj,
+    })));
+    if (energy.dynamic === 0 && energy.static === 0) throw new CalibrationError('The model predicts no energy for the paired mixes.');
+    const factors: CorrectionFactors = { cycles, dynamicEnergy: energy.dynamic, staticPower: energy.static };
+
+    const mnemonics = [...new Set([
+        ...ISA_INSTRUCTIONS.filter(instr => instr.defaultMixCount !== undefined).map(instr => instr.mnemonic),
+        ...samples.flatMap(sample => Object.keys(sample.instructionMix).filter(instr => ISA[instr])),
+    ])];
+    const profiles = Object.fromEntries(Object.entries(board.profiles).map(([id, profile]: [string, DVFSProfile]) =>
+        [id, applyCorrections(profile, factors, mnemonics)])) as Board['profiles'];
+    const corrected: Board = { ...board, profiles };
+
+    const comparisons: SampleComparison[] = samples.map((sample, i) => {
+        const after = estimateStatistical(sample.instructionMix, profiles[sample.profileId], true);
+        return {
+            sample,
+            before: { latencyMs: estimates[i].latencyMs, energyMj: estimates[i].totalEnergyMj },
+            after: { latencyMs: after.latencyMs, energyMj: after.totalEnergyMj },
+        };
+    });
+    return {
+        factors,
+        energyFit: energy.shared ? 'shared' : 'separate',
+        board: corrected,
+        comparisons,
+        errorBefore: modelError(comparisons, 'before'),
+        errorAfter: modelError(comparisons, 'after'),
+    };
+}
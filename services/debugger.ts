@@ -0,0 +1,83 @@
+// Debug targets of the pipeline simulator: line breakpoints, register conditions and memory watchpoints,
+// checked against every hart's state before and after each cycle.
+import { abiName, isFpReg, FP_REG_BASE } from './assembler';
+import { exLatency, CAUSE_BREAKPOINT, TRAP_CAUSE_NAMES } from './pipelineEngine';
+import type { CoreState, PipelineStageName, Program } from './pipelineEngine';
+
+export type ComparisonOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+export const COMPARISON_OPS: ComparisonOp[] = ['==', '!=', '<', '<=', '>', '>='];
+
+export type RegisterCondition = { id: number; reg: number; op: ComparisonOp; value: number };
+export type WatchKind = 'read' | 'write' | 'access';
+export type Watchpoint = { id: number; address: number; kind: WatchKind };
+
+export type DebugTargets = {
+    breakpoints: number[][]; // Per hart: instruction indices that pause when they enter EX
+    conditions: RegisterCondition[]; // Checked on every hart
+    watchpoints: Watchpoint[]; // Word addresses in shared data memory
+};
+
+// Why the run paused, and the instruction (and the stage holding it) to highlight.
+export type BreakEvent = { core: number; stage: PipelineStageName; pc: number | null; reason: string };
+
+const compare = (a: number, op: ComparisonOp, b: number): boolean => {
+    switch (op) {
+        case '==': return a === b;
+        case '!=': return a !== b;
+        case '<': return a < b;
+        case '<=': return a <= b;
+        case '>': return a > b;
+        case '>=': return a >= b;
+    }
+};
+
+const readRegister = (core: CoreState, reg: number): number =>
+    isFpReg(reg) ? core.fpRegisterFile[reg - FP_REG_BASE] : core.registerFile[reg];
+
+export const formatCondition = ({ reg, op, value }: RegisterCondition) => `${abiName(reg)} ${op} ${value}`;
+export const formatWordAddress = (address: number) => `0x${address.toString(16).padStart(8, '0')}`;
+
+export const toggleBreakpointAt = (breakpoints: number[][], core: number, pc: number): number[][] =>
+    breakpoints.map((pcs, i) => i !== core ? pcs : pcs.includes(pc) ? pcs.filter(p => p !== pc) : [...pcs, pc]);
+
+// Compares hart states across one cycle and returns the first debug target that fired. Line breakpoints
+// fire as the instruction enters EX, so wrong-path fetches that get flushed never trigger them. Register
+// conditions fire when they become true rather than while they stay true.
+export const checkBreakpoints = (before: CoreState[], after: CoreState[], programs: Program[], debug: DebugTargets): BreakEvent | null => {
+    for (let i = 0; i < after.length; i++) {
+        const prev = before[i];
+        const next = after[i];
+        if (prev === next) continue;
+
+        // ebreak pauses the run as it would under a debugger, as does a trap that halts the hart. A trapping
+        // instruction never reaches EX, so its own line breakpoint is checked here.
+        const trap = next.lastTrap;
+        if (trap && trap !== prev.lastTrap && (trap.cause === CAUSE_BREAKPOINT || !trap.handled || debug.breakpoints[i]?.includes(trap.pc))) {
+            const halted = trap.handled ? '' : ' (no handler in mtvec, hart halted)';
+            return { core: i, stage: 'ex', pc: trap.pc, reason: `${TRAP_CAUSE_NAMES[trap.cause]} at ${formatWordAddress(trap.pc * 4)}${halted}` };
+        }
+
+        const ex = next.pipeline.ex;
+        const enteredEx = ex !== prev.pipeline.ex && ex.instr !== null && ex.cyclesRemaining === exLatency(ex.instr.op);
+        if (enteredEx && ex.pc !== null && debug.breakpoints[i]?.includes(ex.pc)) {
+            const instr = programs[i].instructions[ex.pc];
+            return { core: i, stage: 'ex', pc: ex.pc, reason: `Breakpoint at line ${instr?.line ?? '?'}: '${instr?.source ?? ex.instr?.raw}'` };
+        }
+
+        for (const condition of debug.conditions) {
+            const wasTrue = compare(readRegister(prev, condition.reg), condition.op, condition.value);
+            const isTrue = compare(readRegister(next, condition.reg), condition.op, condition.value);
+            if (!wasTrue && isTrue) {
+                const writer = next.lastWrittenReg === condition.reg ? next.pipeline.wb.pc : null;
+                return { core: i, stage: 'wb', pc: writer, reason: `Condition ${formatCondition(condition)} became true (${abiName(condition.reg)} = ${readRegister(next, condition.reg)})` };
+            }
+        }
+
+        const access = next.memoryAccess;
+        const watch = access && debug.watchpoints.find(w => w.address === access.address && (w.kind === 'access' || w.kind === access.type));
+        if (access && watch) {
+            return { core: i, stage: 'mem', pc: next.pipeline.mem.pc, reason: `Watchpoint: ${access.type} of ${formatWordAddress(access.address)}` };
+        }
+    }
+    return null;
+};
@@ -0,0 +1,101 @@
+// Disassembler for flat RV32IMF + custom NN binaries, the inverse of services/encoder.ts.
+import { FP_REG_BASE, regName } from './assembler';
+import { ISA_INSTRUCTIONS, ROUNDING_MODES, csrName, encodingPattern, usesFpRegister } from './isa';
+import type { IsaInstruction, RegisterOperand } from './isa';
+import { TEXT_BASE } from './encoder';
+
+export interface DisassembledInstruction {
+    address: number;
+    word: number;
+    op: string | null; // null when the word does not decode
+    text: string; // Assembly text; branch/jump targets are written as labels when they land inside the image
+    target?: number; // Absolute byte address of a branch/jump target
+}
+
+const ROUNDING_MODE_NAMES = Object.fromEntries(Object.entries(ROUNDING_MODES).map(([name, value]) => [value, name]));
+
+const signExtend = (value: number, bits: number) => (value << (32 - bits)) >> (32 - bits);
+
+const matches = ({ encoding }: IsaInstruction, word: number): boolean => {
+    const { mask, match } = encodingPattern(encoding);
+    return ((word & mask) >>> 0) === match;
+};
+
+export function disassembleWord(word: number, address: number = TEXT_BASE): DisassembledInstruction {
+    word = word >>> 0;
+    const definition = ISA_INSTRUCTIONS.find(instr => matches(instr, word));
+    if (!definition) return { address, word, op: null, text: `.word 0x${word.toString(16).padStart(8, '0')}` };
+
+    const op = definition.mnemonic;
+    const fields: Record<RegisterOperand, number> = {
+        rd: (word >>> 7) & 0x1F, rs1: (word >>> 15) & 0x1F, rs2: (word >>> 20) & 0x1F, rs3: word >>> 27,
+    };
+    const r = (operand: RegisterOperand) => regName(usesFpRegister(op, operand) ? FP_REG_BASE + fields[operand] : fields[operand]);
+    const funct3 = (word >>> 12) & 0x7;
+    const encoding = definition.encoding;
+    const rm = (encoding.type === 'R' || encoding.type === 'R4') && encoding.funct3 === 'rm' && funct3 !== ROUNDING_MODES.dyn
+        ? `, ${ROUNDING_MODE_NAMES[funct3] ?? funct3}` : '';
+    const result = (text: string, target?: number): DisassembledInstruction => ({ address, word, op, text, target });
+
+    switch (definition.format) {
+        case 'NONE': return result(op);
+        case 'R': return result(`${op} ${r('rd')}, ${r('rs1')}, ${r('rs2')}${rm}`);
+        case 'MAC': return result(`${op} ${r('rd')}, ${r('rs1')}, ${r('rs2')}`);
+        case 'R4': return result(`${op} ${r('rd')}, ${r('rs1')}, ${r('rs2')}, ${r('rs3')}${rm}`);
+        case 'UNARY': return result(`${op} ${r('rd')}, ${r('rs1')}${rm}`);
+        case 'I': {
+            const imm = encoding.type === 'I' && encoding.funct7 !== undefined ? fields.rs2 : signExtend(word >>> 20, 12);
+            return result(`${op} ${r('rd')}, ${r('rs1')}, ${imm}`);
+        }
+        case 'LOAD':
+        case 'JALR':
+            return result(`${op} ${r('rd')}, ${signExtend(word >>> 20, 12)}(${r('rs1')})`);
+        case 'STORE':
+            return result(`${op} ${r('rs2')}, ${signExtend(((word >>> 25) << 5) | fields.rd, 12)}(${r('rs1')})`);
+        case 'CSR': return result(`${op} ${r('rd')}, ${csrName(word >>> 20)}, ${r('rs1')}`);
+        case 'CSRI': return result(`${op} ${r('rd')}, ${csrName(word >>> 20)}, ${fields.rs1}`);
+        case 'U':
+            return result(`${op} ${r('rd')}, 0x${(word >>> 12).toString(16)}`);
+        case 'BRANCH': {
+            const offset = signExtend((((word >>> 31) & 1) << 12) | (((word >>> 7) & 1) << 11) | (((word >>> 25) & 0x3F) << 5) | (((word >>> 8) & 0xF) << 1), 13);
+            return result(`${op} ${r('rs1')}, ${r('rs2')}`, (address + offset) >>> 0);
+        }
+        case 'JAL': {
+            const offset = signExtend((((word >>> 31) & 1) << 20) | (((word >>> 12) & 0xFF) << 12) | (((word >>> 20) & 1) << 11) | (((word >>> 21) & 0x3FF) << 1), 21);
+            return result(`${op} ${r('rd')}`, (address + offset) >>> 0);
+        }
+    }
+}
+
+const labelFor = (address: number) => `L_${address.toString(16).padStart(4, '0')}`;
+
+// Decodes a little-endian image. A trailing partial word is ignored. Targets named in `symbols`
+// (address -> name) use that name instead of a generated label.
+export function disassemble(bytes: Uint8Array, baseAddress: number = TEXT_BASE, symbols: Record<number, string> = {}): DisassembledInstruction[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const lines: DisassembledInstruction[] = [];
+    for (let offset = 0; offset + 4 <= bytes.length; offset += 4) {
+        lines.push(disassembleWord(view.getUint32(offset, true), (baseAddress + offset) >>> 0));
+    }
+    // Targets inside the image become labels; the rest stay as raw byte offsets.
+    const end = baseAddress + lines.length * 4;
+    return lines.map(line => {
+        if (line.target === undefined) return line;
+        const inImage = line.target >= baseAddress && line.target < end && line.target % 4 === baseAddress % 4;
+        const operand = inImage ? symbols[line.target] ?? labelFor(line.target) : String(line.target - line.address);
+        return { ...line, text: `${line.text}, ${operand}` };
+    });
+}
+
+// Re-assemblable source for the pipeline visualizer, with each word's address and encoding as a comment.
+// Every address in `symbols` gets its name as a label, branch target or not.
+export function toAssemblySource(lines: DisassembledInstruction[], symbols: Record<number, string> = {}): string {
+    const targets = new Set(lines.filter(line => line.target !== undefined).map(line => line.target));
+    return lines.map(line => {
+        const name = symbols[line.address] ?? (targets.has(line.address) ? labelFor(line.address) : undefined);
+        const label = name !== undefined ? `${name}:\n` : '';
+        // Undecodable words become nops so that every later instruction keeps its address.
+        const text = line.op === null ? `nop # ${line.text} (undecodable)` : line.text;
+        return `${label}${text.padEnd(32)} # ${line.address.toString(16).padStart(4, '0')}: ${(line.word >>> 0).toString(16).padStart(8, '0')}`;
+    }).join('\n') + '\n';
+}
@@ -0,0 +1,58 @@
+// Triggers a browser download of in-memory data.
+export function downloadFile(data: BlobPart, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([data], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+// Serialises a rendered SVG element as a standalone document.
+export function serializeSvg(svg: SVGSVGElement): string {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+export function downloadSvg(svg: SVGSVGElement, fileName: string) {
+    downloadFile(serializeSvg(svg), fileName, 'image/svg+xml');
+}
+
+// Rasterises an SVG element at `scale` times its size. The SVG must not reference external resources,
+// or the browser taints the canvas and refuses to export it.
+export function downloadSvgAsPng(svg: SVGSVGElement, fileName: string, scale = 2): Promise<void> {
+    const width = svg.width.baseVal.value;
+    const height = svg.height.baseVal.value;
+    const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }));
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(width * scale);
+            canvas.height = Math.ceil(height * scale);
+            const context = canvas.getContext('2d');
+            if (!context) {
+                URL.revokeObjectURL(url);
+                reject(new Error('Canvas 2D context is not available.'));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, width, height);
+            URL.revokeObjectURL(url);
+            canvas.toBlob(blob => {
+                if (!blob) {
+                    reject(new Error('PNG encoding failed.'));
+                    return;
+                }
+                downloadFile(blob, fileName, 'image/png');
+                resolve();
+            }, 'image/png');
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('The SVG could not be rendered.'));
+        };
+        image.src = url;
+    });
+}
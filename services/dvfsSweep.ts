@@ -0,0 +1,93 @@
+// Design-space sweep over operating points: every board's DVFS profiles plus frequencies interpolated
+// between adjacent profiles, each evaluated on the same workload. The latency/energy Pareto frontier and
+// the best point under a latency deadline or energy budget are picked from the sweep.
+import { PROFILE_IDS, PROFILE_PARAMETERS, DEFAULT_ENTRY } from './boards';
+import type { Board, DVFSProfile, ProfileId } from './boards';
+import { estimateStatistical, hwCyclesPerInstr, hwEnergyPerCycle } from './emulationModel';
+
+export interface OperatingPoint {
+    boardId: string;
+    boardName: string;
+    profileId: ProfileId | null; // null for a frequency interpolated between two profiles
+    label: string;
+    clockMhz: number; // RISC-V core clock
+    latencyMs: number;
+    energyMj: number;
+    pareto: boolean;
+}
+
+export type SweepConstraint =
+    | { kind: 'deadline'; latencyMs: number } // Least energy that meets the deadline
+    | { kind: 'budget'; energyMj: number }; // Lowest latency within the energy budget
+
+export const MAX_INTERPOLATION_STEPS = 8;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Per-instruction table at fraction `t` of the way from `a` to `b`. An instruction only one side lists is
+// interpolated against the value the other side falls back to, so the end points evaluate unchanged.
+const interpolateTable = (
+    a: DVFSProfile, b: DVFSProfile, t: number, table: 'cycles_hw' | 'energy_per_cycle_hw',
+    resolve: (profile: DVFSProfile, instr: string) => number,
+): Record<string, number> => {
+    const value = (profile: DVFSProfile, instr: string) =>
+        instr === DEFAULT_ENTRY ? profile[table][DEFAULT_ENTRY] ?? resolve(profile, instr) : resolve(profile, instr);
+    const keys = new Set([...Object.keys(a[table]), ...Object.keys(b[table])]);
+    return Object.fromEntries([...keys].map(instr => [instr, lerp(value(a, instr), value(b, instr), t)]));
+};
+
+// Linear interpolation of every profile parameter between two DVFS profiles of one board.
+export function interpolateProfile(a: DVFSProfile, b: DVFSProfile, t: number): DVFSProfile {
+    const scalars = Object.fromEntries(PROFILE_PARAMETERS.map(({ key }) => [key, lerp(a[key] as number, b[key] as number, t)]));
+    const profile = {
+        ...a,
+        ...scalars,
+        cycles_hw: interpolateTable(a, b, t, 'cycles_hw', hwCyclesPerInstr),
+        energy_per_cycle_hw: interpolateTable(a, b, t, 'energy_per_cycle_hw', hwEnergyPerCycle),
+    } as DVFSProfile;
+    return { ...profile, name: `${Math.round(profile.riscv_clk_mhz)} MHz` };
+}
+
+// Flags the points that no other point beats on both latency and energy. Identical points are all kept.
+export function markParetoFrontier(points: OperatingPoint[]): OperatingPoint[] {
+    return points.map(point => ({
+        ...point,
+        pareto: !points.some(other =>
+            other.latencyMs <= point.latencyMs && other.energyMj <= point.energyMj
+            && (other.latencyMs < point.latencyMs || other.energyMj < point.energyMj)),
+    }));
+}
+
+// Custom-core latency and energy of `instructionMix` at every operating point of every board, with
+// `steps` interpolated frequencies between each pair of adjacent profiles.
+export function sweepOperatingPoints(instructionMix: Record<string, number>, boards: Record<string, Board>, steps: number): OperatingPoint[] {
+    const points: OperatingPoint[] = [];
+    Object.entries(boards).forEach(([boardId, board]) => {
+        const evaluate = (profile: DVFSProfile, profileId: ProfileId | null) => {
+            const { latencyMs, totalEnergyMj } = estimateStatistical(instructionMix, profile, true);
+            points.push({
+                boardId, boardName: board.name, profileId, label: profile.name, clockMhz: profile.riscv_clk_mhz,
+                latencyMs, energyMj: totalEnergyMj, pareto: false,
+            });
+        };
+        const ordered = [...PROFILE_IDS].sort((a, b) => board.profiles[a].riscv_clk_mhz - board.profiles[b].riscv_clk_mhz);
+        ordered.forEach((id, i) => {
+            evaluate(board.profiles[id], id);
+            const next = ordered[i + 1];
+            if (next === undefined || board.profiles[next].riscv_clk_mhz === board.profiles[id].riscv_clk_mhz) return;
+            for (let step = 1; step <= steps; step++) {
+                evaluate(interpolateProfile(board.profiles[id], board.profiles[next], step / (steps + 1)), null);
+            }
+        });
+    });
+    return markParetoFrontier(points);
+}
+
+// The best point that satisfies the constraint, or null when none does. It always lies on the frontier.
+export function bestOperatingPoint(points: OperatingPoint[], constraint: SweepConstraint): OperatingPoint | null {
+    const [feasible, cost, tieBreak] = constraint.kind === 'deadline'
+        ? [(p: OperatingPoint) => p.latencyMs <= constraint.latencyMs, (p: OperatingPoint) => p.energyMj, (p: OperatingPoint) => p.latencyMs]
+        : [(p: OperatingPoint) => p.energyMj <= constraint.energyMj, (p: OperatingPoint) => p.latencyMs, (p: OperatingPoint) => p.energyMj];
+    return points.filter(feasible).reduce<OperatingPoint | null>((best, point) =>
+        best === null || cost(point) < cost(best) || (cost(point) === cost(best) && tieBreak(point) < tieBreak(best)) ? point : best, null);
+}
@@ -0,0 +1,206 @@
+// ELF32 loader for RISC-V executables linked for the SoC memory map (e.g. by riscv64-unknown-elf-gcc -T linker.ld).
+// Executable sections become the instruction listing; the other allocated sections are placed in data memory
+// at their linked addresses, and the symbol table supplies label names.
+import { disassemble, toAssemblySource } from './disassembler';
+import type { DisassembledInstruction } from './disassembler';
+import { TEXT_BASE } from './encoder';
+
+// Instruction memory as documented on the memory map page.
+export const TEXT_LIMIT = 0x00010000;
+
+export type ElfSectionKind = 'text' | 'data' | 'bss';
+
+export interface ElfSection {
+    name: string;
+    kind: ElfSectionKind;
+    address: number;
+    size: number;
+    bytes: Uint8Array; // Empty for .bss-like sections, which the loader zero-fills
+}
+
+export interface ElfSymbol {
+    name: string;
+    address: number;
+    size: number;
+    kind: 'func' | 'object' | 'notype';
+}
+
+export interface ElfImage {
+    entry: number;
+    sections: ElfSection[]; // Allocated sections only, in address order
+    symbols: ElfSymbol[];
+}
+
+export class ElfError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ElfError';
+    }
+}
+
+const ELF_MAGIC = [0x7F, 0x45, 0x4C, 0x46];
+const ELFCLASS32 = 1;
+const ELFDATA2LSB = 1;
+const ET_EXEC = 2;
+const EM_RISCV = 243;
+const EF_RISCV_RVC = 0x1;
+const SHT_PROGBITS = 1;
+const SHT_SYMTAB = 2;
+const SHT_NOBITS = 8;
+const SHF_ALLOC = 0x2;
+const SHF_EXECINSTR = 0x4;
+const STT_NOTYPE = 0;
+const STT_OBJECT = 1;
+const STT_FUNC = 2;
+const SHN_UNDEF = 0;
+const SHN_LORESERVE = 0xFF00;
+
+const SYMBOL_KINDS: Record<number, ElfSymbol['kind']> = { [STT_NOTYPE]: 'notype', [STT_OBJECT]: 'object', [STT_FUNC]: 'func' };
+
+// Names the assembler accepts as labels; this also drops the $x/$d mapping symbols.
+const LABEL_NAME = /^[A-Za-z_.][\w.$]*$/;
+
+export const isElf = (bytes: Uint8Array): boolean => ELF_MAGIC.every((byte, i) => bytes[i] === byte);
+
+const hex = (value: number) => `0x${(value >>> 0).toString(16).padStart(8, '0')}`;
+
+interface SectionHeader {
+    name: number;
+    type: number;
+    flags: number;
+    address: number;
+    offset: number;
+    size: number;
+    link: number;
+}
+
+export function parseElf32(bytes: Uint8Array): ElfImage {
+    if (!isElf(bytes)) throw new ElfError('Not an ELF file.');
+    if (bytes.length < 52) throw new ElfError('Truncated ELF header.');
+    if (bytes[4] !== ELFCLASS32) throw new ElfError('Only 32-bit (ELFCLASS32) executables are supported; compile with -march=rv32imf -mabi=ilp32f.');
+    if (bytes[5] !== ELFDATA2LSB) throw new ElfError('Only little-endian executables are supported.');
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const u16 = (offset: number) => view.getUint16(offset, true);
+    const u32 = (offset: number) => view.getUint32(offset, true);
+    const inFile = (offset: number, size: number) => offset + size <= bytes.length;
+
+    if (u16(18) !== EM_RISCV) throw new ElfError(`Machine type ${u16(18)} is not RISC-V.`);
+    if (u16(16) !== ET_EXEC) throw new ElfError('Not an executable; link the object file (e.g. with -T linker.ld) before loading it.');
+    if (u32(36) & EF_RISCV_RVC) throw new ElfError('The executable uses compressed (C extension) instructions, which the core does not implement; compile without the C extension.');
+
+    const entry = u32(24);
+    const shoff = u32(32);
+    const shentsize = u16(46);
+    const shnum = u16(48);
+    const shstrndx = u16(50);
+    if (shoff === 0 || shnum === 0) throw new ElfError('The executable has no section headers.');
+    if (shentsize < 40 || !inFile(shoff, shnum * shentsize)) throw new ElfError('Truncated section header table.');
+
+    const headers: SectionHeader[] = Array.from({ length: shnum }, (_, i) => {
+        const base = shoff + i * shentsize;
+        return {
+            name: u32(base), type: u32(base + 4), flags: u32(base + 8), address: u32(base + 12),
+            offset: u32(base + 16), size: u32(base + 20), link: u32(base + 24),
+        };
+    });
+    const contents = (header: SectionHeader): Uint8Array => {
+        if (header.type === SHT_NOBITS) return new Uint8Array(0);
+        if (!inFile(header.offset, header.size)) throw new ElfError('A section extends past the end of the file.');
+        return bytes.subarray(header.offset, header.offset + header.size);
+    };
+    const stringAt = (table: Uint8Array, offset: number): string => {
+        let end = offset;
+        while (end < table.length && table[end] !== 0) end++;
+        return new TextDecoder().decode(table.subarray(offset, end));
+    };
+    const sectionNames = shstrndx < shnum ? contents(headers[shstrndx]) : new Uint8Array(0);
+
+    const sections: ElfSection[] = headers
+        .filter(header => header.flags & SHF_ALLOC && header.size > 0 && (header.type === SHT_PROGBITS || header.type === SHT_NOBITS))
+        .map(header => ({
+            name: stringAt(sectionNames, header.name),
+            kind: header.flags & SHF_EXECINSTR ? 'text' : header.type === SHT_NOBITS ? 'bss' : 'data',
+            address: header.address,
+            size: header.size,
+            bytes: contents(header),
+        } as ElfSection))
+        .sort((a, b) => a.address - b.address);
+
+    const text = sections.filter(section => section.kind === 'text');
+    if (text.length === 0) throw new ElfError('The executable has no code sections.');
+    text.forEach(section => {
+        if (section.address < TEXT_BASE || section.address + section.size > TEXT_LIMIT) {
+            throw new ElfError(`Section ${section.name} at ${hex(section.address)} lies outside instruction memory (${hex(TEXT_BASE)}-${hex(TEXT_LIMIT - 1)}).`);
+        }
+        if (section.address % 4 !== 0) throw new ElfError(`Section ${section.name} is not word aligned.`);
+    });
+    if (entry % 4 !== 0 || !text.some(section => entry >= section.address && entry < section.address + section.size)) {
+        throw new ElfError(`Entry point ${hex(entry)} is not inside a code section.`);
+    }
+
+    const symbols: ElfSymbol[] = [];
+    headers.filter(header => header.type === SHT_SYMTAB).forEach(header => {
+        const table = contents(header);
+        const names = header.link < shnum ? contents(headers[header.link]) : new Uint8Array(0);
+        const symbolView = new DataView(table.buffer, table.byteOffset, table.byteLength);
+        for (let offset = 16; offset + 16 <= table.length; offset += 16) { // Entry 0 is the reserved null symbol
+            const kind = SYMBOL_KINDS[symbolView.getUint8(offset + 12) & 0xF];
+            const shndx = symbolView.getUint16(offset + 14, true);
+            const name = stringAt(names, symbolView.getUint32(offset, true));
+            if (kind === undefined || shndx === SHN_UNDEF || shndx >= SHN_LORESERVE || !name) continue;
+            symbols.push({ name, address: symbolView.getUint32(offset + 4, true), size: symbolView.getUint32(offset + 8, true), kind });
+        }
+    });
+
+    return { entry, sections, symbols };
+}
+
+// One label per code address. Functions win over other symbols at the same address, and names the
+// assembler cannot parse or that are already taken are skipped.
+export function codeLabels(image: ElfImage): Record<number, string> {
+    const inText = (address: number) => image.sections.some(s => s.kind === 'text' && address >= s.address && address < s.address + s.size);
+    const labels: Record<number, string> = {};
+    const used = new Set<string>();
+    [...image.symbols]
+        .sort((a, b) => (a.kind === 'func' ? 0 : 1) - (b.kind === 'func' ? 0 : 1))
+        .forEach(({ name, address }) => {
+            if (!inText(address) || labels[address] !== undefined || used.has(name) || !LABEL_NAME.test(name)) return;
+            labels[address] = name;
+            used.add(name);
+        });
+    return labels;
+}
+
+// Instruction memory from TEXT_BASE to the end of the last code section. Gaps between sections are
+// zero-filled so that every instruction keeps its linked address.
+export function textImage(image: ElfImage): Uint8Array {
+    const text = image.sections.filter(section => section.kind === 'text');
+    const end = Math.max(...text.map(section => section.address + section.size));
+    const memory = new Uint8Array(end - TEXT_BASE);
+    text.forEach(section => memory.set(section.bytes, section.address - TEXT_BASE));
+    return memory;
+}
+
+export function disassembleElf(image: ElfImage): DisassembledInstruction[] {
+    return disassemble(textImage(image), TEXT_BASE, codeLabels(image));
+}
+
+// Re-assemblable listing of the code, labelled from the symbol table.
+export function elfToAssembly(image: ElfImage): string {
+    return toAssemblySource(disassembleElf(image), codeLabels(image));
+}
+
+// Little-endian 32-bit words of the data sections, keyed by word address; .bss words are zero.
+export function dataWords(image: ElfImage): Record<number, number> {
+    const words: Record<number, number> = {};
+    image.sections.filter(section => section.kind !== 'text').forEach(section => {
+        for (let i = 0; i < section.size; i++) {
+            const address = section.address + i;
+            const word = (address & ~3) >>> 0;
+            const byte = section.kind === 'bss' ? 0 : section.bytes[i];
+            words[word] = ((words[word] ?? 0) | (byte << ((address & 3) * 8))) | 0;
+        }
+    });
+    return words;
+}
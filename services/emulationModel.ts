@@ -0,0 +1,104 @@
+// Performance and energy model of the Hardware Emulation dashboard. An estimate charges every instruction its
+// board-specific cycles and energy, adds cache-miss, misprediction and hazard penalties, and converts the
+// cycle total to latency and static energy at the profile's clock and static power.
+import { ISA, DEFAULT_SW_EQUIVALENT_CYCLES } from './isa';
+import type { InstructionTrace } from './trace';
+import type { DVFSProfile } from './boards';
+
+export type Estimate = {
+    baseCycles: number;
+    cachePenaltyCycles: number;
+    branchPenaltyCycles: number;
+    hazardStallCycles: number;
+    totalCycles: number;
+    latencyMs: number;
+    dynamicEnergyMj: number;
+    totalEnergyMj: number;
+};
+
+// A board's tables predate the ISA Designer, so an instruction defined there falls back to the cost given
+// with its definition. Built-in instructions a table omits take the table's default entry.
+const userDefined = (instr: string) => ISA[instr]?.userDefined ? ISA[instr] : undefined;
+
+export const hwCyclesPerInstr = (profile: DVFSProfile, instr: string): number =>
+    profile.cycles_hw[instr] ?? userDefined(instr)?.latency ?? profile.cycles_hw['default'] ?? 1;
+
+export const hwEnergyPerCycle = (profile: DVFSProfile, instr: string): number =>
+    profile.energy_per_cycle_hw[instr] ?? userDefined(instr)?.energyPerCycle ?? profile.energy_per_cycle_hw['default'] ?? 0;
+
+const finishEstimate = (
+    profile: DVFSProfile, isHw: boolean, dynamicEnergyPj: number,
+    cycles: Omit<Estimate, 'totalCycles' | 'latencyMs' | 'dynamicEnergyMj' | 'totalEnergyMj'>,
+): Estimate => {
+    const totalCycles = cycles.baseCycles + cycles.cachePenaltyCycles + cycles.branchPenaltyCycles + cycles.hazardStallCycles;
+    const clockMhz = isHw ? profile.riscv_clk_mhz : profile.arm_clk_mhz;
+    const latencyMs = (totalCycles / (clockMhz * 1e6)) * 1000;
+
+    const staticPowerMw = isHw ? profile.static_power_hw_mw : profile.static_power_sw_mw;
+    const staticEnergyMj = (staticPowerMw / 1000) * (latencyMs / 1000) * 1000;
+    const dynamicEnergyMj = dynamicEnergyPj / 1e9;
+    return { ...cycles, totalCycles, latencyMs, dynamicEnergyMj, totalEnergyMj: dynamicEnergyMj + staticEnergyMj };
+};
+
+// Statistical model: cache misses and branch mispredictions are a fixed fraction of the memory accesses and
+// branches in the mix, taken from the profile's hit rate and predictor accuracy.
+export const estimateStatistical = (instructionMix: Record<string, number>, profile: DVFSProfile, isHw: boolean): Estimate => {
+    let baseCycles = 0;
+    let dynamicEnergyPj = 0;
+    let memoryAccesses = 0;
+    let branchCount = 0;
+
+    for (const [instr, count] of Object.entries(instructionMix)) {
+        const numericCount = Number(count);
+        if (numericCount === 0) continue;
+
+        if (isHw) {
+            const cyclesPerInstr = hwCyclesPerInstr(profile, instr);
+            baseCycles += numericCount * cyclesPerInstr;
+            dynamicEnergyPj += numericCount * cyclesPerInstr * hwEnergyPerCycle(profile, instr);
+        } else {
+            baseCycles += numericCount * (ISA[instr]?.swEquivalentCycles ?? DEFAULT_SW_EQUIVALENT_CYCLES);
+        }
+
+        const format = ISA[instr]?.format;
+        if (format === 'LOAD' || format === 'STORE') {
+            memoryAccesses += numericCount;
+        }
+        if (format === 'BRANCH') {
+            branchCount += numericCount;
+        }
+    }
+
+    if (!isHw) {
+        dynamicEnergyPj = baseCycles * profile.energy_per_cycle_sw;
+    }
+
+    const cacheMisses = memoryAccesses * (1 - profile.l1_cache_hit_rate);
+    const branchMispredicts = branchCount * (1 - profile.branch_predictor_accuracy);
+    return finishEstimate(profile, isHw, dynamicEnergyPj, {
+        baseCycles,
+        cachePenaltyCycles: cacheMisses * profile.l1_miss_penalty_cycles,
+        branchPenaltyCycles: branchMispredicts * profile.branch_mispredict_penalty_cycles,
+        hazardStallCycles: 0,
+    });
+};
+
+// Trace-driven model for the custom core: the same per-instruction costs, but penalties are charged for the
+// misses, mispredictions and data-hazard stalls the trace actually recorded. A log without data addresses
+// falls back to the profile's hit rate for the data cache.
+export const estimateTraced = ({ counts, events }: InstructionTrace, profile: DVFSProfile): Estimate => {
+    let baseCycles = 0;
+    let dynamicEnergyPj = 0;
+    for (const [instr, count] of Object.entries(counts)) {
+        const cyclesPerInstr = hwCyclesPerInstr(profile, instr);
+        baseCycles += count * cyclesPerInstr;
+        dynamicEnergyPj += count * cyclesPerInstr * hwEnergyPerCycle(profile, instr);
+    }
+    const dcacheMisses = events.dcacheMisses ?? events.memoryAccesses * (1 - profile.l1_cache_hit_rate);
+    return finishEstimate(profile, true, dynamicEnergyPj, {
+        baseCycles,
+        cachePenaltyCycles: (events.icacheMisses + dcacheMisses) * profile.l1_miss_penalty_cycles,
+        branchPenaltyCycles: events.mispredictions * profile.branch_mispredict_penalty_cycles,
+        hazardStallCycles: events.loadUseStalls + events.rawStalls,
+    });
+};
@@ -0,0 +1,163 @@
+// Binary encoder for RV32IMF (with Zicsr) plus the custom NN extension. Consumes the assembler front end's
+// base instructions and produces little-endian 32-bit machine words loaded at TEXT_BASE.
+import { parseAssembly } from './assembler';
+import type { Instruction, AssemblyError } from './assembler';
+import { ISA, ROUNDING_MODES } from './isa';
+
+export const TEXT_BASE = 0x00000000;
+
+export interface EncodedProgram {
+    instructions: Instruction[];
+    words: number[]; // Unsigned 32-bit machine words, one per instruction
+    errors: AssemblyError[];
+}
+
+export class EncodingError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EncodingError';
+    }
+}
+
+const reg = (index?: number): number => (index ?? 0) & 0x1F;
+
+const checkRange = (op: string, value: number, min: number, max: number, what: string) => {
+    if (value < min || value > max) throw new EncodingError(`${what} ${value} out of range for '${op}' (${min}..${max}).`);
+};
+
+const roundingMode = (instr: Instruction): number => {
+    if (!instr.rm) return ROUNDING_MODES.dyn;
+    const rm = ROUNDING_MODES[instr.rm];
+    if (rm === undefined) throw new EncodingError(`Unknown rounding mode '${instr.rm}'.`);
+    return rm;
+};
+
+// Byte offset from this instruction to its branch/jump target.
+const targetOffset = (instr: Instruction, labels: Record<string, number>): number => {
+    const target = instr.target ?? '0';
+    if (labels[target] !== undefined) return (labels[target] - instr.pc) * 4;
+    const offset = Number(target);
+    if (Number.isNaN(offset)) throw new EncodingError(`Undefined label '${target}'.`);
+    return offset;
+};
+
+export function encodeInstruction(instr: Instruction, labels: Record<string, number>): number {
+    const { op } = instr;
+    const definition = ISA[op];
+    if (!definition) throw new EncodingError(`No encoding for '${op}'.`);
+    const encoding = definition.encoding;
+    const rd = reg(instr.rd) << 7;
+    const rs1 = reg(instr.rs1) << 15;
+    const rs2 = reg(instr.rs2) << 20;
+    const imm = instr.imm ?? 0;
+
+    switch (encoding.type) {
+        case 'FIXED':
+            return encoding.word >>> 0;
+        case 'R': {
+            const funct3 = encoding.funct3 === 'rm' ? roundingMode(instr) : encoding.funct3;
+            const src2 = encoding.rs2 !== undefined ? encoding.rs2 << 20 : rs2;
+            return ((encoding.funct7 << 25) | src2 | rs1 | (funct3 << 12) | rd | encoding.opcode) >>> 0;
+        }
+        case 'R4': {
+            const funct3 = encoding.funct3 === 'rm' ? roundingMode(instr) : encoding.funct3;
+            return ((reg(instr.rs3) << 27) | (encoding.funct2 << 25) | rs2 | rs1 | (funct3 << 12) | rd | encoding.opcode) >>> 0;
+        }
+        case 'I':
+            if (encoding.funct7 !== undefined) {
+                checkRange(op, imm, 0, 31, 'Shift amount');
+                return ((encoding.funct7 << 25) | (imm << 20) | rs1 | (encoding.funct3 << 12) | rd | encoding.opcode) >>> 0;
+            }
+            checkRange(op, imm, -2048, 2047, 'Immediate');
+            return (((imm & 0xFFF) << 20) | rs1 | (encoding.funct3 << 12) | rd | encoding.opcode) >>> 0;
+        case 'CSR': {
+            const csr = instr.csr ?? 0;
+            checkRange(op, csr, 0, 0xFFF, 'CSR address');
+            // The immediate forms carry their 5-bit source in the rs1 field.
+            if (definition.format === 'CSRI') checkRange(op, imm, 0, 31, 'Immediate');
+            const source = definition.format === 'CSRI' ? imm << 15 : rs1;
+            return ((csr << 20) | source | (encoding.funct3 << 12) | rd | encoding.opcode) >>> 0;
+        }
+        case 'S':
+            checkRange(op, imm, -2048, 2047, 'Offset');
+            return ((((imm >> 5) & 0x7F) << 25) | rs2 | rs1 | (encoding.funct3 << 12) | ((imm & 0x1F) << 7) | encoding.opcode) >>> 0;
+        case 'B': {
+            const offset = targetOffset(instr, labels);
+            checkRange(op, offset, -4096, 4094, 'Branch offset');
+            if (offset % 2 !== 0) throw new EncodingError(`Branch offset ${offset} for '${op}' is not 2-byte aligned.`);
+            return ((((offset >> 12) & 1) << 31) | (((offset >> 5) & 0x3F) << 25) | rs2 | rs1 | (encoding.funct3 << 12) |
+                (((offset >> 1) & 0xF) << 8) | (((offset >> 11) & 1) << 7) | encoding.opcode) >>> 0;
+        }
+        case 'U':
+            checkRange(op, imm, -0x80000, 0xFFFFF, 'Immediate');
+            return (((imm & 0xFFFFF) << 12) | rd | encoding.opcode) >>> 0;
+        case 'J': {
+            const offset = targetOffset(instr, labels);
+            checkRange(op, offset, -0x100000, 0xFFFFE, 'Jump offset');
+            if (offset % 2 !== 0) throw new EncodingError(`Jump offset ${offset} for '${op}' is not 2-byte aligned.`);
+            return ((((offset >> 20) & 1) << 31) | (((offset >> 1) & 0x3FF) << 21) | (((offset >> 11) & 1) << 20) |
+                (((offset >> 12) & 0xFF) << 12) | rd | encoding.opcode) >>> 0;
+        }
+    }
+}
+
+export function assembleToMachineCode(code: string): EncodedProgram {
+    const { instructions, labels, errors } = parseAssembly(code);
+    const words: number[] = [];
+    const encodingErrors: AssemblyError[] = [];
+
+    instructions.forEach(instr => {
+        try {
+            words.push(encodeInstruction(instr, labels));
+        } catch (e) {
+            if (!(e instanceof EncodingError)) throw e;
+            encodingErrors.push({ line: instr.line, message: e.message });
+            words.push(0);
+        }
+    });
+
+    const allErrors = [...errors, ...encodingErrors].sort((a, b) => a.line - b.line);
+    return { instructions, words, errors: allErrors };
+}
+
+// Flat little-endian image, as loaded by the PYNQ overlay and LiveBenchmarking.
+export function toBinary(words: number[]): Uint8Array {
+    const bytes = new Uint8Array(words.length * 4);
+    const view = new DataView(bytes.buffer);
+    words.forEach((word, i) => view.setUint32(i * 4, word, true));
+    return bytes;
+}
+
+const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+
+const hexRecord = (address: number, type: number, data: number[]): string => {
+    const fields = [data.length, (address >> 8) & 0xFF, address & 0xFF, type, ...data];
+    const checksum = (0x100 - (fields.reduce((sum, byte) => sum + byte, 0) & 0xFF)) & 0xFF;
+    return `:${fields.map(byte => hex(byte, 2)).join('')}${hex(checksum, 2)}`;
+};
+
+// Intel HEX with 16-byte data records and extended linear address records for images above 64 KiB.
+export function toIntelHex(words: number[], baseAddress: number = TEXT_BASE): string {
+    const bytes = toBinary(words);
+    const records: string[] = [];
+    let upper = -1;
+    for (let offset = 0; offset < bytes.length; offset += 16) {
+        const address = (baseAddress + offset) >>> 0;
+        if (address >>> 16 !== upper) {
+            upper = address >>> 16;
+            records.push(hexRecord(0, 0x04, [(upper >> 8) & 0xFF, upper & 0xFF]));
+        }
+        records.push(hexRecord(address & 0xFFFF, 0x00, Array.from(bytes.subarray(offset, offset + 16))));
+    }
+    records.push(hexRecord(0, 0x01, []));
+    return records.join('\n') + '\n';
+}
+
+// One 32-bit word per line for Verilog's $readmemh, annotated with the source statement.
+export function toReadmemh(words: number[], instructions: Instruction[] = []): string {
+    return words.map((word, i) => {
+        const instr = instructions[i];
+        const comment = instr ? ` // ${hex(TEXT_BASE + i * 4, 8)}: ${instr.raw}` : '';
+        return `${hex(word, 8)}${comment}`;
+    }).join('\n') + '\n';
+}
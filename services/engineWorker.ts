@@ -0,0 +1,50 @@
+// Worker entry point of the pipeline engine; see engineWorkerClient for the page side. A job comes with the
+// page's user-defined instructions, since a worker has its own copy of the ISA registry. The job runs in
+// chunks with a progress message after each one; an abort message stops it at the next chunk boundary, and
+// the result is posted back as for a run on the page. A machine travels in its serialized form both ways.
+import { applyUserInstructions } from './isa';
+import type { CustomInstructionDefinition } from './isa';
+import { runChunked, serializeMachine, deserializeMachine, ProgramLoadError } from './pipelineEngine';
+import type { AssemblyError } from './assembler';
+import type { BootImage, Program, SimulatorConfig, StopReason } from './pipelineEngine';
+import { traceFromSimulation } from './trace';
+import type { InstructionTrace } from './trace';
+
+export type EngineJob =
+    | { kind: 'run'; machine: string; maxCycles: number }
+    | { kind: 'trace'; source: string | Program[]; name: string; boot?: BootImage; config?: SimulatorConfig };
+
+export type EngineRequest = { job: EngineJob; userInstructions: CustomInstructionDefinition[] } | { abort: true };
+
+export type SerializedRunResult = { machine: string; cycles: number; reason: StopReason };
+
+export type EngineResponse =
+    | { kind: 'progress'; cycles: number }
+    | { kind: 'done'; result: SerializedRunResult | InstructionTrace }
+    | { kind: 'load-error'; hart: number; errors: AssemblyError[] }
+    | { kind: 'error'; message: string };
+
+const controller = new AbortController();
+
+const respond = (response: EngineResponse) => postMessage(response);
+
+onmessage = async ({ data }: MessageEvent<EngineRequest>) => {
+    if ('abort' in data) {
+        controller.abort();
+        return;
+    }
+    applyUserInstructions(data.userInstructions);
+    const { job } = data;
+    const options = { signal: controller.signal, onProgress: (cycles: number) => respond({ kind: 'progress', cycles }) };
+    try {
+        if (job.kind === 'run') {
+            const { machine, cycles, reason } = await runChunked(deserializeMachine(job.machine), job.maxCycles, undefined, options);
+            respond({ kind: 'done', result: { machine: serializeMachine(machine), cycles, reason } });
+        } else {
+            respond({ kind: 'done', result: await traceFromSimulation(job.source, job.name, job.boot, job.config, options) });
+        }
+    } catch (e) {
+        if (e instanceof ProgramLoadError) respond({ kind: 'load-error', hart: e.hart, errors: e.errors });
+        else respond({ kind: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+};
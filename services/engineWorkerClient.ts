@@ -0,0 +1,69 @@
+// Runs pipeline-engine jobs in a worker (see engineWorker) instead of on the page. The semantic function of a
+// user-defined instruction is arbitrary code, so a program using one can hang inside a single cycle; on the
+// page that freezes everything, while here the worker is terminated once it stops making progress.
+import { loadUserInstructions } from './isa';
+import { serializeMachine, deserializeMachine, ProgramLoadError } from './pipelineEngine';
+import type { BootImage, ChunkedRunOptions, Machine, Program, RunResult, SimulatorConfig } from './pipelineEngine';
+import type { InstructionTrace } from './trace';
+import type { EngineJob, EngineRequest, EngineResponse, SerializedRunResult } from './engineWorker';
+
+export class EngineWorkerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EngineWorkerError';
+    }
+}
+
+// A job that goes this long without finishing a chunk of RUN_CHUNK_CYCLES cycles is taken to hang.
+export const ENGINE_STALL_TIMEOUT_MS = 5000;
+
+// Runs `job` in a new worker, forwarding its progress and aborting it with `options.signal`. Rejects with
+// ProgramLoadError if the job's source does not assemble, and with EngineWorkerError if the job throws or
+// stalls for ENGINE_STALL_TIMEOUT_MS.
+function runJob<T extends SerializedRunResult | InstructionTrace>(job: EngineJob, options: ChunkedRunOptions): Promise<T> {
+    const worker = new Worker(new URL('./engineWorker.ts', import.meta.url), { type: 'module' });
+    const post = (request: EngineRequest) => worker.postMessage(request);
+    const abort = () => post({ abort: true });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    return new Promise<T>((resolve, reject) => {
+        const watch = () => {
+            clearTimeout(timer);
+            timer = setTimeout(() => {
+                reject(new EngineWorkerError(`The simulation made no progress for ${ENGINE_STALL_TIMEOUT_MS / 1000} s, so it was stopped. A user-defined instruction may never return.`));
+            }, ENGINE_STALL_TIMEOUT_MS);
+        };
+        worker.onmessage = ({ data }: MessageEvent<EngineResponse>) => {
+            switch (data.kind) {
+                case 'progress':
+                    watch();
+                    options.onProgress?.(data.cycles);
+                    break;
+                case 'done': resolve(data.result as T); break;
+                case 'load-error': reject(new ProgramLoadError(data.hart, data.errors)); break;
+                case 'error': reject(new EngineWorkerError(data.message)); break;
+            }
+        };
+        worker.onerror = (e: ErrorEvent) => reject(new EngineWorkerError(e.message));
+        watch();
+        post({ job, userInstructions: loadUserInstructions() });
+        options.signal?.addEventListener('abort', abort);
+        if (options.signal?.aborted) abort();
+    }).finally(() => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener('abort', abort);
+        worker.terminate();
+    });
+}
+
+// runChunked in a worker: the same result, including reason 'stopped' when `options.signal` aborts the run.
+export async function runInWorker(machine: Machine, maxCycles: number, options: ChunkedRunOptions = {}): Promise<RunResult> {
+    const result = await runJob<SerializedRunResult>({ kind: 'run', machine: serializeMachine(machine), maxCycles }, options);
+    return { ...result, machine: deserializeMachine(result.machine) };
+}
+
+// traceFromSimulation in a worker.
+export function traceInWorker(
+    source: string | Program[], name: string, boot?: BootImage, config?: SimulatorConfig, options: ChunkedRunOptions = {},
+): Promise<InstructionTrace> {
+    return runJob<InstructionTrace>({ kind: 'trace', source, name, boot, config }, options);
+}
@@ -1,27 +1,27 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
+import { NN_INSTRUCTIONS } from './isa';
 
-const SYSTEM_INSTRUCTION = `You are an expert compiler backend for a custom RISC-V processor. Your task is to translate high-level C++ code for neural network operations into the custom assembly language and provide an analysis of the instruction count.
+// The custom instruction list and its pattern-replacement rules are generated from the ISA registry
+// on every request, so instructions added in the ISA Designer are offered to the model immediately.
+const buildSystemInstruction = (): string => {
+  const customInstructionList = NN_INSTRUCTIONS
+    .map((instr, i) => `${i + 1}.  ${instr.syntax} (${instr.name}: ${instr.semantics}). ${instr.description}`)
+    .join('\n');
+  const customInstructionRules = NN_INSTRUCTIONS.filter(instr => instr.compilerRule).map(instr => `- ${instr.compilerRule}`).join('\n');
+
+  return `You are an expert compiler backend for a custom RISC-V processor. Your task is to translate high-level C++ code for neural network operations into the custom assembly language and provide an analysis of the instruction count.
 
 This custom ISA includes several new instructions designed for floating-point operations:
-1.  mac rd, rs1, rs2 (Multiply-Accumulate: rd = rd + rs1 * rs2)
-2.  relu rd, rs1 (ReLU activation: rd = max(0, rs1))
-3.  conv2d.3x3 rd, rs1, rs2, rs3 (3x3 Convolution: rd = result, rs1 = input base addr, rs2 = kernel base addr, rs3 = input stride). This single instruction calculates the dot product of a 3x3 input patch and a 3x3 kernel.
-4.  dwconv.3x3 rd, rs1, rs2, rs3 (3x3 Depthwise Convolution: rd = result, rs1 = input base addr, rs2 = kernel base addr, rs3 = input stride). Performs a 3x3 depthwise convolution.
-5.  maxpool.2x2 rd, rs1, rs2 (2x2 Max Pooling: rd = result, rs1 = input base addr, rs2 = input stride). Finds the max value in a 2x2 input region, replacing a loop of comparisons.
-6.  sigmoid rd, rs1 (Sigmoid activation: rd = 1 / (1 + exp(-rs1)))
-7.  tanh rd, rs1 (Tanh activation: rd = tanh(rs1))
+${customInstructionList}
 
 RULES:
 - You must use these custom instructions where applicable to optimize the code.
 - Assume the processor has a floating-point unit (FPU). For any floating-point arithmetic not covered by the custom instructions, use standard RISC-V 'F' extension instructions (e.g., fadd.s, fmul.s, flw, fsw).
-- When you see a standard 3x3 convolution loop, you MUST replace the entire loop with a single \`conv2d.3x3\` instruction.
-- When you see a 3x3 depthwise convolution loop, you MUST replace it with a single \`dwconv.3x3\` instruction.
-- When you see a 2x2 max pooling operation, you MUST replace it with a single \`maxpool.2x2\` instruction.
-- For convolutions with kernels larger than 3x3 (e.g., 5x5), you must implement them using a loop with the 'mac' instruction for each element.
-- When you see a mathematical pattern that matches a custom instruction, you MUST replace it. For example, a C++ expression like \`1.0f / (1.0f + expf(-A[i]))\` MUST be translated to a single \`sigmoid\` instruction. Similarly, a call to \`tanhf(A[i])\` MUST be translated to a single \`tanh\` instruction.
+${customInstructionRules}
 - Provide a realistic estimate of the number of instructions it would take to implement the core logic on a standard RISC-V processor vs. our custom ISA. For the custom ISA, count each custom instruction as a single instruction.
 - Your output must be a JSON object that strictly adheres to the provided schema.`;
+};
 
 const SYSTEM_INSTRUCTION_RTL = `You are a senior RTL design engineer. Your task is to translate a high-level description into four distinct components: synthesizable SystemVerilog code, a basic SystemVerilog testbench, a conceptual text-based netlist, and a set of formal verification assertions.
 
@@ -160,7 +160,7 @@ export async function* generateAssemblyStream(cppCode: string): AsyncGenerator<s
       model: 'gemini-2.5-flash',
       contents: `Translate and analyze the following C++ code:\n\n\`\`\`cpp\n${cppCode}\n\`\`\``,
       config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
+        systemInstruction: buildSystemInstruction(),
         temperature: 0.1,
         responseMimeType: "application/json",
         responseSchema: responseSchema,
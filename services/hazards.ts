@@ -0,0 +1,155 @@
+// Hazard analysis of one hart's pipeline state for the visualizer: the most important hazard as a status
+// line, and the forwarding path to highlight.
+import { regName, CONTROL_OPS } from './assembler';
+import { readsReg, writesReg, readsUnavailableOperand, isXuBlocked, LOAD_OPS, TRAP_CAUSE_NAMES } from './pipelineEngine';
+import type { CoreState, PipelineConfig, PipelineStageName } from './pipelineEngine';
+import { formatWordAddress } from './debugger';
+
+export type ForwardingPath = { from: PipelineStageName; to: PipelineStageName; reg: number };
+
+// Describes the most important hazard in the current pipeline state, for the status line and highlights.
+export const analyzeHazards = (core: CoreState, pipelineConfig: PipelineConfig): { hazardMessage: string; forwardingPath: ForwardingPath | null } => {
+    const { pipeline } = core;
+    const { forwarding, branchResolution } = pipelineConfig;
+    const xu_instr = pipeline.xu.instr;
+    const xuWorking = xu_instr !== null && (pipeline.xu.cyclesRemaining ?? 1) > 1;
+    const id_instr = pipeline.id.isFlush ? null : pipeline.id.instr;
+    const ex_instr = pipeline.ex.instr;
+    const mem_instr = pipeline.mem.instr;
+
+    const idReadsReg = (reg?: number) => readsReg(id_instr, reg);
+
+    // Structural Hazard: the other hart holds the shared NN accelerator
+    if (core.waitingForAccelerator && id_instr) {
+        return {
+            hazardMessage: `CONTENTION: '${id_instr.raw}' waits in ID for the shared NN accelerator.`,
+            forwardingPath: null,
+        };
+    }
+
+    // Structural Hazard: an L1 miss is being refilled
+    if (mem_instr && (pipeline.mem.missCyclesRemaining ?? 0) > 0) {
+        const remaining = pipeline.mem.missCyclesRemaining ?? 0;
+        return {
+            hazardMessage: `CACHE MISS: '${mem_instr.raw}' waits ${remaining} more cycle${remaining > 1 ? 's' : ''} in MEM for the D-cache refill. Pipeline stalled.`,
+            forwardingPath: null,
+        };
+    }
+    if (pipeline.if.instr && (pipeline.if.missCyclesRemaining ?? 0) > 0) {
+        const remaining = pipeline.if.missCyclesRemaining ?? 0;
+        return {
+            hazardMessage: `CACHE MISS: fetch of '${pipeline.if.instr.raw}' waits ${remaining} more cycle${remaining > 1 ? 's' : ''} for the I-cache refill.`,
+            forwardingPath: null,
+        };
+    }
+
+    // Structural Hazard: a multi-cycle custom instruction is still occupying EX
+    if (ex_instr && (pipeline.ex.cyclesRemaining ?? 1) > 1) {
+        const remaining = (pipeline.ex.cyclesRemaining ?? 1) - 1;
+        return {
+            hazardMessage: `STRUCTURAL HAZARD: '${ex_instr.raw}' occupies EX for ${remaining} more cycle${remaining > 1 ? 's' : ''}. Stall required.`,
+            forwardingPath: null,
+        };
+    }
+
+    // Structural Hazard: the custom unit finishes and takes the MEM port from EX
+    if (xu_instr && !xuWorking && ex_instr) {
+        return {
+            hazardMessage: `STRUCTURAL HAZARD: '${xu_instr.raw}' leaves the custom unit and takes the MEM port; '${ex_instr.raw}' waits in EX.`,
+            forwardingPath: null,
+        };
+    }
+
+    // Split EX: the instruction in ID depends on, or needs, the busy custom unit
+    if (xu_instr && xuWorking && isXuBlocked(id_instr, xu_instr)) {
+        const rd = writesReg(xu_instr);
+        const message = rd !== undefined && idReadsReg(rd)
+            ? `DATA HAZARD: '${id_instr?.raw}' needs ${regName(rd)} from '${xu_instr.raw}' in the custom unit. Stall required.`
+            : rd !== undefined && writesReg(id_instr) === rd
+                ? `DATA HAZARD: WAW on ${regName(rd)} with '${xu_instr.raw}' in the custom unit. Stall required.`
+                : `STRUCTURAL HAZARD: the custom unit is busy with '${xu_instr.raw}'; '${id_instr?.raw}' waits in ID.`;
+        return { hazardMessage: message, forwardingPath: null };
+    }
+
+    // Without forwarding every RAW dependency waits for write-back
+    if (!forwarding) {
+        const producer = [pipeline.ex, pipeline.xu, pipeline.mem].map(stage => stage.instr).find(instr => idReadsReg(writesReg(instr)));
+        if (producer?.rd !== undefined) {
+            return {
+                hazardMessage: `DATA HAZARD: RAW on ${regName(producer.rd)} with forwarding disabled. Stall until '${producer.raw}' writes back.`,
+                forwardingPath: null,
+            };
+        }
+    }
+
+    // A branch resolved in ID needs its operands before an ALU result or a load can be forwarded
+    if (forwarding && readsUnavailableOperand(id_instr, pipeline, pipelineConfig)) {
+        return {
+            hazardMessage: `DATA HAZARD: Branch '${id_instr.raw}' resolves in ID and its operands are not ready. Stall required.`,
+            forwardingPath: null,
+        };
+    }
+
+    // Data Hazard Priority 1: Load-Use Hazard (requires stall)
+    if (ex_instr && LOAD_OPS.includes(ex_instr.op) && ex_instr.rd !== undefined && idReadsReg(ex_instr.rd)) {
+        return {
+            hazardMessage: `DATA HAZARD: Load-Use dependency on ${regName(ex_instr.rd)}. Stall required.`,
+            forwardingPath: null,
+        };
+    }
+
+    if (forwarding) {
+        // Data Hazard Priority 2: EX -> ID Forwarding
+        if (ex_instr?.rd !== undefined && idReadsReg(ex_instr.rd)) {
+            return {
+                hazardMessage: `FORWARDING: ${regName(ex_instr.rd)} forwarded from EX to ID.`,
+                forwardingPath: { from: 'ex', to: 'id', reg: ex_instr.rd },
+            };
+        }
+
+        // Data Hazard Priority 3: XU -> ID Forwarding from a finishing custom instruction
+        if (xu_instr?.rd !== undefined && !xuWorking && idReadsReg(xu_instr.rd)) {
+            return {
+                hazardMessage: `FORWARDING: ${regName(xu_instr.rd)} forwarded from XU to ID.`,
+                forwardingPath: { from: 'xu', to: 'id', reg: xu_instr.rd },
+            };
+        }
+
+        // Data Hazard Priority 4: MEM -> ID Forwarding
+        if (mem_instr?.rd !== undefined && idReadsReg(mem_instr.rd)) {
+            return {
+                hazardMessage: `FORWARDING: ${regName(mem_instr.rd)} forwarded from MEM to ID.`,
+                forwardingPath: { from: 'mem', to: 'id', reg: mem_instr.rd },
+            };
+        }
+    }
+
+    // Exception: the trapping instruction was dropped on its way into EX, leaving a flushed slot
+    if (pipeline.ex.isFlush && core.lastTrap) {
+        const { cause, pc, handled } = core.lastTrap;
+        return {
+            hazardMessage: handled
+                ? `EXCEPTION: ${TRAP_CAUSE_NAMES[cause]} at ${formatWordAddress(pc * 4)}. IF and ID flushed; fetching the handler at mtvec.`
+                : `EXCEPTION: ${TRAP_CAUSE_NAMES[cause]} at ${formatWordAddress(pc * 4)} with no handler in mtvec. The hart halts.`,
+            forwardingPath: null,
+        };
+    }
+    if (ex_instr?.op === 'mret') {
+        return { hazardMessage: `CONTROL HAZARD: 'mret' returns to mepc. IF and ID flushed.`, forwardingPath: null };
+    }
+
+    // Control Hazard: Branch/Jump in EX stage
+    const ex_op = pipeline.ex.instr?.op;
+    if (ex_op && CONTROL_OPS.includes(ex_op) && pipeline.ex.instr) {
+         const predicted = pipeline.ex.prediction?.taken ? 'taken' : 'not taken';
+         return {
+            hazardMessage: branchResolution === 'id'
+                ? `CONTROL HAZARD: Branch ('${pipeline.ex.instr.raw}') was resolved in ID, predicted ${predicted}. Only IF is flushed if mispredicted.`
+                : `CONTROL HAZARD: Branch ('${pipeline.ex.instr.raw}') in EX, predicted ${predicted}. Flush if mispredicted.`,
+            forwardingPath: null,
+        };
+    }
+
+    // No hazard detected
+    return { hazardMessage: 'Status: No hazards detected.', forwardingPath: null };
+};
@@ -0,0 +1,533 @@
+// ISA registry: the single description of every instruction the toolchain understands. The assembler,
+// encoder, disassembler, pipeline simulator, hardware emulator, compiler prompt and docs pages all
+// derive their tables from ISA_INSTRUCTIONS, so adding an instruction is a one-place change.
+
+export type IsaExtension = 'RV32I' | 'Zicsr' | 'RV32M' | 'RV32F' | 'NN';
+
+// Grouping used by the hardware emulator's workload mix and the docs pages.
+export type IsaCategory = 'Custom NN' | 'Standard FPU' | 'Integer & Control';
+
+// Assembly operand layout, as parsed by the assembler front end.
+// CSR takes a register source (csrrw rd, csr, rs1); CSRI a 5-bit unsigned immediate in its place.
+export type OperandFormat = 'R' | 'R4' | 'UNARY' | 'MAC' | 'I' | 'LOAD' | 'STORE' | 'BRANCH' | 'U' | 'JAL' | 'JALR' | 'CSR' | 'CSRI' | 'NONE';
+
+export type RegisterOperand = 'rd' | 'rs1' | 'rs2' | 'rs3';
+
+// 'rm' marks a funct3 field that carries the rounding mode (dynamic unless the source names one).
+export type IsaEncoding =
+    | { type: 'R'; opcode: number; funct7: number; funct3: number | 'rm'; rs2?: number }
+    | { type: 'R4'; opcode: number; funct2: number; funct3: number | 'rm' }
+    | { type: 'I'; opcode: number; funct3: number; funct7?: number } // funct7 present: shift-immediate
+    | { type: 'S'; opcode: number; funct3: number }
+    | { type: 'B'; opcode: number; funct3: number }
+    | { type: 'U'; opcode: number }
+    | { type: 'J'; opcode: number }
+    | { type: 'CSR'; opcode: number; funct3: number } // I-type layout with the CSR address as an unsigned imm[11:0]
+    | { type: 'FIXED'; word: number };
+
+// Source operand values of a custom NN instruction (mac also receives its accumulator as rs3)
+// and a reader for 4-byte data memory words, for units that fetch their operands from memory.
+export type NnOperands = { rs1: number; rs2: number; rs3: number; imm: number };
+export type NnExecute = (operands: NnOperands, readWord: (address: number) => number) => number;
+
+export interface IsaInstruction {
+    mnemonic: string;
+    extension: IsaExtension;
+    category: IsaCategory;
+    format: OperandFormat;
+    encoding: IsaEncoding;
+    latency: number; // EX-stage occupancy in the pipeline simulator, in cycles
+    syntax: string;
+    semantics: string;
+    fpOperands?: RegisterOperand[]; // Operands read from / written to the f register file
+    // Custom NN extension only:
+    name?: string;
+    description?: string; // Docs prose
+    compilerRule?: string; // Extra rule for the C++ -> assembly prompt
+    execute?: NnExecute;
+    swEquivalentCycles?: number; // Cycles the same work takes in software on the ARM baseline
+    energyPerCycle?: number; // pJ per cycle, used when a board profile has no figure for this instruction
+    userDefined?: boolean; // Defined in the ISA Designer rather than built in
+    // Instructions with a default count appear as sliders in the hardware emulator's workload mix.
+    defaultMixCount?: number;
+}
+
+export const OPCODES = {
+    LUI: 0b0110111, AUIPC: 0b0010111, JAL: 0b1101111, JALR: 0b1100111, BRANCH: 0b1100011,
+    LOAD: 0b0000011, STORE: 0b0100011, OP_IMM: 0b0010011, OP: 0b0110011, MISC_MEM: 0b0001111,
+    LOAD_FP: 0b0000111, STORE_FP: 0b0100111, OP_FP: 0b1010011, SYSTEM: 0b1110011,
+    FMADD: 0b1000011, FMSUB: 0b1000111, FNMSUB: 0b1001011, FNMADD: 0b1001111,
+    // Custom NN instructions live in the custom-0 (R-type) and custom-1 (R4-type) major opcodes
+    // reserved by the RISC-V spec, so they never collide with standard encodings.
+    CUSTOM_0: 0b0001011, CUSTOM_1: 0b0101011,
+};
+
+// Machine-mode CSRs the simulator implements, plus the read-only user-level counter aliases.
+// Addresses with bits [11:10] set are read-only; writing one is an illegal instruction.
+export const CSR_ADDRESSES: Record<string, number> = {
+    'mstatus': 0x300, 'misa': 0x301, 'mtvec': 0x305, 'mscratch': 0x340, 'mepc': 0x341, 'mcause': 0x342, 'mtval': 0x343,
+    'mcycle': 0xB00, 'minstret': 0xB02, 'mcycleh': 0xB80, 'minstreth': 0xB82,
+    'cycle': 0xC00, 'instret': 0xC02, 'cycleh': 0xC80, 'instreth': 0xC82, 'mhartid': 0xF14,
+};
+
+export const csrName = (address: number): string =>
+    Object.keys(CSR_ADDRESSES).find(name => CSR_ADDRESSES[name] === address) ?? `0x${address.toString(16)}`;
+
+export const isReadOnlyCsr = (address: number): boolean => ((address >> 10) & 3) === 3;
+
+export const ROUNDING_MODES: Record<string, number> = { 'rne': 0, 'rtz': 1, 'rdn': 2, 'rup': 3, 'rmm': 4, 'dyn': 7 };
+
+// Base instruction builders; every standard instruction is single-cycle in EX.
+const INT = 'Integer & Control' as const;
+const FPU = 'Standard FPU' as const;
+
+const rType = (mnemonic: string, funct7: number, funct3: number, semantics: string, extension: IsaExtension = 'RV32I', defaultMixCount?: number): IsaInstruction => ({
+    mnemonic, extension, category: INT, format: 'R', encoding: { type: 'R', opcode: OPCODES.OP, funct7, funct3 },
+    latency: 1, syntax: `${mnemonic} rd, rs1, rs2`, semantics, defaultMixCount,
+});
+const iType = (mnemonic: string, funct3: number, semantics: string, defaultMixCount?: number): IsaInstruction => ({
+    mnemonic, extension: 'RV32I', category: INT, format: 'I', encoding: { type: 'I', opcode: OPCODES.OP_IMM, funct3 },
+    latency: 1, syntax: `${mnemonic} rd, rs1, imm`, semantics, defaultMixCount,
+});
+const shiftImm = (mnemonic: string, funct7: number, funct3: number, semantics: string): IsaInstruction => ({
+    mnemonic, extension: 'RV32I', category: INT, format: 'I', encoding: { type: 'I', opcode: OPCODES.OP_IMM, funct3, funct7 },
+    latency: 1, syntax: `${mnemonic} rd, rs1, shamt`, semantics,
+});
+const load = (mnemonic: string, funct3: number, semantics: string, defaultMixCount?: number): IsaInstruction => ({
+    mnemonic, extension: 'RV32I', category: INT, format: 'LOAD', encoding: { type: 'I', opcode: OPCODES.LOAD, funct3 },
+    latency: 1, syntax: `${mnemonic} rd, imm(rs1)`, semantics, defaultMixCount,
+});
+const store = (mnemonic: string, funct3: number, semantics: string, defaultMixCount?: number): IsaInstruction => ({
+    mnemonic, extension: 'RV32I', category: INT, format: 'STORE', encoding: { type: 'S', opcode: OPCODES.STORE, funct3 },
+    latency: 1, syntax: `${mnemonic} rs2, imm(rs1)`, semantics, defaultMixCount,
+});
+const branch = (mnemonic: string, funct3: number, semantics: string, defaultMixCount?: number): IsaInstruction => ({
+    mnemonic, extension: 'RV32I', category: INT, format: 'BRANCH', encoding: { type: 'B', opcode: OPCODES.BRANCH, funct3 },
+    latency: 1, syntax: `${mnemonic} rs1, rs2, label`, semantics, defaultMixCount,
+});
+const csrOp = (mnemonic: string, funct3: number, semantics: string): IsaInstruction => {
+    const immediate = funct3 >= 4;
+    return {
+        mnemonic, extension: 'Zicsr', category: INT, format: immediate ? 'CSRI' : 'CSR', encoding: { type: 'CSR', opcode: OPCODES.SYSTEM, funct3 },
+        latency: 1, syntax: `${mnemonic} rd, csr, ${immediate ? 'uimm' : 'rs1'}`, semantics,
+    };
+};
+const fpOp = (mnemonic: string, funct7: number, funct3: number | 'rm', semantics: string, options: Partial<IsaInstruction> & { rs2?: number } = {}): IsaInstruction => {
+    const { rs2, ...rest } = options;
+    const unary = rs2 !== undefined;
+    return {
+        mnemonic, extension: 'RV32F', category: FPU, format: unary ? 'UNARY' : 'R',
+        encoding: { type: 'R', opcode: OPCODES.OP_FP, funct7, funct3, rs2 },
+        latency: 1, syntax: unary ? `${mnemonic} rd, rs1` : `${mnemonic} rd, rs1, rs2`, semantics,
+        fpOperands: unary ? ['rd', 'rs1'] : ['rd', 'rs1', 'rs2'], ...rest,
+    };
+};
+const fused = (mnemonic: string, opcode: number, semantics: string): IsaInstruction => ({
+    mnemonic, extension: 'RV32F', category: FPU, format: 'R4', encoding: { type: 'R4', opcode, funct2: 0, funct3: 'rm' },
+    latency: 1, syntax: `${mnemonic} rd, rs1, rs2, rs3`, semantics, fpOperands: ['rd', 'rs1', 'rs2', 'rs3'],
+});
+
+// Reads the 3x3 patch at `input` (row stride in words) and the dense 3x3 kernel at `kernel`.
+const dot3x3: NnExecute = ({ rs1: input, rs2: kernel, rs3: stride }, readWord) => {
+    let sum = 0;
+    for (let i = 0; i < 3; i++) {
+        for (let j = 0; j < 3; j++) {
+            sum = sum + Math.imul(readWord(input + (i * stride + j) * 4), readWord(kernel + (i * 3 + j) * 4)) | 0;
+        }
+    }
+    return sum;
+};
+
+// sigmoid and tanh take and return Q16.16 fixed point: the register holds the real value times 2^16.
+const Q16_ONE = 1 << 16;
+const fixedPointQ16 = (fn: (x: number) => number): NnExecute => ({ rs1 }) => Math.round(fn(rs1 / Q16_ONE) * Q16_ONE) | 0;
+
+export const ISA_INSTRUCTIONS: IsaInstruction[] = [
+    // RV32I
+    rType('add', 0x00, 0, 'rd = rs1 + rs2', 'RV32I', 100000),
+    rType('sub', 0x20, 0, 'rd = rs1 - rs2', 'RV32I', 50000),
+    rType('sll', 0x00, 1, 'rd = rs1 << rs2[4:0]'),
+    rType('slt', 0x00, 2, 'rd = (rs1 < rs2) ? 1 : 0 (signed)'),
+    rType('sltu', 0x00, 3, 'rd = (rs1 < rs2) ? 1 : 0 (unsigned)'),
+    rType('xor', 0x00, 4, 'rd = rs1 ^ rs2'),
+    rType('srl', 0x00, 5, 'rd = rs1 >> rs2[4:0] (logical)'),
+    rType('sra', 0x20, 5, 'rd = rs1 >> rs2[4:0] (arithmetic)'),
+    rType('or', 0x00, 6, 'rd = rs1 | rs2'),
+    rType('and', 0x00, 7, 'rd = rs1 & rs2'),
+    iType('addi', 0, 'rd = rs1 + imm', 250000),
+    iType('slti', 2, 'rd = (rs1 < imm) ? 1 : 0 (signed)'),
+    iType('sltiu', 3, 'rd = (rs1 < imm) ? 1 : 0 (unsigned)'),
+    iType('xori', 4, 'rd = rs1 ^ imm'),
+    iType('ori', 6, 'rd = rs1 | imm'),
+    iType('andi', 7, 'rd = rs1 & imm'),
+    shiftImm('slli', 0x00, 1, 'rd = rs1 << shamt'),
+    shiftImm('srli', 0x00, 5, 'rd = rs1 >> shamt (logical)'),
+    shiftImm('srai', 0x20, 5, 'rd = rs1 >> shamt (arithmetic)'),
+    load('lb', 0, 'rd = sext(Mem8[rs1 + imm])'),
+    load('lh', 1, 'rd = sext(Mem16[rs1 + imm])'),
+    load('lw', 2, 'rd = Mem32[rs1 + imm]', 100000),
+    load('lbu', 4, 'rd = zext(Mem8[rs1 + imm])'),
+    load('lhu', 5, 'rd = zext(Mem16[rs1 + imm])'),
+    store('sb', 0, 'Mem8[rs1 + imm] = rs2[7:0]'),
+    store('sh', 1, 'Mem16[rs1 + imm] = rs2[15:0]'),
+    store('sw', 2, 'Mem32[rs1 + imm] = rs2', 50000),
+    branch('beq', 0, 'if (rs1 == rs2) pc += offset', 150000),
+    branch('bne', 1, 'if (rs1 != rs2) pc += offset'),
+    branch('blt', 4, 'if (rs1 < rs2) pc += offset (signed)'),
+    branch('bge', 5, 'if (rs1 >= rs2) pc += offset (signed)'),
+    branch('bltu', 6, 'if (rs1 < rs2) pc += offset (unsigned)'),
+    branch('bgeu', 7, 'if (rs1 >= rs2) pc += offset (unsigned)'),
+    { mnemonic: 'lui', extension: 'RV32I', category: INT, format: 'U', encoding: { type: 'U', opcode: OPCODES.LUI }, latency: 1, syntax: 'lui rd, imm', semantics: 'rd = imm << 12' },
+    { mnemonic: 'auipc', extension: 'RV32I', category: INT, format: 'U', encoding: { type: 'U', opcode: OPCODES.AUIPC }, latency: 1, syntax: 'auipc rd, imm', semantics: 'rd = pc + (imm << 12)' },
+    { mnemonic: 'jal', extension: 'RV32I', category: INT, format: 'JAL', encoding: { type: 'J', opcode: OPCODES.JAL }, latency: 1, syntax: 'jal rd, label', semantics: 'rd = pc + 4; pc += offset', defaultMixCount: 20000 },
+    { mnemonic: 'jalr', extension: 'RV32I', category: INT, format: 'JALR', encoding: { type: 'I', opcode: OPCODES.JALR, funct3: 0 }, latency: 1, syntax: 'jalr rd, imm(rs1)', semantics: 'rd = pc + 4; pc = (rs1 + imm) & ~1' },
+    { mnemonic: 'fence', extension: 'RV32I', category: INT, format: 'NONE', encoding: { type: 'FIXED', word: 0x0FF0000F }, latency: 1, syntax: 'fence', semantics: 'Order memory accesses (fence iorw, iorw)' },
+    { mnemonic: 'ecall', extension: 'RV32I', category: INT, format: 'NONE', encoding: { type: 'FIXED', word: 0x00000073 }, latency: 1, syntax: 'ecall', semantics: 'Raise an environment-call exception (mcause = 11)' },
+    { mnemonic: 'ebreak', extension: 'RV32I', category: INT, format: 'NONE', encoding: { type: 'FIXED', word: 0x00100073 }, latency: 1, syntax: 'ebreak', semantics: 'Raise a breakpoint exception (mcause = 3)' },
+    { mnemonic: 'mret', extension: 'RV32I', category: INT, format: 'NONE', encoding: { type: 'FIXED', word: 0x30200073 }, latency: 1, syntax: 'mret', semantics: 'pc = mepc; mstatus.MIE = mstatus.MPIE' },
+    // Zicsr
+    csrOp('csrrw', 1, 'rd = csr; csr = rs1'),
+    csrOp('csrrs', 2, 'rd = csr; csr |= rs1 (no write if rs1 is x0)'),
+    csrOp('csrrc', 3, 'rd = csr; csr &= ~rs1 (no write if rs1 is x0)'),
+    csrOp('csrrwi', 5, 'rd = csr; csr = uimm'),
+    csrOp('csrrsi', 6, 'rd = csr; csr |= uimm (no write if uimm is 0)'),
+    csrOp('csrrci', 7, 'rd = csr; csr &= ~uimm (no write if uimm is 0)'),
+    // RV32M
+    rType('mul', 0x01, 0, 'rd = (rs1 * rs2)[31:0]', 'RV32M'),
+    rType('mulh', 0x01, 1, 'rd = (rs1 * rs2)[63:32] (signed x signed)', 'RV32M'),
+    rType('mulhsu', 0x01, 2, 'rd = (rs1 * rs2)[63:32] (signed x unsigned)', 'RV32M'),
+    rType('mulhu', 0x01, 3, 'rd = (rs1 * rs2)[63:32] (unsigned x unsigned)', 'RV32M'),
+    rType('div', 0x01, 4, 'rd = rs1 / rs2 (signed)', 'RV32M'),
+    rType('divu', 0x01, 5, 'rd = rs1 / rs2 (unsigned)', 'RV32M'),
+    rType('rem', 0x01, 6, 'rd = rs1 % rs2 (signed)', 'RV32M'),
+    rType('remu', 0x01, 7, 'rd = rs1 % rs2 (unsigned)', 'RV32M'),
+    // RV32F
+    { mnemonic: 'flw', extension: 'RV32F', category: FPU, format: 'LOAD', encoding: { type: 'I', opcode: OPCODES.LOAD_FP, funct3: 2 }, latency: 1, syntax: 'flw rd, imm(rs1)', semantics: 'rd = Mem32[rs1 + imm]', fpOperands: ['rd'], defaultMixCount: 400000 },
+    { mnemonic: 'fsw', extension: 'RV32F', category: FPU, format: 'STORE', encoding: { type: 'S', opcode: OPCODES.STORE_FP, funct3: 2 }, latency: 1, syntax: 'fsw rs2, imm(rs1)', semantics: 'Mem32[rs1 + imm] = rs2', fpOperands: ['rs2'], defaultMixCount: 200000 },
+    fpOp('fadd.s', 0x00, 'rm', 'rd = rs1 + rs2', { defaultMixCount: 200000 }),
+    fpOp('fsub.s', 0x04, 'rm', 'rd = rs1 - rs2', { defaultMixCount: 50000 }),
+    fpOp('fmul.s', 0x08, 'rm', 'rd = rs1 * rs2', { defaultMixCount: 300000 }),
+    fpOp('fdiv.s', 0x0C, 'rm', 'rd = rs1 / rs2', { defaultMixCount: 1000 }),
+    fpOp('fsqrt.s', 0x2C, 'rm', 'rd = sqrt(rs1)', { rs2: 0 }),
+    fpOp('fsgnj.s', 0x10, 0, 'rd = |rs1| with the sign of rs2'),
+    fpOp('fsgnjn.s', 0x10, 1, 'rd = |rs1| with the inverted sign of rs2'),
+    fpOp('fsgnjx.s', 0x10, 2, 'rd = rs1 with its sign XORed with the sign of rs2'),
+    fpOp('fmin.s', 0x14, 0, 'rd = min(rs1, rs2)'),
+    fpOp('fmax.s', 0x14, 1, 'rd = max(rs1, rs2)'),
+    fpOp('fcvt.w.s', 0x60, 'rm', 'rd = (int32) rs1', { rs2: 0, fpOperands: ['rs1'], syntax: 'fcvt.w.s rd, rs1[, rm]' }),
+    fpOp('fcvt.wu.s', 0x60, 'rm', 'rd = (uint32) rs1', { rs2: 1, fpOperands: ['rs1'], syntax: 'fcvt.wu.s rd, rs1[, rm]' }),
+    fpOp('fmv.x.w', 0x70, 0, 'rd = bits(rs1)', { rs2: 0, fpOperands: ['rs1'] }),
+    fpOp('fclass.s', 0x70, 1, 'rd = class mask of rs1', { rs2: 0, fpOperands: ['rs1'] }),
+    fpOp('feq.s', 0x50, 2, 'rd = (rs1 == rs2) ? 1 : 0', { fpOperands: ['rs1', 'rs2'] }),
+    fpOp('flt.s', 0x50, 1, 'rd = (rs1 < rs2) ? 1 : 0', { fpOperands: ['rs1', 'rs2'] }),
+    fpOp('fle.s', 0x50, 0, 'rd = (rs1 <= rs2) ? 1 : 0', { fpOperands: ['rs1', 'rs2'] }),
+    fpOp('fcvt.s.w', 0x68, 'rm', 'rd = (float) (int32) rs1', { rs2: 0, fpOperands: ['rd'] }),
+    fpOp('fcvt.s.wu', 0x68, 'rm', 'rd = (float) (uint32) rs1', { rs2: 1, fpOperands: ['rd'] }),
+    fpOp('fmv.w.x', 0x78, 0, 'rd = float(bits rs1)', { rs2: 0, fpOperands: ['rd'] }),
+    fused('fmadd.s', OPCODES.FMADD, 'rd = rs1 * rs2 + rs3'),
+    fused('fmsub.s', OPCODES.FMSUB, 'rd = rs1 * rs2 - rs3'),
+    fused('fnmsub.s', OPCODES.FNMSUB, 'rd = -(rs1 * rs2) + rs3'),
+    fused('fnmadd.s', OPCODES.FNMADD, 'rd = -(rs1 * rs2) - rs3'),
+    // Custom NN extension
+    {
+        mnemonic: 'mac', extension: 'NN', category: 'Custom NN', format: 'MAC',
+        encoding: { type: 'R', opcode: OPCODES.CUSTOM_0, funct7: 0x00, funct3: 0 },
+        latency: 1, syntax: 'mac rd, rs1, rs2', semantics: 'rd = rd + rs1 * rs2', name: 'Multiply-Accumulate',
+        description: 'Fused multiply-accumulate into rd, the inner step of every dense and convolution layer.',
+        compilerRule: "For convolutions with kernels larger than 3x3 (e.g., 5x5), you must implement them using a loop with the 'mac' instruction for each element.",
+        execute: ({ rs1, rs2, rs3 }) => Math.imul(rs1, rs2) + rs3 | 0, swEquivalentCycles: 5, defaultMixCount: 1300000,
+    },
+    {
+        mnemonic: 'relu', extension: 'NN', category: 'Custom NN', format: 'UNARY',
+        encoding: { type: 'R', opcode: OPCODES.CUSTOM_0, funct7: 0x00, funct3: 1, rs2: 0 },
+        latency: 1, syntax: 'relu rd, rs1', semantics: 'rd = max(0, rs1)', name: 'ReLU activation',
+        description: 'Rectified linear activation in a single instruction, replacing a compare-and-branch.',
+        execute: ({ rs1 }) => Math.max(0, rs1), swEquivalentCycles: 3, defaultMixCount: 250000,
+    },
+    {
+        mnemonic: 'conv2d.3x3', extension: 'NN', category: 'Custom NN', format: 'R4',
+        encoding: { type: 'R4', opcode: OPCODES.CUSTOM_1, funct2: 0, funct3: 0 },
+        latency: 3, syntax: 'conv2d.3x3 rd, rs1, rs2, rs3', name: '3x3 Convolution',
+        semantics: 'rd = result, rs1 = input base addr, rs2 = kernel base addr, rs3 = input stride',
+        description: 'This single instruction calculates the dot product of a 3x3 input patch and a 3x3 kernel.',
+        compilerRule: 'When you see a standard 3x3 convolution loop, you MUST replace the entire loop with a single `conv2d.3x3` instruction.',
+        execute: dot3x3, swEquivalentCycles: 40, defaultMixCount: 50000,
+    },
+    {
+        mnemonic: 'dwconv.3x3', extension: 'NN', category: 'Custom NN', format: 'R4',
+        encoding: { type: 'R4', opcode: OPCODES.CUSTOM_1, funct2: 1, funct3: 0 },
+        latency: 3, syntax: 'dwconv.3x3 rd, rs1, rs2, rs3', name: '3x3 Depthwise Convolution',
+        semantics: 'rd = result, rs1 = input base addr, rs2 = kernel base addr, rs3 = input stride',
+        description: 'Performs a 3x3 depthwise convolution, a key component of efficient models like MobileNet.',
+        compilerRule: 'When you see a 3x3 depthwise convolution loop, you MUST replace it with a single `dwconv.3x3` instruction.',
+        execute: dot3x3, swEquivalentCycles: 35, defaultMixCount: 25000,
+    },
+    {
+        mnemonic: 'maxpool.2x2', extension: 'NN', category: 'Custom NN', format: 'R',
+        encoding: { type: 'R', opcode: OPCODES.CUSTOM_0, funct7: 0x00, funct3: 4 },
+        latency: 2, syntax: 'maxpool.2x2 rd, rs1, rs2', name: '2x2 Max Pooling',
+        semantics: 'rd = result, rs1 = input base addr, rs2 = input stride',
+        description: 'Finds the max value in a 2x2 input region, replacing a loop of comparisons.',
+        compilerRule: 'When you see a 2x2 max pooling operation, you MUST replace it with a single `maxpool.2x2` instruction.',
+        execute: ({ rs1: input, rs2: stride }, readWord) => Math.max(
+            readWord(input), readWord(input + 4),
+            readWord(input + stride * 4), readWord(input + (stride + 1) * 4),
+        ),
+        swEquivalentCycles: 10, defaultMixCount: 15000,
+    },
+    {
+        mnemonic: 'sigmoid', extension: 'NN', category: 'Custom NN', format: 'UNARY',
+        encoding: { type: 'R', opcode: OPCODES.CUSTOM_0, funct7: 0x00, funct3: 2, rs2: 0 },
+        latency: 4, syntax: 'sigmoid rd, rs1', semantics: 'rd = 1 / (1 + exp(-rs1)), rs1 and rd in Q16.16 fixed point', name: 'Sigmoid activation',
+        description: 'Evaluated in the shared activation unit, in place of a full software expf call.',
+        compilerRule: 'When you see a mathematical pattern that matches a custom instruction, you MUST replace it. For example, a C++ expression like `1.0f / (1.0f + expf(-A[i]))` MUST be translated to a single `sigmoid` instruction.',
+        execute: fixedPointQ16(x => 1 / (1 + Math.exp(-x))), swEquivalentCycles: 20, defaultMixCount: 0,
+    },
+    {
+        mnemonic: 'tanh', extension: 'NN', category: 'Custom NN', format: 'UNARY',
+        encoding: { type: 'R', opcode: OPCODES.CUSTOM_0, funct7: 0x00, funct3: 3, rs2: 0 },
+        latency: 4, syntax: 'tanh rd, rs1', semantics: 'rd = tanh(rs1), rs1 and rd in Q16.16 fixed point', name: 'Tanh activation',
+        description: 'Evaluated in the shared activation unit, in place of a full software tanhf call.',
+        compilerRule: 'Similarly, a call to `tanhf(A[i])` MUST be translated to a single `tanh` instruction.',
+        execute: fixedPointQ16(Math.tanh), swEquivalentCycles: 20, defaultMixCount: 0,
+    },
+];
+
+const BUILTIN_COUNT = ISA_INSTRUCTIONS.length;
+
+// Lookup by mnemonic. ISA_INSTRUCTIONS, ISA and NN_INSTRUCTIONS are updated in place when the
+// user-defined instructions change, so every consumer sees the same registry.
+export const ISA: Record<string, IsaInstruction> = Object.fromEntries(ISA_INSTRUCTIONS.map(instr => [instr.mnemonic, instr]));
+
+export const NN_INSTRUCTIONS = ISA_INSTRUCTIONS.filter(instr => instr.extension === 'NN');
+
+// Mnemonics the assembler expands itself; a user-defined instruction must not shadow them.
+export const PSEUDO_MNEMONICS = [
+    'nop', 'li', 'la', 'mv', 'not', 'neg', 'seqz', 'snez', 'sltz', 'sgtz', 'beqz', 'bnez', 'blez', 'bgez', 'bltz', 'bgtz',
+    'bgt', 'ble', 'bgtu', 'bleu', 'j', 'jr', 'ret', 'call', 'tail', 'fmv.s', 'fabs.s', 'fneg.s',
+    'csrr', 'csrw', 'csrs', 'csrc', 'csrwi', 'csrsi', 'csrci', 'rdcycle', 'rdinstret', 'unimp',
+];
+
+export const ISA_CATEGORIES: IsaCategory[] = ['Custom NN', 'Standard FPU', 'Integer & Control'];
+
+// Software baseline cost of anything without a dedicated NN unit.
+export const DEFAULT_SW_EQUIVALENT_CYCLES = 2;
+
+// Bits of a word an encoding fixes, and their values. Two encodings overlap when some word matches both.
+export function encodingPattern(encoding: IsaEncoding): { mask: number; match: number } {
+    const OPCODE = 0x7F, FUNCT3 = 0x7 << 12, FUNCT7 = 0x7F << 25, FUNCT2 = 0x3 << 25, RS2 = 0x1F << 20;
+    switch (encoding.type) {
+        case 'FIXED': return { mask: 0xFFFFFFFF, match: encoding.word >>> 0 };
+        case 'R': {
+            const funct3 = encoding.funct3 === 'rm' ? { mask: 0, match: 0 } : { mask: FUNCT3, match: encoding.funct3 << 12 };
+            const rs2 = encoding.rs2 === undefined ? { mask: 0, match: 0 } : { mask: RS2, match: encoding.rs2 << 20 };
+            return {
+                mask: (OPCODE | FUNCT7 | funct3.mask | rs2.mask) >>> 0,
+                match: (encoding.opcode | (encoding.funct7 << 25) | funct3.match | rs2.match) >>> 0,
+            };
+        }
+        case 'R4': {
+            const funct3 = encoding.funct3 === 'rm' ? { mask: 0, match: 0 } : { mask: FUNCT3, match: encoding.funct3 << 12 };
+            return { mask: OPCODE | FUNCT2 | funct3.mask, match: encoding.opcode | (encoding.funct2 << 25) | funct3.match };
+        }
+        case 'I':
+            return encoding.funct7 === undefined
+                ? { mask: OPCODE | FUNCT3, match: encoding.opcode | (encoding.funct3 << 12) }
+                : { mask: (OPCODE | FUNCT3 | FUNCT7) >>> 0, match: (encoding.opcode | (encoding.funct3 << 12) | (encoding.funct7 << 25)) >>> 0 };
+        case 'S':
+        case 'B':
+        case 'CSR': return { mask: OPCODE | FUNCT3, match: encoding.opcode | (encoding.funct3 << 12) };
+        case 'U':
+        case 'J': return { mask: OPCODE, match: encoding.opcode };
+    }
+}
+
+const encodingsOverlap = (a: IsaEncoding, b: IsaEncoding): boolean => {
+    const pa = encodingPattern(a);
+    const pb = encodingPattern(b);
+    return ((pa.match ^ pb.match) & pa.mask & pb.mask) === 0;
+};
+
+// --- User-defined instructions (ISA Designer) ---
+
+export type CustomInstructionLayout = 'R' | 'I' | 'R4';
+
+export interface CustomInstructionDefinition {
+    mnemonic: string;
+    name: string;
+    semantics: string; // Short formula for docs and the compiler prompt, e.g. "rd = (rs1 + rs2) / 2"
+    description: string;
+    compilerRule?: string;
+    layout: CustomInstructionLayout;
+    opcode: number; // One of CUSTOM_OPCODE_SPACES
+    funct3: number;
+    funct7: number; // R-type only
+    funct2: number; // R4-type only
+    latency: number;
+    energyPerCycle: number;
+    swEquivalentCycles: number;
+    // Body of a JavaScript function of (rs1, rs2, rs3, imm, readWord) returning the value written to rd.
+    executeSource: string;
+}
+
+// Major opcodes the RISC-V spec reserves for custom extensions.
+export const CUSTOM_OPCODE_SPACES: Record<string, number> = {
+    'custom-0': OPCODES.CUSTOM_0, 'custom-1': OPCODES.CUSTOM_1, 'custom-2': 0b1011011, 'custom-3': 0b1111011,
+};
+
+const USER_INSTRUCTIONS_KEY = 'riscv_customInstructions';
+
+// User-defined instructions write integer registers: the result is wrapped to 32 bits like the base
+// integer ops, and anything that is not a number becomes 0.
+const toRegisterValue = (value: unknown): number => Number(value) | 0;
+
+// Syntax problem with a semantic function body, or null. The function is compiled but never called, so a
+// body that loops or throws cannot hang validation.
+export function checkSemanticsSyntax(source: string): string | null {
+    try {
+        new Function('rs1', 'rs2', 'rs3', 'imm', 'readWord', source);
+        return null;
+    } catch (e) {
+        return e instanceof Error ? e.message : String(e);
+    }
+}
+
+export class SemanticsTestError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SemanticsTestError';
+    }
+}
+
+export const SEMANTICS_TEST_TIMEOUT_MS = 1000;
+
+// Runs in a worker so that a semantic function which never returns can be terminated.
+const SEMANTICS_TEST_WORKER = `onmessage = ({ data }) => {
+    try {
+        const fn = new Function('rs1', 'rs2', 'rs3', 'imm', 'readWord', data.source);
+        const { rs1, rs2, rs3, imm } = data.operands;
+        postMessage({ value: Number(fn(rs1, rs2, rs3, imm, address => data.memory[address] ?? 0)) });
+    } catch (e) {
+        postMessage({ error: e instanceof Error ? e.message : String(e) });
+    }
+};`;
+
+// Trial run of a semantic function for the ISA Designer's Test button. `memory` maps word addresses to the
+// values readWord returns (0 elsewhere). Rejects with SemanticsTestError when the function throws or does
+// not return within SEMANTICS_TEST_TIMEOUT_MS.
+export function testSemantics(source: string, operands: NnOperands, memory: Record<number, number> = {}): Promise<number> {
+    const url = URL.createObjectURL(new Blob([SEMANTICS_TEST_WORKER], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    return new Promise<number>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            reject(new SemanticsTestError(`The function did not return within ${SEMANTICS_TEST_TIMEOUT_MS} ms.`));
+        }, SEMANTICS_TEST_TIMEOUT_MS);
+        worker.onmessage = ({ data }: MessageEvent<{ value?: number; error?: string }>) => {
+            clearTimeout(timer);
+            if (data.error !== undefined) reject(new SemanticsTestError(data.error));
+            else resolve(toRegisterValue(data.value));
+        };
+        worker.onerror = (e: ErrorEvent) => {
+            clearTimeout(timer);
+            reject(new SemanticsTestError(e.message));
+        };
+        worker.postMessage({ source, operands, memory });
+    }).finally(() => {
+        worker.terminate();
+        URL.revokeObjectURL(url);
+    });
+}
+
+// Errors thrown by the semantic function propagate; the pipeline engine turns them into an
+// illegal-instruction trap.
+export function compileSemantics(source: string): NnExecute {
+    const fn = new Function('rs1', 'rs2', 'rs3', 'imm', 'readWord', source) as
+        (rs1: number, rs2: number, rs3: number, imm: number, readWord: (address: number) => number) => unknown;
+    return ({ rs1, rs2, rs3, imm }, readWord) => toRegisterValue(fn(rs1, rs2, rs3, imm, readWord));
+}
+
+const customEncoding = (def: CustomInstructionDefinition): IsaEncoding => {
+    switch (def.layout) {
+        case 'R': return { type: 'R', opcode: def.opcode, funct7: def.funct7, funct3: def.funct3 };
+        case 'I': return { type: 'I', opcode: def.opcode, funct3: def.funct3 };
+        case 'R4': return { type: 'R4', opcode: def.opcode, funct2: def.funct2, funct3: def.funct3 };
+    }
+};
+
+const customEncodingOf = (def: CustomInstructionDefinition) => ({ mnemonic: def.mnemonic, encoding: customEncoding(def) });
+
+const CUSTOM_SYNTAX: Record<CustomInstructionLayout, string> = { 'R': 'rd, rs1, rs2', 'I': 'rd, rs1, imm', 'R4': 'rd, rs1, rs2, rs3' };
+
+export function toIsaInstruction(def: CustomInstructionDefinition): IsaInstruction {
+    const execute = compileSemantics(def.executeSource);
+    return {
+        mnemonic: def.mnemonic, extension: 'NN', category: 'Custom NN', format: def.layout, encoding: customEncoding(def),
+        latency: def.latency, syntax: `${def.mnemonic} ${CUSTOM_SYNTAX[def.layout]}`, semantics: def.semantics,
+        name: def.name, description: def.description, compilerRule: def.compilerRule || undefined,
+        execute,
+        swEquivalentCycles: def.swEquivalentCycles, energyPerCycle: def.energyPerCycle, defaultMixCount: 0, userDefined: true,
+    };
+}
+
+// Returns human-readable problems with a definition; `others` are the remaining user-defined ones.
+export function validateCustomInstruction(def: CustomInstructionDefinition, others: CustomInstructionDefinition[] = []): string[] {
+    const errors: string[] = [];
+    const isInt = (value: number, min: number, max: number) => Number.isInteger(value) && value >= min && value <= max;
+
+    if (!/^[a-z][a-z0-9]*(\.[a-z0-9]+)*$/.test(def.mnemonic)) {
+        errors.push('Mnemonic must be lower-case letters, digits and dots (e.g. avgpool.2x2).');
+    } else if (ISA_INSTRUCTIONS.slice(0, BUILTIN_COUNT).some(instr => instr.mnemonic === def.mnemonic) || PSEUDO_MNEMONICS.includes(def.mnemonic)) {
+        errors.push(`'${def.mnemonic}' is already a built-in instruction or pseudo-instruction.`);
+    } else if (others.some(other => other.mnemonic === def.mnemonic)) {
+        errors.push(`'${def.mnemonic}' is already defined.`);
+    }
+    if (!def.name.trim()) errors.push('Name is required.');
+    if (!def.semantics.trim()) errors.push('Semantics summary is required.');
+    if (!Object.values(CUSTOM_OPCODE_SPACES).includes(def.opcode)) errors.push('Opcode must be one of the custom-0..custom-3 major opcodes.');
+    if (!isInt(def.funct3, 0, 7)) errors.push('funct3 must be an integer in 0..7.');
+    if (def.layout === 'R' && !isInt(def.funct7, 0, 127)) errors.push('funct7 must be an integer in 0..127.');
+    if (def.layout === 'R4' && !isInt(def.funct2, 0, 3)) errors.push('funct2 must be an integer in 0..3.');
+    if (!isInt(def.latency, 1, 64)) errors.push('Latency must be a whole number of cycles in 1..64.');
+    if (!(def.energyPerCycle >= 0)) errors.push('Energy per cycle must be zero or positive.');
+    if (!(def.swEquivalentCycles >= 1)) errors.push('Software-equivalent cycles must be at least 1.');
+
+    if (errors.length === 0) {
+        const encoding = customEncoding(def);
+        const clash = [...ISA_INSTRUCTIONS.slice(0, BUILTIN_COUNT), ...others.map(customEncodingOf)]
+            .find(instr => encodingsOverlap(encoding, instr.encoding));
+        if (clash) errors.push(`Encoding overlaps with '${clash.mnemonic}'.`);
+    }
+
+    const syntaxError = checkSemanticsSyntax(def.executeSource);
+    if (syntaxError) errors.push(`Semantic function does not compile: ${syntaxError}`);
+    return errors;
+}
+
+// Replaces the user-defined part of the registry.
+export function applyUserInstructions(defs: CustomInstructionDefinition[]) {
+    ISA_INSTRUCTIONS.slice(BUILTIN_COUNT).forEach(instr => { delete ISA[instr.mnemonic]; });
+    ISA_INSTRUCTIONS.splice(BUILTIN_COUNT, ISA_INSTRUCTIONS.length - BUILTIN_COUNT, ...defs.map(toIsaInstruction));
+    ISA_INSTRUCTIONS.slice(BUILTIN_COUNT).forEach(instr => { ISA[instr.mnemonic] = instr; });
+    NN_INSTRUCTIONS.splice(0, NN_INSTRUCTIONS.length, ...ISA_INSTRUCTIONS.filter(instr => instr.extension === 'NN'));
+}
+
+export function loadUserInstructions(): CustomInstructionDefinition[] {
+    try {
+        const saved: CustomInstructionDefinition[] = JSON.parse(localStorage.getItem(USER_INSTRUCTIONS_KEY) || '[]');
+        // Drop anything that no longer validates (e.g. a mnemonic that has since become built in).
+        return saved.filter((def, i) => validateCustomInstruction(def, saved.slice(0, i)).length === 0);
+    } catch (e) {
+        console.error('Failed to load user-defined instructions:', e);
+        return [];
+    }
+}
+
+export function saveUserInstructions(defs: CustomInstructionDefinition[]) {
+    localStorage.setItem(USER_INSTRUCTIONS_KEY, JSON.stringify(defs));
+    applyUserInstructions(defs);
+}
+
+if (typeof localStorage !== 'undefined') applyUserInstructions(loadUserInstructions());
+
+export const usesFpRegister = (mnemonic: string, operand: RegisterOperand): boolean =>
+    ISA[mnemonic]?.fpOperands?.includes(operand) ?? false;
@@ -0,0 +1,146 @@
+// Memory-mapped devices of the SoC, in the MMIO window of the memory map (0x80000000-0x800000FF). The pipeline
+// simulator sends loads and stores in the window here instead of to data memory, bypassing the caches.
+// Registers are 32 bits wide; a sub-word store writes the low bits of the register it falls in.
+
+export const MMIO_BASE = 0x80000000;
+export const MMIO_SIZE = 0x100;
+
+// Register offsets from MMIO_BASE.
+export const MMIO_REGISTERS = {
+    ACCEL_CTRL: 0x00, // W: bit 0 starts the accelerator. R: bit 0 busy, bit 1 done
+    COMPLETE: 0x04, // W: signals that the program has finished; the value written is its exit code
+    ACCEL_SRC_A: 0x08, // Matrix A base address (rows x cols words, row-major)
+    ACCEL_SRC_B: 0x0C, // Vector B base address (cols words)
+    ACCEL_DST: 0x10, // Result vector C base address (rows words)
+    ACCEL_ROWS: 0x14,
+    ACCEL_COLS: 0x18,
+    UART_TX: 0x20, // W: the low byte is sent to the console
+    UART_STATUS: 0x24, // R: bit 0 transmitter ready (always set; the simulated UART never backs up)
+    GPIO_LEDS: 0x30, // R/W: LED i is lit while bit i is set
+} as const;
+
+export type MmioRegister = keyof typeof MMIO_REGISTERS;
+
+export const GPIO_LED_COUNT = 8;
+export const UART_BUFFER_CHARS = 4096; // Older console output is dropped beyond this
+export const MAX_ACCELERATOR_DIM = 256;
+
+// The accelerator computes C = relu(A x B), the mat_vec_relu kernel of the FPGA examples, one MAC per cycle.
+export interface AcceleratorState {
+    srcA: number;
+    srcB: number;
+    dst: number;
+    rows: number;
+    cols: number;
+    busy: boolean;
+    done: boolean; // Set on completion, cleared by the next start
+    cyclesRemaining: number;
+    runs: number;
+}
+
+export interface Completion {
+    code: number;
+    hart: number;
+}
+
+export interface DeviceState {
+    uart: string;
+    leds: number;
+    accelerator: AcceleratorState;
+    completion: Completion | null;
+}
+
+// A data memory word as the accelerator sees it; results are written back as floats when A holds floats.
+export interface DeviceWord {
+    value: number;
+    float: boolean;
+}
+
+export interface MemoryWrite extends DeviceWord {
+    address: number;
+}
+
+export const isMmioAddress = (address: number): boolean => {
+    const unsigned = address >>> 0;
+    return unsigned >= MMIO_BASE && unsigned < MMIO_BASE + MMIO_SIZE;
+};
+
+export function createDeviceState(): DeviceState {
+    return {
+        uart: '',
+        leds: 0,
+        accelerator: { srcA: 0, srcB: 0, dst: 0, rows: 0, cols: 0, busy: false, done: false, cyclesRemaining: 0, runs: 0 },
+        completion: null,
+    };
+}
+
+const registerOffset = (address: number): number => ((address >>> 0) - MMIO_BASE) & ~3;
+
+// Current value of the register at `address`. Unmapped offsets read as zero.
+export function readDevice(state: DeviceState, address: number): number {
+    const { accelerator } = state;
+    switch (registerOffset(address)) {
+        case MMIO_REGISTERS.ACCEL_CTRL: return (accelerator.busy ? 1 : 0) | (accelerator.done ? 2 : 0);
+        case MMIO_REGISTERS.COMPLETE: return state.completion?.code ?? 0;
+        case MMIO_REGISTERS.ACCEL_SRC_A: return accelerator.srcA | 0;
+        case MMIO_REGISTERS.ACCEL_SRC_B: return accelerator.srcB | 0;
+        case MMIO_REGISTERS.ACCEL_DST: return accelerator.dst | 0;
+        case MMIO_REGISTERS.ACCEL_ROWS: return accelerator.rows;
+        case MMIO_REGISTERS.ACCEL_COLS: return accelerator.cols;
+        case MMIO_REGISTERS.UART_STATUS: return 1;
+        case MMIO_REGISTERS.GPIO_LEDS: return state.leds;
+        default: return 0;
+    }
+}
+
+// Applies a store from hart `hart`. Writes to read-only or unmapped offsets are ignored, as are the
+// accelerator's registers while it is busy.
+export function writeDevice(state: DeviceState, address: number, value: number, hart: number): DeviceState {
+    const unsigned = value >>> 0;
+    const accelerator = state.accelerator;
+    const configure = (fields: Partial<AcceleratorState>): DeviceState =>
+        accelerator.busy ? state : { ...state, accelerator: { ...accelerator, ...fields } };
+    const dim = Math.min(unsigned, MAX_ACCELERATOR_DIM);
+
+    switch (registerOffset(address)) {
+        case MMIO_REGISTERS.ACCEL_CTRL:
+            if (!(unsigned & 1)) return state;
+            return configure({ busy: true, done: false, cyclesRemaining: Math.max(1, accelerator.rows * accelerator.cols) });
+        case MMIO_REGISTERS.COMPLETE: return state.completion ? state : { ...state, completion: { code: value | 0, hart } };
+        case MMIO_REGISTERS.ACCEL_SRC_A: return configure({ srcA: unsigned });
+        case MMIO_REGISTERS.ACCEL_SRC_B: return configure({ srcB: unsigned });
+        case MMIO_REGISTERS.ACCEL_DST: return configure({ dst: unsigned });
+        case MMIO_REGISTERS.ACCEL_ROWS: return configure({ rows: dim });
+        case MMIO_REGISTERS.ACCEL_COLS: return configure({ cols: dim });
+        case MMIO_REGISTERS.UART_TX:
+            return { ...state, uart: (state.uart + String.fromCharCode(unsigned & 0xFF)).slice(-UART_BUFFER_CHARS) };
+        case MMIO_REGISTERS.GPIO_LEDS: return { ...state, leds: unsigned & ((1 << GPIO_LED_COUNT) - 1) };
+        default: return state;
+    }
+}
+
+// Advances the devices by one clock cycle. When the accelerator finishes, it reads its operands through
+// `readWord` and returns the result vector as memory writes for the caller to apply.
+export function tickDevices(state: DeviceState, readWord: (address: number) => DeviceWord): { state: DeviceState; writes: MemoryWrite[] } {
+    const accelerator = state.accelerator;
+    if (!accelerator.busy) return { state, writes: [] };
+    if (accelerator.cyclesRemaining > 1) {
+        return { state: { ...state, accelerator: { ...accelerator, cyclesRemaining: accelerator.cyclesRemaining - 1 } }, writes: [] };
+    }
+
+    const { srcA, srcB, dst, rows, cols } = accelerator;
+    const float = readWord(srcA).float;
+    const writes: MemoryWrite[] = [];
+    for (let r = 0; r < rows; r++) {
+        let sum = 0;
+        for (let c = 0; c < cols; c++) {
+            sum += readWord(srcA + (r * cols + c) * 4).value * readWord(srcB + c * 4).value;
+        }
+        const relu = Math.max(0, sum);
+        writes.push({ address: (dst + r * 4) >>> 0, value: float ? Math.fround(relu) : relu | 0, float });
+    }
+    return {
+        state: { ...state, accelerator: { ...accelerator, busy: false, done: true, cyclesRemaining: 0, runs: accelerator.runs + 1 } },
+        writes,
+    };
+}
@@ -0,0 +1,73 @@
+// Performance analysis on top of the pipeline engine: the CPI breakdown of a run's counters, and the same
+// programs run under every combination of the microarchitecture toggles for a side-by-side comparison.
+import { load, createCounters } from './pipelineEngine';
+import type { BootImage, BranchResolution, CoreState, PerfCounters, PipelineConfig, Program, SimulatorConfig } from './pipelineEngine';
+import { runInWorker } from './engineWorkerClient';
+
+// Safety cap for a run to the end of the program, so a program that never terminates cannot hang the page.
+export const MAX_RUN_CYCLES = 10000;
+
+export const CPI_COMPONENTS = ['Base', 'Load-use', 'RAW', 'Branch flush', 'Custom EX', 'Cache miss', 'Contention', 'Fill/drain'] as const;
+export type CpiComponent = typeof CPI_COMPONENTS[number];
+
+// Splits CPI into an ideal base of 1 plus the cycles lost to each stall cause, per retired instruction.
+// Whatever is left over is the pipeline filling at the start and draining at the end of the run.
+export const cpiBreakdown = (counters: PerfCounters, contentionStalls: number): Record<CpiComponent, number> => {
+    const { cycles, retired, loadUseStalls, rawStalls, flushPenaltyCycles, customOccupancyCycles, cacheStallCycles } = counters;
+    if (retired === 0) return Object.fromEntries(CPI_COMPONENTS.map(key => [key, 0])) as Record<CpiComponent, number>;
+    const parts: Omit<Record<CpiComponent, number>, 'Fill/drain'> = {
+        'Base': 1,
+        'Load-use': loadUseStalls / retired,
+        'RAW': rawStalls / retired,
+        'Branch flush': flushPenaltyCycles / retired,
+        'Custom EX': customOccupancyCycles / retired,
+        'Cache miss': cacheStallCycles / retired,
+        'Contention': contentionStalls / retired,
+    };
+    const accounted = Object.values(parts).reduce((sum, value) => sum + value, 0);
+    return { ...parts, 'Fill/drain': Math.max(0, cycles / retired - accounted) };
+};
+
+// Every combination of the microarchitecture toggles, for the side-by-side comparison.
+export const MICROARCHITECTURES: PipelineConfig[] = [true, false].flatMap(forwarding =>
+    (['ex', 'id'] as BranchResolution[]).flatMap(branchResolution => [false, true].map(splitEx => ({ forwarding, branchResolution, splitEx }))));
+
+export const describePipeline = ({ forwarding, branchResolution, splitEx }: PipelineConfig): string =>
+    `${forwarding ? 'Forwarding' : 'No forwarding'}, branch in ${branchResolution.toUpperCase()}${splitEx ? ', split EX' : ''}`;
+
+export const samePipeline = (a: PipelineConfig, b: PipelineConfig): boolean =>
+    a.forwarding === b.forwarding && a.branchResolution === b.branchResolution && a.splitEx === b.splitEx;
+
+export type MicroarchitectureResult = { pipeline: PipelineConfig; cycles: number; finished: boolean; counters: PerfCounters; contentionStalls: number };
+
+export const sumCounters = (cores: CoreState[]): PerfCounters =>
+    cores.reduce((total, c) => {
+        const sum = { ...total };
+        (Object.keys(sum) as (keyof PerfCounters)[]).forEach(key => { sum[key] += c.counters[key]; });
+        return sum;
+    }, createCounters());
+
+// Runs the programs from reset under each microarchitecture, keeping everything else in `config`. The
+// runs go to the engine worker so the page stays responsive; `onProgress` gets the number of configurations
+// done. Returns null if `signal` aborts the comparison, and rejects as runInWorker does.
+export const compareMicroarchitectures = async (
+    programs: Program[], config: SimulatorConfig, coreCount: number, boot: BootImage | undefined,
+    onProgress: (done: number) => void, signal: AbortSignal,
+): Promise<MicroarchitectureResult[] | null> => {
+    const results: MicroarchitectureResult[] = [];
+    for (const pipeline of MICROARCHITECTURES) {
+        const runConfig = { ...config, pipeline };
+        const { machine, reason } = await runInWorker(load(programs.slice(0, coreCount), runConfig, boot), MAX_RUN_CYCLES, { signal });
+        if (signal.aborted) return null;
+        const { state } = machine;
+        results.push({
+            pipeline,
+            cycles: state.cycle,
+            finished: reason === 'finished',
+            counters: sumCounters(state.cores),
+            contentionStalls: state.cores.reduce((sum, c) => sum + c.contentionStalls, 0),
+        });
+        onProgress(results.length);
+    }
+    return results;
+};
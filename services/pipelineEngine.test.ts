@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { load, run, step, serializeMachine, deserializeMachine, readMemoryWord, TRAP_CAUSE_NAMES, DEFAULT_CONFIG } from './pipelineEngine';
+import type { Machine } from './pipelineEngine';
+
+const runToEnd = (machine: Machine) => run(machine, 10000);
+
+const registers = ({ machine }: { machine: Machine }) => machine.state.cores[0].registerFile;
+
+describe('hazards', () => {
+    const loadUse = [
+        'addi x1, x0, 42',
+        'sw x1, 0(x0)',
+        'lw x2, 0(x0)',
+        'add x3, x2, x2',
+    ].join('\n');
+
+    it('stalls a use right after a load once, even with forwarding', () => {
+        const result = runToEnd(load(loadUse));
+        expect(result.reason).toBe('finished');
+        expect(registers(result)[3]).toBe(84);
+        expect(result.machine.state.cores[0].counters.loadUseStalls).toBe(1);
+        expect(result.machine.state.cores[0].counters.rawStalls).toBe(0);
+    });
+
+    it('forwards ALU results without stalling', () => {
+        const result = runToEnd(load('addi x1, x0, 5\nadd x2, x1, x1\nadd x3, x2, x1'));
+        expect(registers(result).slice(1, 4)).toEqual([5, 10, 15]);
+        expect(result.machine.state.cores[0].counters.rawStalls).toBe(0);
+    });
+
+    it('stalls dependent instructions until write-back without forwarding', () => {
+        const config = { ...DEFAULT_CONFIG, pipeline: { ...DEFAULT_CONFIG.pipeline, forwarding: false } };
+        const result = runToEnd(load('addi x1, x0, 5\nadd x2, x1, x1', config));
+        expect(registers(result)[2]).toBe(10);
+        expect(result.machine.state.cores[0].counters.rawStalls).toBeGreaterThan(0);
+    });
+});
+
+describe('traps', () => {
+    it('halts on ecall without a handler and records the cause', () => {
+        const result = runToEnd(load('addi x1, x0, 1\necall\naddi x1, x0, 2'));
+        const { lastTrap, csrs } = result.machine.state.cores[0];
+        expect(result.reason).toBe('finished');
+        expect(TRAP_CAUSE_NAMES[lastTrap!.cause]).toBe('Environment call from M-mode');
+        expect(csrs.mepc).toBe(4);
+        expect(registers(result)[1]).toBe(1);
+    });
+
+    it('vectors a misaligned load to mtvec with the address in mtval', () => {
+        const source = [
+            'la x5, handler',
+            'csrw mtvec, x5',
+            'lw x1, 2(x0)',
+            'addi x6, x0, 1',
+            'handler:',
+            'addi x3, x0, 7',
+        ].join('\n');
+        const result = runToEnd(load(source));
+        const { lastTrap } = result.machine.state.cores[0];
+        expect(TRAP_CAUSE_NAMES[lastTrap!.cause]).toBe('Load address misaligned');
+        expect(lastTrap!.tval).toBe(2);
+        expect(registers(result)[6]).toBe(0);
+        expect(registers(result)[3]).toBe(7);
+    });
+});
+
+describe('MMIO', () => {
+    it('sends UART bytes to the console and ends the run on a completion write', () => {
+        const source = [
+            'li x1, 0x80000000',
+            'addi x2, x0, 72',
+            'sw x2, 0x20(x1)',
+            'addi x2, x0, 105',
+            'sw x2, 0x20(x1)',
+            'addi x2, x0, 3',
+            'sw x2, 4(x1)',
+            'loop:',
+            'j loop',
+        ].join('\n');
+        const result = runToEnd(load(source));
+        const { devices } = result.machine.state.shared;
+        expect(result.reason).toBe('finished');
+        expect(devices.uart).toBe('Hi');
+        expect(devices.completion).toEqual({ code: 3, hart: 0 });
+    });
+
+    it('does not write MMIO stores to data memory', () => {
+        const result = runToEnd(load('li x1, 0x80000000\naddi x2, x0, 5\nsw x2, 0x30(x1)'));
+        expect(result.machine.state.shared.devices.leds).toBe(5);
+        expect(readMemoryWord(result.machine.state.shared.memory, 0x80000030 / 4)).toBeUndefined();
+    });
+});
+
+describe('serialization', () => {
+    it('round-trips a machine mid-run, including special FP values', () => {
+        const source = [
+            'addi x1, x0, 0',
+            'fcvt.s.w f1, x1',
+            'fdiv.s f2, f1, f1', // NaN
+            'fneg.s f3, f1', // -0
+            'addi x2, x0, 1',
+            'fcvt.s.w f4, x2',
+            'fdiv.s f5, f4, f1', // Infinity
+            'fsw f5, 0(x0)',
+        ].join('\n');
+        let machine = load(source);
+        for (let i = 0; i < 6; i++) machine = step(machine);
+        const restored = deserializeMachine(serializeMachine(machine));
+        expect(restored).toEqual(machine);
+        expect(runToEnd(restored)).toEqual(runToEnd(machine));
+
+        const finished = deserializeMachine(serializeMachine(runToEnd(machine).machine));
+        const { fpRegisterFile } = finished.state.cores[0];
+        expect(fpRegisterFile[2]).toBeNaN();
+        expect(Object.is(fpRegisterFile[3], -0)).toBe(true);
+        expect(fpRegisterFile[5]).toBe(Infinity);
+        expect(readMemoryWord(finished.state.shared.memory, 0)?.value).toBe(Infinity);
+    });
+
+    it('rejects data that is not a saved machine', () => {
+        expect(() => deserializeMachine('{}')).toThrow('Not a saved pipeline machine.');
+    });
+});
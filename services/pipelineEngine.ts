@@ -0,0 +1,1081 @@
+// Headless cycle-accurate model of the 5-stage RV32IMF pipeline behind the Pipeline Visualizer. Everything
+// here is plain TypeScript over plain data: load a program, then step or run the machine without React,
+// for example from a worker, a test or another tool. Step functions never mutate their inputs.
+import { parseAssembly, parseImm, isFpReg, FP_REG_BASE, CONTROL_OPS } from './assembler';
+import type { Instruction as AssembledInstruction, AssemblyError } from './assembler';
+import { ISA, ISA_INSTRUCTIONS, CSR_ADDRESSES, isReadOnlyCsr } from './isa';
+import { createDeviceState, isMmioAddress, readDevice, writeDevice, tickDevices } from './mmio';
+import type { DeviceState } from './mmio';
+import { dataWords } from './elf';
+import type { ElfImage } from './elf';
+import { predict, resolveBranch, createPredictorState, DEFAULT_PREDICTOR, MISPREDICT_PENALTY_CYCLES } from './branchPredictor';
+import type { PredictorConfig, PredictorState, Prediction } from './branchPredictor';
+import { accessHierarchy, createCacheState, DEFAULT_ICACHE, DEFAULT_DCACHE, DEFAULT_L2 } from './cache';
+import type { CacheConfig, CacheState } from './cache';
+
+export type Instruction = AssembledInstruction & { color?: string };
+
+export type PipelineStage = {
+    instr: Instruction | null;
+    pc: number | null;
+    isStall?: boolean;
+    isFlush?: boolean;
+    result?: number;
+    address?: number; // For memory instructions
+    cyclesRemaining?: number; // EX occupancy left for multi-cycle custom instructions
+    prediction?: Prediction; // Fetch-time prediction for control instructions, checked in EX
+    missCyclesRemaining?: number; // Refill cycles left after an L1 miss in IF or MEM
+    seq?: number; // Dynamic instruction number on its hart, assigned at fetch
+};
+
+export type CacheAccessMarker = { set: number; way: number; hit: boolean };
+
+// Data memory is word-granular; each word remembers whether it was last written as an integer or an
+// IEEE-754 single so the display can show it naturally. Reads reinterpret the bits when the types differ.
+export type MemoryWord = { value: number; type: 'int' | 'float' };
+
+// Words are grouped into pages keyed by word address. Memory is never mutated: a store copies the page
+// table and the one page it writes, so consecutive snapshots share every other page and the cost of a
+// cycle does not grow with the size of a loaded executable's data.
+export type MemoryPage = Record<number, MemoryWord>;
+export type DataMemory = { pages: Record<number, MemoryPage> };
+
+export const MEMORY_PAGE_BYTES = 256;
+
+const pageNumber = (address: number): number => Math.floor(address / MEMORY_PAGE_BYTES);
+
+// Define a specific type for pipeline stage names to fix multiple 'property does not exist on type unknown' errors.
+export type PipelineStageName = 'if' | 'id' | 'ex' | 'xu' | 'mem' | 'wb';
+
+export const initialPipeline: Record<PipelineStageName, PipelineStage> = {
+    if: { instr: null, pc: null },
+    id: { instr: null, pc: null },
+    ex: { instr: null, pc: null },
+    xu: { instr: null, pc: null },
+    mem: { instr: null, pc: null },
+    wb: { instr: null, pc: null },
+};
+
+const COLORS = [
+    '#38bdf8', // sky-400
+    '#34d399', // emerald-400
+    '#facc15', // amber-400
+    '#fb923c', // orange-400
+    '#f87171', // red-400
+    '#a78bfa', // violet-400
+];
+
+// EX-stage occupancy comes from the ISA registry; only the multi-cycle NN units take more than one cycle.
+export const exLatency = (op: string): number => ISA[op]?.latency ?? 1;
+
+export const LOAD_OPS = ISA_INSTRUCTIONS.filter(instr => instr.format === 'LOAD').map(instr => instr.mnemonic);
+const STORE_OPS = ISA_INSTRUCTIONS.filter(instr => instr.format === 'STORE').map(instr => instr.mnemonic);
+const ACCESS_SIZE: Record<string, number> = { lb: 1, lbu: 1, sb: 1, lh: 2, lhu: 2, sh: 2, lw: 4, sw: 4, flw: 4, fsw: 4 };
+
+const f32View = new Float32Array(1);
+const i32View = new Int32Array(f32View.buffer);
+export const floatToBits = (value: number): number => { f32View[0] = value; return i32View[0]; };
+const bitsToFloat = (bits: number): number => { i32View[0] = bits; return f32View[0]; };
+
+export const wordAsInt = (word?: MemoryWord): number => !word ? 0 : word.type === 'float' ? floatToBits(word.value) : word.value;
+const wordAsFloat = (word?: MemoryWord): number => !word ? 0 : word.type === 'int' ? bitsToFloat(word.value) : word.value;
+
+// Memory is byte-addressed but stored as aligned words; sub-word and misaligned accesses are
+// assembled byte by byte (little-endian) from the words they touch.
+export const wordAddress = (address: number): number => (address & ~3) >>> 0;
+
+export const readMemoryWord = (memory: DataMemory, address: number): MemoryWord | undefined =>
+    memory.pages[pageNumber(address)]?.[address];
+
+// Returns memory with the given words (keyed by word address) written.
+export const writeMemoryWords = (memory: DataMemory, words: [number, MemoryWord][]): DataMemory => {
+    if (words.length === 0) return memory;
+    const pages = { ...memory.pages };
+    const copied = new Set<number>();
+    words.forEach(([address, word]) => {
+        const page = pageNumber(address);
+        if (!copied.has(page)) {
+            pages[page] = { ...pages[page] };
+            copied.add(page);
+        }
+        pages[page][address] = word;
+    });
+    return { pages };
+};
+
+export const createDataMemory = (words: Record<number, MemoryWord>): DataMemory =>
+    writeMemoryWords({ pages: {} }, Object.entries(words).map(([address, word]) => [Number(address), word]));
+
+// Every stored word in ascending address order.
+export const memoryEntries = (memory: DataMemory): [number, MemoryWord][] =>
+    Object.values(memory.pages)
+        .flatMap(page => Object.entries(page).map(([address, word]): [number, MemoryWord] => [Number(address), word]))
+        .sort((a, b) => a[0] - b[0]);
+
+const readBytes = (memory: DataMemory, address: number, size: number): number => {
+    let value = 0;
+    for (let i = 0; i < size; i++) {
+        const byteAddress = (address + i) >>> 0;
+        const byte = (wordAsInt(readMemoryWord(memory, wordAddress(byteAddress))) >>> ((byteAddress & 3) * 8)) & 0xFF;
+        value |= byte << (i * 8);
+    }
+    return value;
+};
+
+const writeBytes = (memory: DataMemory, address: number, size: number, value: number): DataMemory => {
+    const words = new Map<number, number>();
+    for (let i = 0; i < size; i++) {
+        const byteAddress = (address + i) >>> 0;
+        const shift = (byteAddress & 3) * 8;
+        const target = wordAddress(byteAddress);
+        const word = words.get(target) ?? wordAsInt(readMemoryWord(memory, target));
+        words.set(target, (word & ~(0xFF << shift)) | (((value >>> (i * 8)) & 0xFF) << shift));
+    }
+    return writeMemoryWords(memory, [...words].map(([target, word]): [number, MemoryWord] => [target, { value: word, type: 'int' }]));
+};
+
+const loadMemory = (memory: DataMemory, address: number, op: string): number => {
+    const size = ACCESS_SIZE[op];
+    if (size === 4 && (address & 3) === 0) {
+        const word = readMemoryWord(memory, address);
+        return op === 'flw' ? wordAsFloat(word) : wordAsInt(word);
+    }
+    const raw = readBytes(memory, address, size);
+    switch (op) {
+        case 'lb': return (raw << 24) >> 24;
+        case 'lh': return (raw << 16) >> 16;
+        case 'flw': return bitsToFloat(raw);
+        default: return raw;
+    }
+};
+
+const storeMemory = (memory: DataMemory, address: number, op: string, value: number): DataMemory => {
+    const size = ACCESS_SIZE[op];
+    if (size === 4 && (address & 3) === 0) {
+        return writeMemoryWords(memory, [[address, op === 'fsw' ? { value: Math.fround(value), type: 'float' } : { value, type: 'int' }]]);
+    }
+    return writeBytes(memory, address, size, op === 'fsw' ? floatToBits(value) : value);
+};
+
+// High 32 bits of the 64-bit product for mulh/mulhsu/mulhu.
+const mulHigh = (a: bigint, b: bigint): number => Number(BigInt.asIntN(32, (a * b) >> 32n));
+
+// fcvt.w[u].s rounding, honouring a static rounding-mode operand (dynamic mode defaults to RNE).
+const roundFloat = (value: number, rm?: string): number => {
+    switch (rm) {
+        case 'rtz': return Math.trunc(value);
+        case 'rdn': return Math.floor(value);
+        case 'rup': return Math.ceil(value);
+        case 'rmm': return Math.sign(value) * Math.round(Math.abs(value));
+        default: {
+            const floor = Math.floor(value);
+            const diff = value - floor;
+            if (diff !== 0.5) return Math.round(value);
+            return floor % 2 === 0 ? floor : floor + 1;
+        }
+    }
+};
+
+const fcvtToInt = (value: number, rm: string | undefined, unsigned: boolean): number => {
+    const min = unsigned ? 0 : -0x80000000;
+    const max = unsigned ? 0xFFFFFFFF : 0x7FFFFFFF;
+    if (Number.isNaN(value)) return max | 0;
+    return Math.min(max, Math.max(min, roundFloat(value, rm))) | 0;
+};
+
+const fclass = (value: number): number => {
+    const negative = value < 0 || Object.is(value, -0);
+    if (Number.isNaN(value)) return (floatToBits(value) & 0x00400000) ? 1 << 9 : 1 << 8;
+    if (!Number.isFinite(value)) return negative ? 1 << 0 : 1 << 7;
+    if (value === 0) return negative ? 1 << 3 : 1 << 4;
+    const subnormal = Math.abs(value) < 1.1754943508222875e-38;
+    if (negative) return subnormal ? 1 << 2 : 1 << 1;
+    return subnormal ? 1 << 5 : 1 << 6;
+};
+
+const fminmax = (a: number, b: number, isMax: boolean): number => {
+    if (Number.isNaN(a) && Number.isNaN(b)) return NaN;
+    if (Number.isNaN(a)) return b;
+    if (Number.isNaN(b)) return a;
+    return isMax ? Math.max(a, b) : Math.min(a, b);
+};
+
+// PC-relative branch/jal target as an instruction index. Labels resolve to indices; numeric targets are
+// byte offsets from the instruction.
+const decodedTarget = (instr: Instruction, labels: Record<string, number>): number | undefined => {
+    if (instr.target === undefined) return undefined;
+    if (labels[instr.target] !== undefined) return labels[instr.target];
+    return instr.pc + Math.trunc((parseImm(instr.target) ?? 0) / 4);
+};
+
+export const readsReg = (instr: Instruction | null | undefined, reg?: number): boolean =>
+    !!instr && reg !== undefined && reg !== 0 && (instr.rs1 === reg || instr.rs2 === reg || instr.rs3 === reg);
+
+type MemoryAccess = { address: number; type: 'read' | 'write' };
+
+export const writesReg = (instr: Instruction | null | undefined): number | undefined =>
+    instr?.rd !== undefined && instr.rd !== 0 ? instr.rd : undefined;
+
+// RAW hazards that forwarding cannot cover for the instruction in ID. Without forwarding, operands come
+// only from the register file, so any producer still in EX, the XU or MEM stalls it. With forwarding, a
+// branch resolved in ID still needs its operands a cycle earlier than EX would: an ALU result computed this
+// cycle or a load still in MEM is too late.
+export const readsUnavailableOperand = (
+    instr: Instruction | null, pipeline: Record<PipelineStageName, PipelineStage>, { forwarding, branchResolution }: PipelineConfig,
+): boolean => {
+    if (!instr) return false;
+    if (!forwarding) {
+        return [pipeline.ex, pipeline.xu, pipeline.mem].some(stage => readsReg(instr, writesReg(stage.instr)));
+    }
+    if (branchResolution !== 'id' || !CONTROL_OPS.includes(instr.op)) return false;
+    const memLoad = pipeline.mem.instr && LOAD_OPS.includes(pipeline.mem.instr.op) ? pipeline.mem.instr : null;
+    return readsReg(instr, writesReg(pipeline.ex.instr)) || readsReg(instr, writesReg(memLoad));
+};
+
+// While the XU works, the instruction in ID waits if it reads or overwrites the XU's destination (results
+// complete out of order) or needs the XU itself, which is not pipelined.
+export const isXuBlocked = (instr: Instruction | null, xuInstr: Instruction | null): boolean => {
+    if (!instr || !xuInstr) return false;
+    const rd = writesReg(xuInstr);
+    return readsReg(instr, rd) || (rd !== undefined && writesReg(instr) === rd) || isMultiCycle(instr);
+};
+
+// Per-hart performance counters. Stall counters record the cycle in which each bubble is created, so
+// each lost cycle is attributed to one cause.
+export type PerfCounters = {
+    cycles: number;
+    retired: number; // Instructions leaving WB
+    loadUseStalls: number;
+    rawStalls: number; // Other RAW stalls: forwarding disabled, or branch operands not ready in ID
+    branchFlushes: number; // Mispredicted branches and jumps
+    flushPenaltyCycles: number;
+    forwardsFromEx: number; // Operands forwarded EX -> ID
+    forwardsFromXu: number; // Operands forwarded from a finishing custom unit (split EX)
+    forwardsFromMem: number; // Operands forwarded MEM -> ID
+    customOccupancyCycles: number; // Stalls behind multi-cycle custom instructions, in EX or the XU
+    cacheStallCycles: number; // Cycles frozen on an L1 refill in IF or MEM
+};
+
+// Machine-mode CSR file. mcycle and minstret tick alongside the performance counters but, unlike them,
+// firmware can write them. Counters are kept unsigned and may exceed 32 bits; the *h CSRs read the top half.
+export type CsrFile = {
+    mstatus: number;
+    mtvec: number;
+    mscratch: number;
+    mepc: number;
+    mcause: number;
+    mtval: number;
+    mcycle: number;
+    minstret: number;
+};
+
+export const CSR_FILE_NAMES: (keyof CsrFile)[] = ['mstatus', 'mtvec', 'mscratch', 'mepc', 'mcause', 'mtval', 'mcycle', 'minstret'];
+
+// Only machine mode exists, so mstatus.MPP is hardwired to M.
+export const MSTATUS_MIE = 1 << 3;
+export const MSTATUS_MPIE = 1 << 7;
+const MSTATUS_MPP = 3 << 11;
+
+// RV32 with the I, M, F and non-standard (X) extensions.
+const MISA = (1 << 30) | (1 << 8) | (1 << 12) | (1 << 5) | (1 << 23);
+
+const CAUSE_MISALIGNED_FETCH = 0;
+const CAUSE_ILLEGAL_INSTRUCTION = 2;
+export const CAUSE_BREAKPOINT = 3;
+const CAUSE_MISALIGNED_LOAD = 4;
+const CAUSE_MISALIGNED_STORE = 6;
+const CAUSE_ECALL_M = 11;
+
+export const TRAP_CAUSE_NAMES: Record<number, string> = {
+    [CAUSE_MISALIGNED_FETCH]: 'Instruction address misaligned',
+    [CAUSE_ILLEGAL_INSTRUCTION]: 'Illegal instruction',
+    [CAUSE_BREAKPOINT]: 'Breakpoint',
+    [CAUSE_MISALIGNED_LOAD]: 'Load address misaligned',
+    [CAUSE_MISALIGNED_STORE]: 'Store address misaligned',
+    [CAUSE_ECALL_M]: 'Environment call from M-mode',
+};
+
+// A taken exception. With mtvec still 0 no handler is installed and the hart halts instead of vectoring.
+export type Trap = { cause: number; pc: number; tval: number; handled: boolean };
+
+const createCsrFile = (): CsrFile => ({ mstatus: MSTATUS_MPP, mtvec: 0, mscratch: 0, mepc: 0, mcause: 0, mtval: 0, mcycle: 0, minstret: 0 });
+
+const TWO_POW_32 = 2 ** 32;
+const low32 = (counter: number) => counter % TWO_POW_32;
+const high32 = (counter: number) => Math.floor(counter / TWO_POW_32);
+
+// Current value of a CSR as a signed register value, or undefined when the hart does not implement it.
+const readCsr = (csrs: CsrFile, hartId: number, address: number): number | undefined => {
+    switch (address) {
+        case CSR_ADDRESSES.mstatus: return csrs.mstatus;
+        case CSR_ADDRESSES.misa: return MISA;
+        case CSR_ADDRESSES.mtvec: return csrs.mtvec | 0;
+        case CSR_ADDRESSES.mscratch: return csrs.mscratch | 0;
+        case CSR_ADDRESSES.mepc: return csrs.mepc | 0;
+        case CSR_ADDRESSES.mcause: return csrs.mcause | 0;
+        case CSR_ADDRESSES.mtval: return csrs.mtval | 0;
+        case CSR_ADDRESSES.mcycle:
+        case CSR_ADDRESSES.cycle: return low32(csrs.mcycle) | 0;
+        case CSR_ADDRESSES.minstret:
+        case CSR_ADDRESSES.instret: return low32(csrs.minstret) | 0;
+        case CSR_ADDRESSES.mcycleh:
+        case CSR_ADDRESSES.cycleh: return high32(csrs.mcycle) | 0;
+        case CSR_ADDRESSES.minstreth:
+        case CSR_ADDRESSES.instreth: return high32(csrs.minstret) | 0;
+        case CSR_ADDRESSES.mhartid: return hartId;
+        default: return undefined;
+    }
+};
+
+// Returns the updated CSR file, or null when the CSR is missing or read-only, which makes the access illegal.
+// WARL fields keep their legal values: misa is fixed, mtvec only supports direct mode and mepc is word aligned.
+const writeCsr = (csrs: CsrFile, address: number, value: number): CsrFile | null => {
+    if (isReadOnlyCsr(address)) return null;
+    const unsigned = value >>> 0;
+    switch (address) {
+        case CSR_ADDRESSES.mstatus: return { ...csrs, mstatus: (unsigned & (MSTATUS_MIE | MSTATUS_MPIE)) | MSTATUS_MPP };
+        case CSR_ADDRESSES.misa: return csrs;
+        case CSR_ADDRESSES.mtvec: return { ...csrs, mtvec: (unsigned & ~3) >>> 0 };
+        case CSR_ADDRESSES.mscratch: return { ...csrs, mscratch: unsigned };
+        case CSR_ADDRESSES.mepc: return { ...csrs, mepc: (unsigned & ~3) >>> 0 };
+        case CSR_ADDRESSES.mcause: return { ...csrs, mcause: unsigned };
+        case CSR_ADDRESSES.mtval: return { ...csrs, mtval: unsigned };
+        case CSR_ADDRESSES.mcycle: return { ...csrs, mcycle: high32(csrs.mcycle) * TWO_POW_32 + unsigned };
+        case CSR_ADDRESSES.mcycleh: return { ...csrs, mcycle: unsigned * TWO_POW_32 + low32(csrs.mcycle) };
+        case CSR_ADDRESSES.minstret: return { ...csrs, minstret: high32(csrs.minstret) * TWO_POW_32 + unsigned };
+        case CSR_ADDRESSES.minstreth: return { ...csrs, minstret: unsigned * TWO_POW_32 + low32(csrs.minstret) };
+        default: return null;
+    }
+};
+
+// Executes a Zicsr instruction: returns the old value for rd and the new CSR file, or null if it is illegal.
+// csrrs/csrrc with x0 (or a zero immediate) only read, so they may target read-only CSRs.
+const accessCsr = (csrs: CsrFile, hartId: number, { op, csr, rs1, imm }: Instruction, rs1Value: number): { csrs: CsrFile; value: number } | null => {
+    const address = csr ?? 0;
+    const old = readCsr(csrs, hartId, address);
+    if (old === undefined) return null;
+    const immediate = op.endsWith('i');
+    const source = immediate ? (imm ?? 0) : rs1Value;
+    const isWrite = op.startsWith('csrrw');
+    if (!isWrite && (immediate ? source === 0 : !rs1)) return { csrs, value: old };
+    const value = isWrite ? source : op.startsWith('csrrs') ? old | source : old & ~source;
+    const next = writeCsr(csrs, address, value);
+    return next && { csrs: next, value: old };
+};
+
+export type Program = { instructions: Instruction[]; labels: Record<string, number> };
+
+export type BranchResolution = 'id' | 'ex';
+
+// Microarchitecture toggles for design-space studies.
+export type PipelineConfig = {
+    forwarding: boolean; // Off: every RAW dependency stalls until the producer has written back
+    branchResolution: BranchResolution; // ID halves the mispredict penalty, but branch operands must be ready in ID
+    splitEx: boolean; // Multi-cycle custom instructions run in a separate unit (XU) instead of holding EX
+};
+
+const DEFAULT_PIPELINE: PipelineConfig = { forwarding: true, branchResolution: 'ex', splitEx: false };
+
+export type SimulatorConfig = { pipeline: PipelineConfig; predictor: PredictorConfig; icache: CacheConfig; dcache: CacheConfig; l2: CacheConfig };
+
+export const DEFAULT_CONFIG: SimulatorConfig = {
+    pipeline: DEFAULT_PIPELINE, predictor: DEFAULT_PREDICTOR, icache: DEFAULT_ICACHE, dcache: DEFAULT_DCACHE, l2: DEFAULT_L2,
+};
+
+// Branch resolution in ID squashes only the instruction fetched behind the branch.
+export const mispredictPenalty = ({ branchResolution }: PipelineConfig): number => branchResolution === 'id' ? 1 : MISPREDICT_PENALTY_CYCLES;
+
+const isMultiCycle = (instr: Instruction | null | undefined): boolean => !!instr && exLatency(instr.op) > 1;
+
+// Per-hart state: its pipeline, architectural registers and private predictor and L1 caches.
+export type CoreState = {
+    pc: number;
+    pipeline: Record<PipelineStageName, PipelineStage>;
+    registerFile: number[];
+    fpRegisterFile: number[];
+    predictorState: PredictorState;
+    icacheState: CacheState;
+    dcacheState: CacheState;
+    lastWrittenReg: number | null;
+    memoryAccess: MemoryAccess | null;
+    cacheAccess: { i?: CacheAccessMarker; d?: CacheAccessMarker };
+    waitingForAccelerator: boolean; // Stalled in ID this cycle because the other hart holds the NN accelerator
+    contentionStalls: number;
+    fetchCount: number; // Instructions fetched so far, including wrong-path ones; numbers the next fetch
+    counters: PerfCounters;
+    hartId: number;
+    csrs: CsrFile;
+    lastTrap: Trap | null; // Replaced by a new object on every trap
+};
+
+// State shared by all harts, including the memory-mapped devices. The NN accelerator is shared too; who
+// holds it follows from the harts' EX stages.
+export type SharedState = { memory: DataMemory; l2State: CacheState; devices: DeviceState };
+
+type StepContext = { program: Program; config: SimulatorConfig; acceleratorAvailable: boolean };
+type StepResult = { core: CoreState; shared: SharedState; issuedToAccelerator: boolean };
+
+const DATA_MEMORY_TOP = 0x10008000;
+const STACK_BYTES_PER_CORE = 0x1000;
+
+export const createCounters = (): PerfCounters => ({
+    cycles: 0, retired: 0, loadUseStalls: 0, rawStalls: 0, branchFlushes: 0, flushPenaltyCycles: 0,
+    forwardsFromEx: 0, forwardsFromXu: 0, forwardsFromMem: 0, customOccupancyCycles: 0, cacheStallCycles: 0,
+});
+
+// Reset state taken from a loaded executable: core 0's entry point and the initial data memory.
+export type BootImage = { entryPc: number; memory: DataMemory };
+
+export const bootImageFromElf = (image: ElfImage): BootImage => ({
+    entryPc: image.entry / 4,
+    memory: createDataMemory(Object.fromEntries(Object.entries(dataWords(image)).map(([address, value]) => [address, { value, type: 'int' }]))),
+});
+
+const createCore = (coreId: number, config: SimulatorConfig, entryPc = 0): CoreState => {
+    const regs = Array(32).fill(0);
+    regs[1] = 256; // x1 = base address for lw/sw
+    regs[2] = DATA_MEMORY_TOP - coreId * STACK_BYTES_PER_CORE; // sp = top of this hart's stack in data memory (see Memory Map)
+    regs[10] = coreId; // a0 = hart id, as a boot loader passes it
+    return {
+        pc: entryPc,
+        pipeline: initialPipeline,
+        registerFile: regs,
+        fpRegisterFile: Array(32).fill(0),
+        predictorState: createPredictorState(config.predictor),
+        icacheState: createCacheState(config.icache),
+        dcacheState: createCacheState(config.dcache),
+        lastWrittenReg: null,
+        memoryAccess: null,
+        cacheAccess: {},
+        waitingForAccelerator: false,
+        contentionStalls: 0,
+        fetchCount: 0,
+        counters: createCounters(),
+        hartId: coreId,
+        csrs: createCsrFile(),
+        lastTrap: null,
+    };
+};
+
+const createSharedState = (config: SimulatorConfig, memory?: DataMemory): SharedState => ({
+    memory: memory ?? createDataMemory({ 256: { value: 42, type: 'int' } }),
+    l2State: createCacheState(config.l2),
+    devices: createDeviceState(),
+});
+
+export const isNnOp = (instr: Instruction | null | undefined): boolean => !!instr && ISA[instr.op]?.extension === 'NN';
+
+// True while an NN instruction stays in this hart's EX stage or custom unit for at least one more cycle.
+const holdsAccelerator = ({ pipeline }: CoreState): boolean => {
+    const memBusy = pipeline.mem.instr !== null && (pipeline.mem.missCyclesRemaining ?? 0) > 0;
+    return [pipeline.ex, pipeline.xu].some(stage => isNnOp(stage.instr) && ((stage.cyclesRemaining ?? 1) > 1 || memBusy));
+};
+
+const isCoreFinished = (core: CoreState, program: Program): boolean =>
+    core.pc >= program.instructions.length && Object.values(core.pipeline).every((stage: PipelineStage) => stage.instr === null);
+
+// A write to the completion register ends the run for every hart, as it does on the board.
+export const isSystemFinished = ({ cores, shared }: SystemState, programs: Program[]): boolean =>
+    shared.devices.completion !== null || cores.every((core, i) => !programs[i] || isCoreFinished(core, programs[i]));
+
+// Advances one hart by a clock cycle. Data memory and the L2 are shared, so harts are stepped one after
+// another within a cycle and each sees the stores of those stepped before it.
+const stepCore = (core: CoreState, shared: SharedState, { program, config, acceleratorAvailable }: StepContext): StepResult => {
+    const { pipeline, pc, registerFile, fpRegisterFile } = core;
+    const { instructions, labels } = program;
+    const { forwarding, branchResolution, splitEx } = config.pipeline;
+
+    let newPc = pc;
+    let stallId = false;
+    let flushIf = false;
+    let flushId = false;
+    let regWrittenThisCycle: number | null = null;
+    let branchTaken = false;
+    let mispredicted = false;
+    let redirected = false; // Trap entry or mret
+    let trap: { cause: number; tval: number } | null = null;
+    let newLastTrap = core.lastTrap;
+    let newPredictorState = core.predictorState;
+    let newIcacheState = core.icacheState;
+    let newDcacheState = core.dcacheState;
+    let newL2State = shared.l2State;
+    let newDevices = shared.devices;
+    let waitingForAccelerator = false;
+    let fetchCount = core.fetchCount;
+    const counters: PerfCounters = { ...core.counters, cycles: core.counters.cycles + 1 };
+    const newCacheAccess: { i?: CacheAccessMarker; d?: CacheAccessMarker } = {};
+    let newMemoryAccessStatus: { address: number, type: 'read' | 'write' } | null = null;
+
+    const newPipeline: Record<PipelineStageName, PipelineStage> = {
+        if: { instr: null, pc: null },
+        id: { instr: null, pc: null },
+        ex: { instr: null, pc: null },
+        xu: { instr: null, pc: null },
+        mem: { instr: null, pc: null },
+        wb: { instr: null, pc: null },
+    };
+    const newRegisterFile = [...registerFile];
+    const newFpRegisterFile = [...fpRegisterFile];
+    let newMemory = shared.memory;
+    let newCsrs: CsrFile = { ...core.csrs, mcycle: core.csrs.mcycle + 1 };
+
+    // An instruction waiting on a D-cache refill holds MEM and freezes everything behind it.
+    const memBusy = pipeline.mem.instr !== null && (pipeline.mem.missCyclesRemaining ?? 0) > 0;
+    // A fetch waiting on an I-cache refill holds IF; ID receives bubbles until it arrives.
+    const ifBusy = pipeline.if.instr !== null && (pipeline.if.missCyclesRemaining ?? 0) > 0;
+
+    // --- WB Stage ---
+    const wb_instr = memBusy ? null : pipeline.mem.instr;
+    const wb_result = memBusy ? undefined : pipeline.mem.result;
+    if (wb_instr?.rd !== undefined && wb_instr.rd !== 0 && wb_result !== undefined) {
+        if (isFpReg(wb_instr.rd)) {
+            newFpRegisterFile[wb_instr.rd - FP_REG_BASE] = Math.fround(wb_result);
+        } else {
+            newRegisterFile[wb_instr.rd] = wb_result;
+        }
+        regWrittenThisCycle = wb_instr.rd;
+    }
+    if (wb_instr) newCsrs.minstret++;
+    newPipeline.wb = memBusy
+        ? { instr: null, pc: null, isStall: true }
+        : { instr: wb_instr, pc: pipeline.mem.pc, result: wb_result, seq: pipeline.mem.seq };
+
+    // A multi-cycle custom instruction holds EX; MEM receives a bubble until it completes.
+    const exBusy = pipeline.ex.instr !== null && (pipeline.ex.cyclesRemaining ?? 1) > 1;
+    // With split EX it runs in the custom unit instead. A finishing XU instruction is older than the one in
+    // EX, so it takes the MEM port and EX holds its instruction for a cycle.
+    const xuDone = pipeline.xu.instr !== null && (pipeline.xu.cyclesRemaining ?? 1) <= 1;
+    const xuBusy = pipeline.xu.instr !== null && !xuDone;
+    const portConflict = xuDone && pipeline.ex.instr !== null;
+
+    // --- MEM Stage ---
+    const memSource: PipelineStage | null = memBusy || exBusy ? null : xuDone ? pipeline.xu : pipeline.ex;
+    const mem_instr = memSource?.instr ?? null;
+    const mem_addr = memSource?.address;
+    let mem_result = memSource?.result;
+    let memMissCycles = 0;
+    // Device registers are uncached.
+    const isMmio = mem_addr !== undefined && isMmioAddress(mem_addr);
+
+    if (mem_instr && config.dcache.enabled && mem_addr !== undefined && !isMmio && (LOAD_OPS.includes(mem_instr.op) || STORE_OPS.includes(mem_instr.op))) {
+        const access = accessHierarchy(config.dcache, newDcacheState, config.l2, newL2State, mem_addr, STORE_OPS.includes(mem_instr.op));
+        newDcacheState = access.l1.state;
+        newL2State = access.l2State;
+        memMissCycles = access.stallCycles;
+        newCacheAccess.d = { set: access.l1.set, way: access.l1.way, hit: access.l1.hit };
+    }
+
+    if (mem_instr && LOAD_OPS.includes(mem_instr.op) && mem_addr !== undefined) {
+        // A device register is read through a one-word memory so that sub-word loads extract it as usual.
+        const source: DataMemory = isMmio ? createDataMemory({ [wordAddress(mem_addr)]: { value: readDevice(newDevices, mem_addr), type: 'int' } }) : shared.memory;
+        mem_result = loadMemory(source, mem_addr, mem_instr.op);
+        newMemoryAccessStatus = { address: wordAddress(mem_addr), type: 'read' };
+    } else if (mem_instr && STORE_OPS.includes(mem_instr.op) && mem_addr !== undefined) {
+        const value = memSource?.result ?? 0;
+        if (isMmio) {
+            const bits = mem_instr.op === 'fsw' ? floatToBits(value) : value;
+            const size = ACCESS_SIZE[mem_instr.op];
+            newDevices = writeDevice(newDevices, mem_addr, size === 4 ? bits : bits & ((1 << (size * 8)) - 1), core.hartId);
+        } else {
+            newMemory = storeMemory(newMemory, mem_addr, mem_instr.op, value);
+        }
+        newMemoryAccessStatus = { address: wordAddress(mem_addr), type: 'write' };
+    }
+    if (memBusy) {
+        newPipeline.mem = { ...pipeline.mem, missCyclesRemaining: (pipeline.mem.missCyclesRemaining ?? 1) - 1 };
+    } else {
+        newPipeline.mem = !memSource
+            ? { instr: null, pc: null, isStall: true }
+            : { instr: mem_instr, pc: memSource.pc, result: mem_result, address: mem_addr, missCyclesRemaining: memMissCycles, seq: memSource.seq };
+    }
+
+    // --- XU (custom unit, split EX only) ---
+    if (memBusy) {
+        newPipeline.xu = pipeline.xu;
+    } else if (xuBusy) {
+        newPipeline.xu = { ...pipeline.xu, cyclesRemaining: (pipeline.xu.cyclesRemaining ?? 1) - 1 };
+    }
+
+    // --- EX Stage ---
+    // A flushed ID slot holds a wrong-path instruction that must not execute.
+    const id_instr_for_ex = pipeline.id.isFlush ? null : pipeline.id.instr;
+    const loadUse = forwarding && !!pipeline.ex.instr && LOAD_OPS.includes(pipeline.ex.instr.op) && readsReg(id_instr_for_ex, pipeline.ex.instr.rd);
+    const rawStall = readsUnavailableOperand(id_instr_for_ex, pipeline, config.pipeline);
+    const xuStall = xuBusy && isXuBlocked(id_instr_for_ex, pipeline.xu.instr);
+    if (memBusy || exBusy || portConflict || loadUse || rawStall || xuStall) {
+         stallId = true;
+    }
+    // Structural hazard across harts: the NN accelerator is shared, so an NN instruction waits in ID
+    // while the other core holds it.
+    if (!stallId && isNnOp(id_instr_for_ex) && !acceleratorAvailable) {
+        stallId = true;
+        waitingForAccelerator = true;
+    }
+
+    let ex_result: number | undefined = undefined;
+    let ex_address: number | undefined = undefined;
+
+    if (!stallId && id_instr_for_ex) {
+        const getValue = (regNum?: number): number => {
+            if (regNum === undefined || regNum === 0) return 0;
+            // The instruction leaving EX is younger than the one leaving MEM, so it wins.
+            if (!forwarding) return isFpReg(regNum) ? fpRegisterFile[regNum - FP_REG_BASE] : registerFile[regNum];
+            if (pipeline.ex.instr?.rd === regNum && pipeline.ex.result !== undefined) {
+                counters.forwardsFromEx++;
+                return pipeline.ex.result;
+            }
+            if (xuDone && pipeline.xu.instr?.rd === regNum && pipeline.xu.result !== undefined) {
+                counters.forwardsFromXu++;
+                return pipeline.xu.result;
+            }
+            if (wb_instr?.rd === regNum && wb_result !== undefined) {
+                counters.forwardsFromMem++;
+                return wb_result;
+            }
+            return isFpReg(regNum) ? fpRegisterFile[regNum - FP_REG_BASE] : registerFile[regNum];
+        };
+        // The NN units read their operand windows straight from data memory (4-byte words) and
+        // operate on the stored numeric value, whether it was written as an integer or a float.
+        const readWord = (address: number): number => readMemoryWord(newMemory, wordAddress(address))?.value ?? 0;
+        const imm = id_instr_for_ex.imm ?? 0;
+        const returnAddress = (id_instr_for_ex.pc + 1) * 4;
+        const resolveTarget = (): number => decodedTarget(id_instr_for_ex, labels) ?? pc;
+        const takeBranch = (targetIndex: number) => {
+            newPc = targetIndex;
+            branchTaken = true;
+        };
+
+        const val1 = getValue(id_instr_for_ex.rs1);
+        const val2 = getValue(id_instr_for_ex.rs2);
+        const val3 = getValue(id_instr_for_ex.rs3);
+
+        switch(id_instr_for_ex.op) {
+            case 'add': ex_result = (val1 + val2) | 0; break;
+            case 'sub': ex_result = (val1 - val2) | 0; break;
+            case 'sll': ex_result = val1 << (val2 & 31); break;
+            case 'slt': ex_result = val1 < val2 ? 1 : 0; break;
+            case 'sltu': ex_result = (val1 >>> 0) < (val2 >>> 0) ? 1 : 0; break;
+            case 'xor': ex_result = val1 ^ val2; break;
+            case 'srl': ex_result = (val1 >>> (val2 & 31)) | 0; break;
+            case 'sra': ex_result = val1 >> (val2 & 31); break;
+            case 'or': ex_result = val1 | val2; break;
+            case 'and': ex_result = val1 & val2; break;
+            case 'addi': ex_result = (val1 + imm) | 0; break;
+            case 'slti': ex_result = val1 < imm ? 1 : 0; break;
+            case 'sltiu': ex_result = (val1 >>> 0) < (imm >>> 0) ? 1 : 0; break;
+            case 'xori': ex_result = val1 ^ imm; break;
+            case 'ori': ex_result = val1 | imm; break;
+            case 'andi': ex_result = val1 & imm; break;
+            case 'slli': ex_result = val1 << (imm & 31); break;
+            case 'srli': ex_result = (val1 >>> (imm & 31)) | 0; break;
+            case 'srai': ex_result = val1 >> (imm & 31); break;
+            case 'lui': ex_result = imm << 12; break;
+            case 'auipc': ex_result = (id_instr_for_ex.pc * 4 + (imm << 12)) | 0; break;
+            case 'mul': ex_result = Math.imul(val1, val2); break;
+            case 'mulh': ex_result = mulHigh(BigInt(val1 | 0), BigInt(val2 | 0)); break;
+            case 'mulhsu': ex_result = mulHigh(BigInt(val1 | 0), BigInt(val2 >>> 0)); break;
+            case 'mulhu': ex_result = mulHigh(BigInt(val1 >>> 0), BigInt(val2 >>> 0)); break;
+            // Division by zero and signed overflow follow the RISC-V M spec instead of trapping.
+            case 'div':
+                ex_result = val2 === 0 ? -1 : (val1 === -0x80000000 && val2 === -1) ? val1 : Math.trunc(val1 / val2) | 0;
+                break;
+            case 'divu': ex_result = val2 === 0 ? -1 : Math.floor((val1 >>> 0) / (val2 >>> 0)) | 0; break;
+            case 'rem':
+                ex_result = val2 === 0 ? val1 : (val1 === -0x80000000 && val2 === -1) ? 0 : (val1 % val2) | 0;
+                break;
+            case 'remu': ex_result = val2 === 0 ? val1 : ((val1 >>> 0) % (val2 >>> 0)) | 0; break;
+            case 'lb':
+            case 'lh':
+            case 'lw':
+            case 'lbu':
+            case 'lhu':
+            case 'sb':
+            case 'sh':
+            case 'sw':
+            case 'flw':
+            case 'fsw': {
+                ex_address = (val1 + imm) >>> 0;
+                const isStore = STORE_OPS.includes(id_instr_for_ex.op);
+                if (ex_address % ACCESS_SIZE[id_instr_for_ex.op] !== 0) {
+                    trap = { cause: isStore ? CAUSE_MISALIGNED_STORE : CAUSE_MISALIGNED_LOAD, tval: ex_address };
+                } else if (isStore) {
+                    ex_result = val2; // Value to be stored
+                }
+                break;
+            }
+            case 'fadd.s': ex_result = Math.fround(val1 + val2); break;
+            case 'fsub.s': ex_result = Math.fround(val1 - val2); break;
+            case 'fmul.s': ex_result = Math.fround(val1 * val2); break;
+            case 'fdiv.s': ex_result = Math.fround(val1 / val2); break;
+            case 'fsqrt.s': ex_result = Math.fround(Math.sqrt(val1)); break;
+            case 'fmin.s': ex_result = fminmax(val1, val2, false); break;
+            case 'fmax.s': ex_result = fminmax(val1, val2, true); break;
+            case 'fmadd.s': ex_result = Math.fround(val1 * val2 + val3); break;
+            case 'fmsub.s': ex_result = Math.fround(val1 * val2 - val3); break;
+            case 'fnmadd.s': ex_result = Math.fround(-(val1 * val2) - val3); break;
+            case 'fnmsub.s': ex_result = Math.fround(-(val1 * val2) + val3); break;
+            case 'fsgnj.s': ex_result = bitsToFloat((floatToBits(val1) & 0x7FFFFFFF) | (floatToBits(val2) & 0x80000000)); break;
+            case 'fsgnjn.s': ex_result = bitsToFloat((floatToBits(val1) & 0x7FFFFFFF) | (~floatToBits(val2) & 0x80000000)); break;
+            case 'fsgnjx.s': ex_result = bitsToFloat(floatToBits(val1) ^ (floatToBits(val2) & 0x80000000)); break;
+            case 'feq.s': ex_result = val1 === val2 ? 1 : 0; break;
+            case 'flt.s': ex_result = val1 < val2 ? 1 : 0; break;
+            case 'fle.s': ex_result = val1 <= val2 ? 1 : 0; break;
+            case 'fclass.s': ex_result = fclass(val1); break;
+            case 'fcvt.w.s': ex_result = fcvtToInt(val1, id_instr_for_ex.rm, false); break;
+            case 'fcvt.wu.s': ex_result = fcvtToInt(val1, id_instr_for_ex.rm, true); break;
+            case 'fcvt.s.w': ex_result = Math.fround(val1 | 0); break;
+            case 'fcvt.s.wu': ex_result = Math.fround(val1 >>> 0); break;
+            case 'fmv.x.w': ex_result = floatToBits(val1); break;
+            case 'fmv.w.x': ex_result = bitsToFloat(val1); break;
+            case 'beq': if (val1 === val2) takeBranch(resolveTarget()); break;
+            case 'bne': if (val1 !== val2) takeBranch(resolveTarget()); break;
+            case 'blt': if (val1 < val2) takeBranch(resolveTarget()); break;
+            case 'bge': if (val1 >= val2) takeBranch(resolveTarget()); break;
+            case 'bltu': if ((val1 >>> 0) < (val2 >>> 0)) takeBranch(resolveTarget()); break;
+            case 'bgeu': if ((val1 >>> 0) >= (val2 >>> 0)) takeBranch(resolveTarget()); break;
+            case 'jal':
+                ex_result = returnAddress; // Byte address of the next instruction
+                takeBranch(resolveTarget());
+                break;
+            case 'jalr': {
+                const target = ((val1 + imm) & ~1) >>> 0;
+                if (target % 4 !== 0) {
+                    trap = { cause: CAUSE_MISALIGNED_FETCH, tval: target };
+                    break;
+                }
+                ex_result = returnAddress;
+                takeBranch(target / 4);
+                break;
+            }
+            case 'ecall': trap = { cause: CAUSE_ECALL_M, tval: 0 }; break;
+            case 'ebreak': trap = { cause: CAUSE_BREAKPOINT, tval: 0 }; break;
+            case 'mret': {
+                const { mstatus } = newCsrs;
+                newCsrs.mstatus = (mstatus & ~MSTATUS_MIE) | (mstatus & MSTATUS_MPIE ? MSTATUS_MIE : 0) | MSTATUS_MPIE;
+                newPc = newCsrs.mepc / 4;
+                redirected = true;
+                break;
+            }
+            case 'csrrw':
+            case 'csrrs':
+            case 'csrrc':
+            case 'csrrwi':
+            case 'csrrsi':
+            case 'csrrci': {
+                const access = accessCsr(newCsrs, core.hartId, id_instr_for_ex, val1);
+                if (access) {
+                    newCsrs = access.csrs;
+                    ex_result = access.value;
+                } else {
+                    trap = { cause: CAUSE_ILLEGAL_INSTRUCTION, tval: 0 };
+                }
+                break;
+            }
+            default: {
+                // Custom NN instructions (built in or from the ISA Designer) execute through their registry definition.
+                // A semantic function from the ISA Designer that throws raises an illegal-instruction trap.
+                const execute = ISA[id_instr_for_ex.op]?.execute;
+                if (execute) {
+                    try {
+                        ex_result = execute({ rs1: val1, rs2: val2, rs3: val3, imm }, readWord);
+                    } catch {
+                        trap = { cause: CAUSE_ILLEGAL_INSTRUCTION, tval: 0 };
+                    }
+                }
+                break;
+            }
+        }
+    }
+
+    // Check the fetch-time prediction; only a wrong next PC costs a flush.
+    if (id_instr_for_ex && !stallId && !trap && CONTROL_OPS.includes(id_instr_for_ex.op)) {
+        const instrPc = pipeline.id.pc ?? id_instr_for_ex.pc;
+        const prediction = pipeline.id.prediction ?? { taken: false, nextPc: instrPc + 1 };
+        const actualNextPc = branchTaken ? newPc : instrPc + 1;
+        newPredictorState = resolveBranch(
+            config.predictor, core.predictorState, instrPc, id_instr_for_ex.op, prediction, branchTaken, actualNextPc, mispredictPenalty(config.pipeline),
+        );
+        if (prediction.nextPc !== actualNextPc) {
+            mispredicted = true;
+            newPc = actualNextPc;
+        }
+    }
+
+    // Exceptions are precise: they are taken as the instruction enters EX, when everything older has already
+    // left ID. The trapping instruction is dropped and the younger ones in IF and ID are flushed.
+    if (trap && id_instr_for_ex) {
+        const instrPc = pipeline.id.pc ?? id_instr_for_ex.pc;
+        const handled = newCsrs.mtvec !== 0;
+        const { mstatus } = newCsrs;
+        newCsrs = {
+            ...newCsrs,
+            mepc: instrPc * 4, mcause: trap.cause, mtval: trap.tval >>> 0,
+            mstatus: (mstatus & ~(MSTATUS_MIE | MSTATUS_MPIE)) | (mstatus & MSTATUS_MIE ? MSTATUS_MPIE : 0),
+        };
+        newLastTrap = { ...trap, pc: instrPc, handled };
+        newPc = handled ? newCsrs.mtvec / 4 : instructions.length;
+        ex_result = undefined;
+        ex_address = undefined;
+        redirected = true;
+    }
+
+    // Resolved in EX, the redirect comes a cycle late: the slot fetched this cycle is squashed as well.
+    if (mispredicted || redirected) {
+        flushIf = redirected || branchResolution === 'ex';
+        flushId = true;
+    }
+
+    if (memBusy || portConflict) {
+        newPipeline.ex = pipeline.ex;
+    } else if (exBusy) {
+        newPipeline.ex = { ...pipeline.ex, cyclesRemaining: (pipeline.ex.cyclesRemaining ?? 1) - 1 };
+    } else if (stallId) {
+        newPipeline.ex = { instr: null, pc: null, isStall: true };
+    } else if (trap) {
+        newPipeline.ex = { instr: null, pc: null, isFlush: true };
+    } else {
+        const latency = id_instr_for_ex ? exLatency(id_instr_for_ex.op) : 1;
+        const issued: PipelineStage = {
+            instr: id_instr_for_ex, pc: id_instr_for_ex ? pipeline.id.pc : null, result: ex_result, address: ex_address,
+            cyclesRemaining: latency, prediction: pipeline.id.prediction, seq: pipeline.id.seq,
+        };
+        if (splitEx && isMultiCycle(id_instr_for_ex)) {
+            newPipeline.xu = issued;
+        } else {
+            newPipeline.ex = issued;
+        }
+    }
+
+    // --- ID Stage ---
+    if (stallId) {
+        newPipeline.id = { ...pipeline.id, isStall: true };
+    } else if (flushId) {
+        newPipeline.id = { instr: pipeline.if.instr, pc: pipeline.if.pc, isFlush: true, seq: pipeline.if.seq };
+    } else if (ifBusy) {
+        newPipeline.id = { instr: null, pc: null, isStall: true };
+    } else {
+        newPipeline.id = { instr: pipeline.if.instr, pc: pipeline.if.pc, prediction: pipeline.if.prediction, seq: pipeline.if.seq };
+    }
+
+    // --- IF Stage ---
+    let nextFetchPc = newPc + 1;
+    if (flushIf) {
+        newPipeline.if = { instr: null, pc: null, isFlush: true };
+    } else if (ifBusy && !mispredicted) {
+        newPipeline.if = { ...pipeline.if, missCyclesRemaining: (pipeline.if.missCyclesRemaining ?? 1) - 1 };
+        nextFetchPc = pc;
+    } else if (stallId) {
+        newPipeline.if = pipeline.if;
+    } else if (newPc < instructions.length) {
+        const nextInstr = instructions[newPc];
+        if (nextInstr) {
+             let fetchMissCycles = 0;
+             if (config.icache.enabled) {
+                 const access = accessHierarchy(config.icache, newIcacheState, config.l2, newL2State, newPc * 4, false);
+                 newIcacheState = access.l1.state;
+                 newL2State = access.l2State;
+                 fetchMissCycles = access.stallCycles;
+                 newCacheAccess.i = { set: access.l1.set, way: access.l1.way, hit: access.l1.hit };
+             }
+             const coloredInstr = { ...nextInstr, color: COLORS[nextInstr.pc % COLORS.length] };
+             const prediction = CONTROL_OPS.includes(nextInstr.op)
+                 ? predict(config.predictor, newPredictorState, newPc, nextInstr.op, decodedTarget(nextInstr, labels))
+                 : undefined;
+             newPipeline.if = { instr: coloredInstr, pc: newPc, prediction, missCyclesRemaining: fetchMissCycles, seq: fetchCount };
+             fetchCount++;
+             if (prediction) nextFetchPc = prediction.nextPc;
+        }
+    }
+
+    if (wb_instr) counters.retired++;
+    if (!memBusy && !exBusy && !portConflict) {
+        if (loadUse) counters.loadUseStalls++;
+        else if (rawStall) counters.rawStalls++;
+        else if (xuStall) counters.customOccupancyCycles++;
+    }
+    if (mispredicted) {
+        counters.branchFlushes++;
+        counters.flushPenaltyCycles += mispredictPenalty(config.pipeline);
+    }
+    if ((exBusy || portConflict) && !memBusy) counters.customOccupancyCycles++;
+    if (memBusy || (ifBusy && !stallId && !flushId)) counters.cacheStallCycles++;
+
+    let nextPc = core.pc;
+    if (flushIf) {
+        nextPc = newPc;
+    } else if (!stallId) {
+        nextPc = nextFetchPc;
+    }
+
+    return {
+        core: {
+            pc: nextPc,
+            pipeline: newPipeline,
+            registerFile: newRegisterFile,
+            fpRegisterFile: newFpRegisterFile,
+            predictorState: newPredictorState,
+            icacheState: newIcacheState,
+            dcacheState: newDcacheState,
+            lastWrittenReg: regWrittenThisCycle,
+            memoryAccess: newMemoryAccessStatus,
+            cacheAccess: newCacheAccess,
+            waitingForAccelerator,
+            contentionStalls: core.contentionStalls + (waitingForAccelerator ? 1 : 0),
+            fetchCount,
+            counters,
+            hartId: core.hartId,
+            csrs: newCsrs,
+            lastTrap: newLastTrap,
+        },
+        shared: { memory: newMemory, l2State: newL2State, devices: newDevices },
+        issuedToAccelerator: !stallId && isNnOp(id_instr_for_ex),
+    };
+};
+
+export type SystemState = { cores: CoreState[]; shared: SharedState };
+
+// A full machine state at the start of `cycle`. Step functions never mutate their inputs, so snapshots
+// can share unchanged parts (caches, predictor tables) with their neighbours.
+export type Snapshot = SystemState & { cycle: number };
+
+export const createSnapshot = (coreCount: number, config: SimulatorConfig, boot?: BootImage): Snapshot => ({
+    cycle: 0,
+    cores: Array.from({ length: coreCount }, (_, coreId) => createCore(coreId, config, coreId === 0 ? boot?.entryPc : 0)),
+    shared: createSharedState(config, boot?.memory),
+});
+
+// Advances every hart and then the devices by one clock cycle. Harts step in alternating order so that neither
+// always wins arbitration for the accelerator.
+export const stepSystem = ({ cores, shared }: SystemState, programs: Program[], config: SimulatorConfig, cycle: number): SystemState => {
+    const order = cores.map((_, i) => i);
+    if (cycle % 2 === 1) order.reverse();
+
+    const nextCores: CoreState[] = [...cores];
+    let nextShared: SharedState = shared;
+    let acceleratorClaimed = false;
+    order.forEach(i => {
+        if (isCoreFinished(cores[i], programs[i])) return;
+        const heldElsewhere = cores.some((other, j) => j !== i && holdsAccelerator(other));
+        const result = stepCore(cores[i], nextShared, {
+            program: programs[i], config, acceleratorAvailable: !heldElsewhere && !acceleratorClaimed,
+        });
+        nextCores[i] = result.core;
+        nextShared = result.shared;
+        if (result.issuedToAccelerator) acceleratorClaimed = true;
+    });
+
+    const memory = nextShared.memory;
+    const tick = tickDevices(nextShared.devices, address => {
+        const word = readMemoryWord(memory, wordAddress(address));
+        return { value: word?.value ?? 0, float: word?.type === 'float' };
+    });
+    if (tick.state !== nextShared.devices) {
+        const newMemory = writeMemoryWords(memory, tick.writes.map(({ address, value, float }): [number, MemoryWord] =>
+            [wordAddress(address), { value, type: float ? 'float' : 'int' }]));
+        nextShared = { ...nextShared, memory: newMemory, devices: tick.state };
+    }
+    return { cores: nextCores, shared: nextShared };
+};
+
+// --- Engine API ---
+
+// A loaded machine: one program per hart, the configuration it runs under and its current state. It is
+// plain data, so it can be kept, compared or sent elsewhere; see serializeMachine for a lossless string form.
+export type Machine = { programs: Program[]; config: SimulatorConfig; state: Snapshot };
+
+export type StopReason = 'finished' | 'max-cycles' | 'stopped';
+
+export type RunResult = { machine: Machine; cycles: number; reason: StopReason };
+
+export class ProgramLoadError extends Error {
+    constructor(public readonly hart: number, public readonly errors: AssemblyError[]) {
+        super(`Hart ${hart}: ${errors.map(e => `line ${e.line}: ${e.message}`).join('; ')}`);
+        this.name = 'ProgramLoadError';
+    }
+}
+
+// Assembles source text; throws ProgramLoadError if any line is rejected.
+export function assembleProgram(source: string, hart = 0): Program {
+    const { instructions, labels, errors } = parseAssembly(source);
+    if (errors.length > 0) throw new ProgramLoadError(hart, errors);
+    return { instructions, labels };
+}
+
+// Resets the machine with one hart per program. Sources are assembled first; `boot` supplies the entry
+// point and initial data of a loaded executable.
+export function load(program: string | Program | (string | Program)[], config: SimulatorConfig = DEFAULT_CONFIG, boot?: BootImage): Machine {
+    const programs = (Array.isArray(program) ? program : [program])
+        .map((p, hart) => typeof p === 'string' ? assembleProgram(p, hart) : p);
+    if (programs.length === 0) throw new ProgramLoadError(0, [{ line: 0, message: 'No program to load.' }]);
+    return { programs, config, state: createSnapshot(programs.length, config, boot) };
+}
+
+export const isFinished = ({ state, programs }: Machine): boolean => isSystemFinished(state, programs);
+
+// Advances the machine by one clock cycle. A finished machine is returned unchanged.
+export function step(machine: Machine): Machine {
+    const { state, programs, config } = machine;
+    if (isSystemFinished(state, programs)) return machine;
+    return { ...machine, state: { ...stepSystem(state, programs, config, state.cycle), cycle: state.cycle + 1 } };
+}
+
+// Steps until the program finishes, `maxCycles` have run or `shouldStop` returns true for a cycle's
+// before and after states. The callback also sees every intermediate state, for recording history.
+export function run(machine: Machine, maxCycles: number, shouldStop?: (before: Snapshot, after: Snapshot) => boolean): RunResult {
+    let current = machine;
+    for (let cycles = 0; cycles < maxCycles; cycles++) {
+        if (isFinished(current)) return { machine: current, cycles, reason: 'finished' };
+        const next = step(current);
+        const stop = shouldStop?.(current.state, next.state) ?? false;
+        current = next;
+        if (stop) return { machine: current, cycles: cycles + 1, reason: 'stopped' };
+    }
+    return { machine: current, cycles: maxCycles, reason: isFinished(current) ? 'finished' : 'max-cycles' };
+}
+
+export const RUN_CHUNK_CYCLES = 500;
+
+export type ChunkedRunOptions = { onProgress?: (cycles: number) => void; signal?: AbortSignal };
+
+// Like run, but yields to the event loop every RUN_CHUNK_CYCLES cycles so a long run leaves the page
+// responsive. `onProgress` gets the cycles run so far after each chunk; aborting `signal` stops the run
+// at the next chunk boundary with reason 'stopped'.
+export async function runChunked(
+    machine: Machine, maxCycles: number, shouldStop?: (before: Snapshot, after: Snapshot) => boolean, options: ChunkedRunOptions = {},
+): Promise<RunResult> {
+    let current = machine;
+    let cycles = 0;
+    while (cycles < maxCycles) {
+        const result = run(current, Math.min(RUN_CHUNK_CYCLES, maxCycles - cycles), shouldStop);
+        current = result.machine;
+        cycles += result.cycles;
+        if (result.reason !== 'max-cycles') return { machine: current, cycles, reason: result.reason };
+        options.onProgress?.(cycles);
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (options.signal?.aborted) return { machine: current, cycles, reason: 'stopped' };
+    }
+    return { machine: current, cycles, reason: isFinished(current) ? 'finished' : 'max-cycles' };
+}
+
+const MACHINE_FORMAT = 'rv32-pipeline-machine';
+const MACHINE_FORMAT_VERSION = 2; // 2: paged data memory
+
+// JSON has no NaN, infinities or negative zero, all of which FP registers and memory can hold.
+const SPECIAL_NUMBER_KEY = '$number';
+
+export function serializeMachine(machine: Machine): string {
+    return JSON.stringify({ format: MACHINE_FORMAT, version: MACHINE_FORMAT_VERSION, machine }, (_key, value) =>
+        typeof value === 'number' && (!Number.isFinite(value) || Object.is(value, -0))
+            ? { [SPECIAL_NUMBER_KEY]: Object.is(value, -0) ? '-0' : String(value) }
+            : value);
+}
+
+export function deserializeMachine(json: string): Machine {
+    const parsed = JSON.parse(json, (_key, value) =>
+        value !== null && typeof value === 'object' && typeof value[SPECIAL_NUMBER_KEY] === 'string' && Object.keys(value).length === 1
+            ? Number(value[SPECIAL_NUMBER_KEY])
+            : value);
+    if (parsed?.format !== MACHINE_FORMAT) throw new Error('Not a saved pipeline machine.');
+    if (parsed.version !== MACHINE_FORMAT_VERSION) throw new Error(`Unsupported machine format version ${parsed.version}.`);
+    return parsed.machine as Machine;
+}
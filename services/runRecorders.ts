@@ -0,0 +1,135 @@
+// Recorders the pipeline visualizer feeds with every simulated cycle from its run loop: a VCD waveform and
+// the pipeline timing chart. Both are mutable, plain-data recordings of the run since the last reset.
+import { isFpReg, FP_REG_BASE } from './assembler';
+import { encodeInstruction, EncodingError } from './encoder';
+import { createVcdRecording, recordVcdSample, truncateVcdRecording } from './vcd';
+import type { VcdSignal, VcdRecording } from './vcd';
+import { initialPipeline, floatToBits, wordAsInt, readMemoryWord } from './pipelineEngine';
+import type { CoreState, Instruction, PipelineConfig, PipelineStageName, Program, Snapshot } from './pipelineEngine';
+
+export const VCD_CLOCK_PERIOD_NS = 10;
+
+const encodeForTrace = (instr: Instruction, labels: Record<string, number>): number | null => {
+    try {
+        return encodeInstruction(instr, labels);
+    } catch (e) {
+        if (!(e instanceof EncodingError)) throw e;
+        return null;
+    }
+};
+
+// Records a simulation as VCD value changes, one cycle at a time from the run loop, independently of the
+// capped cycle history. `rewind` drops the cycles after `cycle` when a run resumes from an earlier state.
+export type VcdTracer = { recording: VcdRecording; record: (snapshot: Snapshot) => void; rewind: (cycle: number) => void };
+
+// Signals have RTL-style names: per hart the fetch PC, then for each stage a valid bit, PC, machine word
+// and stall/flush flags, then the register file write port and the data memory port. Values that do not
+// apply in a cycle (no write, empty stage) are dumped as x. Recording starts with the `start` state.
+export const createVcdTracer = (programs: Program[], pipelineConfig: PipelineConfig, start: Snapshot): VcdTracer => {
+    const stages = (Object.keys(initialPipeline) as PipelineStageName[]).filter(stage => stage !== 'xu' || pipelineConfig.splitEx);
+    const words = programs.map(program => program.instructions.map(instr => encodeForTrace(instr, program.labels)));
+    const signals: VcdSignal[] = [{ scope: ['cpu'], name: 'clk', width: 1 }];
+    start.cores.forEach((_, i) => {
+        const scope = ['cpu', `core${i}`];
+        signals.push({ scope, name: 'pc', width: 32 });
+        stages.forEach(stage => {
+            ['valid', 'pc', 'instr', 'stall', 'flush'].forEach(name => {
+                signals.push({ scope: [...scope, stage], name, width: name === 'pc' || name === 'instr' ? 32 : 1 });
+            });
+        });
+        signals.push(
+            { scope: [...scope, 'rf'], name: 'we', width: 1 },
+            { scope: [...scope, 'rf'], name: 'waddr', width: 6 }, // 0-31 x registers, 32-63 f registers
+            { scope: [...scope, 'rf'], name: 'wdata', width: 32 },
+            { scope: [...scope, 'dmem'], name: 're', width: 1 },
+            { scope: [...scope, 'dmem'], name: 'we', width: 1 },
+            { scope: [...scope, 'dmem'], name: 'addr', width: 32 },
+            { scope: [...scope, 'dmem'], name: 'data', width: 32 },
+        );
+    });
+
+    const coreValues = ({ cores, shared }: Snapshot, i: number): (number | null)[] => {
+        const core = cores[i];
+        const values: (number | null)[] = [core.pc * 4];
+        stages.forEach(stage => {
+            const slot = core.pipeline[stage];
+            const slotPc = slot.instr !== null ? slot.pc : null;
+            values.push(
+                slotPc !== null && !slot.isFlush ? 1 : 0,
+                slotPc !== null ? slotPc * 4 : null,
+                slotPc !== null ? words[i]?.[slotPc] ?? null : null,
+                slot.isStall ? 1 : 0,
+                slot.isFlush ? 1 : 0,
+            );
+        });
+        const rd = core.lastWrittenReg;
+        const written = rd === null ? null : isFpReg(rd) ? floatToBits(core.fpRegisterFile[rd - FP_REG_BASE]) : core.registerFile[rd];
+        values.push(rd === null ? 0 : 1, rd, written);
+        const access = core.memoryAccess;
+        values.push(
+            access?.type === 'read' ? 1 : 0,
+            access?.type === 'write' ? 1 : 0,
+            access ? access.address : null,
+            access ? wordAsInt(readMemoryWord(shared.memory, access.address)) : null,
+        );
+        return values;
+    };
+
+    const recording = createVcdRecording(signals);
+    const record = (snapshot: Snapshot) => {
+        const values = snapshot.cores.flatMap((_, i) => coreValues(snapshot, i));
+        const time = snapshot.cycle * VCD_CLOCK_PERIOD_NS;
+        recordVcdSample(recording, { time, values: [1, ...values] });
+        recordVcdSample(recording, { time: time + VCD_CLOCK_PERIOD_NS / 2, values: [0, ...values] });
+    };
+    record(start);
+    return { recording, record, rewind: cycle => truncateVcdRecording(recording, cycle * VCD_CLOCK_PERIOD_NS + VCD_CLOCK_PERIOD_NS / 2) };
+};
+
+export type TimingCell = { stage: PipelineStageName; kind: 'active' | 'stall' | 'flush' };
+export type TimingRow = { seq: number; pc: number; raw: string; color?: string; cells: Record<number, TimingCell> };
+
+// Adds one cycle's column to the space-time chart. An instruction that is held in place (the stage keeps
+// the same state object, or ID is marked stalled) draws a stall cell; a flushed ID slot draws a flush cell.
+const appendTimingCycle = (rows: Map<number, TimingRow>, prev: CoreState | undefined, next: CoreState, cycle: number) => {
+    (Object.keys(next.pipeline) as PipelineStageName[]).forEach(stage => {
+        const slot = next.pipeline[stage];
+        if (!slot.instr || slot.seq === undefined || slot.pc === null) return;
+        let row = rows.get(slot.seq);
+        if (!row) {
+            row = { seq: slot.seq, pc: slot.pc, raw: slot.instr.raw, color: slot.instr.color, cells: {} };
+            rows.set(slot.seq, row);
+        }
+        const held = slot.isStall || prev?.pipeline[stage] === slot;
+        row.cells[cycle] = { stage, kind: slot.isFlush ? 'flush' : held ? 'stall' : 'active' };
+    });
+};
+
+// Accumulates the timing chart of every core one cycle at a time from the run loop, so the chart covers the
+// whole run rather than the capped cycle history. Rows are keyed by fetch sequence number, so a map keeps
+// them in fetch order. `rewind` drops the cycles after `state` when a run resumes from an earlier state.
+export type TimingTracer = { rows: Map<number, TimingRow>[]; record: (snapshot: Snapshot) => void; rewind: (state: Snapshot) => void };
+
+export const createTimingTracer = (start: Snapshot): TimingTracer => {
+    const rows = start.cores.map(() => new Map<number, TimingRow>());
+    let previous: CoreState[] | undefined;
+    let lastCycle = start.cycle;
+    const record = (snapshot: Snapshot) => {
+        snapshot.cores.forEach((core, i) => appendTimingCycle(rows[i], previous?.[i], core, snapshot.cycle));
+        previous = snapshot.cores;
+        lastCycle = snapshot.cycle;
+    };
+    const rewind = (state: Snapshot) => {
+        if (state.cycle < lastCycle) {
+            rows.forEach(coreRows => coreRows.forEach((row, seq) => {
+                const cells = Object.entries(row.cells).filter(([cycle]) => Number(cycle) <= state.cycle);
+                if (cells.length === 0) coreRows.delete(seq);
+                else row.cells = Object.fromEntries(cells);
+            }));
+        }
+        previous = state.cores;
+        lastCycle = state.cycle;
+    };
+    record(start);
+    return { rows, record, rewind };
+};
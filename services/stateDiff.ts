@@ -0,0 +1,56 @@
+// Architectural differences between two simulator snapshots, formatted for the cycle history's diff view.
+import { regName, abiName, FP_REG_BASE } from './assembler';
+import { CSR_FILE_NAMES, readMemoryWord } from './pipelineEngine';
+import type { MemoryWord, Snapshot } from './pipelineEngine';
+import { GPIO_LED_COUNT } from './mmio';
+
+export const formatFloat = (value: number): string => Number.isInteger(value) ? value.toFixed(1) : value.toPrecision(6);
+
+export type StateChange = { location: string; before: string; after: string };
+
+const formatWord = (word?: MemoryWord): string =>
+    !word ? '--' : word.type === 'float' ? `${formatFloat(word.value)} f32` : `${word.value}`;
+
+export const formatCsr = (value: number): string => `0x${value.toString(16).padStart(8, '0')}`;
+
+// Lists every architectural difference between two snapshots: PCs, register files, CSRs, devices and data memory.
+export const diffSnapshots = (a: Snapshot, b: Snapshot): StateChange[] => {
+    const changes: StateChange[] = [];
+    b.cores.forEach((coreB, i) => {
+        const coreA = a.cores[i];
+        if (!coreA) return;
+        const prefix = b.cores.length > 1 ? `Core ${i} ` : '';
+        if (coreA.pc !== coreB.pc) {
+            changes.push({ location: `${prefix}pc`, before: `0x${(coreA.pc * 4).toString(16)}`, after: `0x${(coreB.pc * 4).toString(16)}` });
+        }
+        coreB.registerFile.forEach((value, reg) => {
+            if (value !== coreA.registerFile[reg]) changes.push({ location: `${prefix}${regName(reg)} (${abiName(reg)})`, before: String(coreA.registerFile[reg]), after: String(value) });
+        });
+        coreB.fpRegisterFile.forEach((value, reg) => {
+            const index = FP_REG_BASE + reg;
+            if (!Object.is(value, coreA.fpRegisterFile[reg])) changes.push({ location: `${prefix}${regName(index)} (${abiName(index)})`, before: formatFloat(coreA.fpRegisterFile[reg]), after: formatFloat(value) });
+        });
+        CSR_FILE_NAMES.forEach(name => {
+            if (coreA.csrs[name] !== coreB.csrs[name]) changes.push({ location: `${prefix}${name}`, before: formatCsr(coreA.csrs[name]), after: formatCsr(coreB.csrs[name]) });
+        });
+    });
+    const devicesA = a.shared.devices;
+    const devicesB = b.shared.devices;
+    if (devicesA.leds !== devicesB.leds) {
+        changes.push({ location: 'GPIO LEDs', before: `0b${devicesA.leds.toString(2).padStart(GPIO_LED_COUNT, '0')}`, after: `0b${devicesB.leds.toString(2).padStart(GPIO_LED_COUNT, '0')}` });
+    }
+    if (devicesA.uart !== devicesB.uart) changes.push({ location: 'UART console', before: `${devicesA.uart.length} chars`, after: `${devicesB.uart.length} chars` });
+    // Pages the two snapshots share cannot differ.
+    const pagesA = a.shared.memory.pages;
+    const pagesB = b.shared.memory.pages;
+    const changedPages = [...new Set([...Object.keys(pagesA), ...Object.keys(pagesB)])].filter(page => pagesA[page] !== pagesB[page]);
+    const addresses = new Set(changedPages.flatMap(page => [...Object.keys(pagesA[page] ?? {}), ...Object.keys(pagesB[page] ?? {})]).map(Number));
+    [...addresses].sort((x, y) => x - y).forEach(address => {
+        const before = readMemoryWord(a.shared.memory, address);
+        const after = readMemoryWord(b.shared.memory, address);
+        if (before?.value !== after?.value || before?.type !== after?.type) {
+            changes.push({ location: `Mem[0x${address.toString(16)}]`, before: formatWord(before), after: formatWord(after) });
+        }
+    });
+    return changes;
+};
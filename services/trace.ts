@@ -0,0 +1,209 @@
+// Dynamic instruction traces for trace-driven emulation. A trace is the measured instruction mix of one run
+// together with the pipeline events that cost cycles: mispredictions, L1 misses and data-hazard stalls. Traces
+// come from the pipeline engine, or from an execution log of another simulator replayed through the same
+// predictor and cache models.
+import { BRANCH_OPS, CONTROL_OPS, FP_REG_BASE } from './assembler';
+import { ISA, usesFpRegister } from './isa';
+import type { OperandFormat, RegisterOperand } from './isa';
+import { disassembleWord } from './disassembler';
+import { predict, resolveBranch, createPredictorState } from './branchPredictor';
+import { accessCache, createCacheState, DEFAULT_ICACHE, DEFAULT_DCACHE } from './cache';
+import { load, runChunked, DEFAULT_CONFIG } from './pipelineEngine';
+import type { BootImage, ChunkedRunOptions, CoreState, Program, SimulatorConfig } from './pipelineEngine';
+
+export interface TraceEvents {
+    instructions: number;
+    branches: number; // Conditional branches
+    jumps: number;
+    mispredictions: number; // Redirects of fetch, including jumps without a BTB target
+    memoryAccesses: number;
+    icacheMisses: number;
+    dcacheMisses: number | null; // null when a log records no data addresses
+    loadUseStalls: number;
+    rawStalls: number; // Other RAW stalls; the log replay assumes full forwarding, so only the simulator reports these
+    simulatedCycles?: number; // Cycles the pipeline engine took at its own latencies
+}
+
+export interface InstructionTrace {
+    source: string;
+    counts: Record<string, number>; // Dynamic count per mnemonic
+    events: TraceEvents;
+    undecoded: number; // Log records whose instruction word is not in the ISA registry (e.g. compressed instructions)
+    truncated: boolean; // The run hit MAX_TRACE_CYCLES or was aborted, or the log hit MAX_TRACE_RECORDS
+}
+
+export class TraceParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TraceParseError';
+    }
+}
+
+export const MAX_TRACE_CYCLES = 200000;
+export const MAX_TRACE_RECORDS = 1000000;
+
+// Microarchitecture used to measure traces: a 2-bit predictor, as the boards' cores use, and 4 KB L1 caches.
+export const TRACE_SIMULATOR_CONFIG: SimulatorConfig = {
+    ...DEFAULT_CONFIG,
+    predictor: { kind: 'two-bit', historyBits: 4 },
+    icache: { ...DEFAULT_ICACHE, enabled: true, sizeBytes: 4096, lineBytes: 32 },
+    dcache: { ...DEFAULT_DCACHE, enabled: true, sizeBytes: 4096, lineBytes: 32 },
+};
+
+const isMemoryOp = (op: string) => ISA[op]?.format === 'LOAD' || ISA[op]?.format === 'STORE';
+
+// Runs `source` (assembly text or assembled programs, one per hart) on the pipeline engine and records
+// every instruction as it leaves WB. Assembly errors surface as the engine's ProgramLoadError. The run is
+// chunked (see runChunked), so `options` can report progress or abort it; an aborted run is truncated.
+export async function traceFromSimulation(
+    source: string | Program[], name: string, boot?: BootImage, config: SimulatorConfig = TRACE_SIMULATOR_CONFIG,
+    options: ChunkedRunOptions = {},
+): Promise<InstructionTrace> {
+    const counts: Record<string, number> = {};
+    const { machine, reason } = await runChunked(load(source, config, boot), MAX_TRACE_CYCLES, (before, after) => {
+        after.cores.forEach((core, i) => {
+            const retiring = before.cores[i].pipeline.mem.instr;
+            if (retiring && core.counters.retired > before.cores[i].counters.retired) counts[retiring.op] = (counts[retiring.op] ?? 0) + 1;
+        });
+        return false;
+    }, options);
+
+    const cores = machine.state.cores;
+    const sum = (value: (core: CoreState) => number) => cores.reduce((total, core) => total + value(core), 0);
+    return {
+        source: name,
+        counts,
+        events: {
+            instructions: sum(core => core.counters.retired),
+            branches: sum(core => core.predictorState.stats.branches),
+            jumps: sum(core => core.predictorState.stats.jumps),
+            mispredictions: sum(core => core.predictorState.stats.mispredictions),
+            memoryAccesses: Object.entries(counts).reduce((total, [op, count]) => total + (isMemoryOp(op) ? count : 0), 0),
+            icacheMisses: sum(core => core.icacheState.stats.misses),
+            dcacheMisses: sum(core => core.dcacheState.stats.misses),
+            loadUseStalls: sum(core => core.counters.loadUseStalls),
+            rawStalls: sum(core => core.counters.rawStalls),
+            simulatedCycles: machine.state.cycle,
+        },
+        undecoded: 0,
+        truncated: reason !== 'finished',
+    };
+}
+
+type LogRecord = { pc: number; word: number; dataAddress?: number };
+
+// Spike's -l log ("core 0: 0x80000000 (0x00000297) auipc t0, 0x0") and --log-commits log, which adds the
+// privilege level and the written registers and data addresses ("core 0: 3 0x80000010 (0x0002a303) x6 0x0 mem 0x80001000").
+const SPIKE_LINE = /^core\s+\d+:\s+(\d\s+)?0x([0-9a-f]+)\s+\(0x([0-9a-f]+)\)(.*)$/i;
+const SPIKE_MEMORY = /\bmem\s+0x([0-9a-f]+)/i;
+// QEMU's execlog plugin: "0, 0x80000000, 0x297, \"auipc t0,0\"", followed by ", load, 0x80001000, RAM" for memory accesses.
+const QEMU_LINE = /^\s*\d+,\s*0x([0-9a-f]+),\s*0x([0-9a-f]+),\s*"[^"]*"(.*)$/i;
+const QEMU_MEMORY = /\b(?:load|store),\s*0x([0-9a-f]+)/i;
+
+const parseHex = (digits: string) => Number(BigInt.asUintN(32, BigInt(`0x${digits}`)));
+
+function parseLogRecords(text: string): LogRecord[] {
+    const records: LogRecord[] = [];
+    let previousWasDisassembly = false;
+    for (const line of text.split('\n')) {
+        if (records.length >= MAX_TRACE_RECORDS) break;
+        const spike = SPIKE_LINE.exec(line);
+        const qemu = spike ? null : QEMU_LINE.exec(line);
+        if (!spike && !qemu) continue;
+        const [pcDigits, wordDigits, rest] = spike ? [spike[2], spike[3], spike[4]] : [qemu![1], qemu![2], qemu![3]];
+        const memory = (spike ? SPIKE_MEMORY : QEMU_MEMORY).exec(rest);
+        const record: LogRecord = { pc: parseHex(pcDigits), word: parseHex(wordDigits), dataAddress: memory ? parseHex(memory[1]) : undefined };
+        // With both -l and --log-commits, Spike prints each instruction twice: its disassembly, then its commit.
+        const isCommit = !!spike?.[1];
+        const last = records[records.length - 1];
+        if (isCommit && previousWasDisassembly && last?.pc === record.pc) {
+            last.dataAddress = record.dataAddress;
+        } else {
+            records.push(record);
+        }
+        previousWasDisassembly = !!spike && !isCommit;
+    }
+    return records;
+}
+
+const READ_OPERANDS: Partial<Record<OperandFormat, RegisterOperand[]>> = {
+    R: ['rs1', 'rs2'], R4: ['rs1', 'rs2', 'rs3'], MAC: ['rd', 'rs1', 'rs2'], UNARY: ['rs1'], I: ['rs1'], LOAD: ['rs1'],
+    STORE: ['rs1', 'rs2'], BRANCH: ['rs1', 'rs2'], JALR: ['rs1'], CSR: ['rs1'],
+};
+
+const FIELD_SHIFTS: Record<RegisterOperand, number> = { rd: 7, rs1: 15, rs2: 20, rs3: 27 };
+
+// Register index in the simulator's shared x/f index space.
+const registerField = (op: string, word: number, operand: RegisterOperand): number =>
+    ((word >>> FIELD_SHIFTS[operand]) & 0x1F) + (usesFpRegister(op, operand) ? FP_REG_BASE : 0);
+
+// Replays an execution log through TRACE_SIMULATOR_CONFIG's predictor and L1 caches. The log's PC sequence
+// gives the actual branch outcomes; data addresses, when logged, drive the data cache.
+export function parseExecutionLog(text: string, name: string): InstructionTrace {
+    const records = parseLogRecords(text);
+    if (records.length === 0) {
+        throw new TraceParseError('No instructions found. Expected a Spike log (-l or --log-commits) or QEMU execlog plugin output.');
+    }
+
+    const { predictor, icache, dcache } = TRACE_SIMULATOR_CONFIG;
+    let predictorState = createPredictorState(predictor);
+    let icacheState = createCacheState(icache);
+    let dcacheState = createCacheState(dcache);
+    const counts: Record<string, number> = {};
+    let undecoded = 0;
+    let memoryAccesses = 0;
+    let loggedAddresses = 0;
+    let loadUseStalls = 0;
+    let pendingLoad: number | null = null; // Destination of a load in the previous record
+
+    records.forEach(({ pc, word, dataAddress }, i) => {
+        icacheState = accessCache(icache, icacheState, pc, false).state;
+        const { op, target } = disassembleWord(word, pc);
+        if (op === null) {
+            undecoded++;
+            pendingLoad = null;
+            return;
+        }
+        counts[op] = (counts[op] ?? 0) + 1;
+        const format = ISA[op].format;
+
+        if (pendingLoad !== null && (READ_OPERANDS[format] ?? []).some(operand => registerField(op, word, operand) === pendingLoad)) loadUseStalls++;
+        const rd = registerField(op, word, 'rd');
+        pendingLoad = format === 'LOAD' && rd !== 0 ? rd : null;
+
+        if (format === 'LOAD' || format === 'STORE') {
+            memoryAccesses++;
+            if (dataAddress !== undefined) {
+                loggedAddresses++;
+                dcacheState = accessCache(dcache, dcacheState, dataAddress, format === 'STORE').state;
+            }
+        }
+
+        const next = records[i + 1];
+        if (CONTROL_OPS.includes(op) && next) {
+            const index = pc / 4;
+            const prediction = predict(predictor, predictorState, index, op, target === undefined ? undefined : target / 4);
+            const actualNext = next.pc / 4;
+            const taken = !BRANCH_OPS.includes(op) || actualNext !== index + 1;
+            predictorState = resolveBranch(predictor, predictorState, index, op, prediction, taken, actualNext);
+        }
+    });
+
+    return {
+        source: name,
+        counts,
+        events: {
+            instructions: records.length - undecoded,
+            branches: predictorState.stats.branches,
+            jumps: predictorState.stats.jumps,
+            mispredictions: predictorState.stats.mispredictions,
+            memoryAccesses,
+            icacheMisses: icacheState.stats.misses,
+            dcacheMisses: loggedAddresses > 0 ? dcacheState.stats.misses : null,
+            loadUseStalls,
+            rawStalls: 0,
+        },
+        undecoded,
+        truncated: records.length >= MAX_TRACE_RECORDS,
+    };
+}
@@ -0,0 +1,119 @@
+// Value Change Dump (IEEE 1364) writer for simulator traces, readable by GTKWave and comparable against
+// dumps from ModelSim, Vivado or Verilator.
+
+export interface VcdSignal {
+    scope: string[]; // Module path, outermost first
+    name: string;
+    width: number;
+}
+
+export interface VcdSample {
+    time: number; // In timescale units
+    values: (number | null)[]; // One per signal, in declaration order; null dumps as x
+}
+
+export interface VcdOptions {
+    signals: VcdSignal[];
+    samples: VcdSample[]; // In increasing time order
+    timescale?: string;
+    version?: string;
+    date?: Date;
+}
+
+// The signals that changed at one time: [signal index, new value] pairs.
+export interface VcdChange {
+    time: number;
+    values: [number, number | null][];
+}
+
+// Value changes accumulated one sample at a time, so a long simulation can be dumped without keeping every
+// sample. Records are mutated in place.
+export interface VcdRecording {
+    signals: VcdSignal[];
+    changes: VcdChange[]; // In increasing time order
+    current: (number | null | undefined)[]; // Value of each signal after the last change; undefined before the first
+}
+
+// Identifier codes are base-94 strings over the printable ASCII range '!'..'~'.
+const identifier = (index: number): string => {
+    let code = '';
+    let n = index;
+    do {
+        code += String.fromCharCode(33 + (n % 94));
+        n = Math.floor(n / 94);
+    } while (n > 0);
+    return code;
+};
+
+const formatValue = (value: number | null, width: number, id: string): string => {
+    if (width === 1) return `${value === null ? 'x' : value ? 1 : 0}${id}`;
+    if (value === null) return `bx ${id}`;
+    const bits = width >= 32 ? value >>> 0 : value & ((1 << width) - 1);
+    return `b${bits.toString(2)} ${id}`;
+};
+
+export const createVcdRecording = (signals: VcdSignal[]): VcdRecording =>
+    ({ signals, changes: [], current: signals.map(() => undefined) });
+
+// Appends the values of `sample` that differ from the recording's current ones. Samples must come in
+// increasing time order.
+export function recordVcdSample(recording: VcdRecording, sample: VcdSample): void {
+    const values: [number, number | null][] = [];
+    sample.values.forEach((value, i) => {
+        if (value !== recording.current[i]) values.push([i, value]);
+    });
+    if (values.length === 0) return;
+    values.forEach(([i, value]) => { recording.current[i] = value; });
+    recording.changes.push({ time: sample.time, values });
+}
+
+// Drops the changes after `time`, for a simulation that resumes from an earlier state.
+export function truncateVcdRecording(recording: VcdRecording, time: number): void {
+    let kept = recording.changes.length;
+    while (kept > 0 && recording.changes[kept - 1].time > time) kept--;
+    if (kept === recording.changes.length) return;
+    recording.changes.length = kept;
+    recording.current = recording.signals.map(() => undefined);
+    recording.changes.forEach(change => change.values.forEach(([i, value]) => { recording.current[i] = value; }));
+}
+
+export function writeVcdRecording(
+    { signals, changes }: VcdRecording,
+    { timescale = '1ns', version = 'RISC-V pipeline simulator', date = new Date() }: Omit<VcdOptions, 'signals' | 'samples'> = {},
+): string {
+    const ids = signals.map((_, i) => identifier(i));
+    const lines = [
+        `$date ${date.toUTCString()} $end`,
+        `$version ${version} $end`,
+        `$timescale ${timescale} $end`,
+    ];
+
+    // Emit scopes in order of first use, closing and opening modules only where the paths differ.
+    let openScope: string[] = [];
+    signals.forEach((signal, i) => {
+        let common = 0;
+        while (common < openScope.length && common < signal.scope.length && openScope[common] === signal.scope[common]) common++;
+        for (let depth = openScope.length; depth > common; depth--) lines.push('$upscope $end');
+        signal.scope.slice(common).forEach(module => lines.push(`$scope module ${module} $end`));
+        openScope = signal.scope;
+        lines.push(`$var wire ${signal.width} ${ids[i]} ${signal.name}${signal.width > 1 ? ` [${signal.width - 1}:0]` : ''} $end`);
+    });
+    openScope.forEach(() => lines.push('$upscope $end'));
+    lines.push('$enddefinitions $end');
+
+    // The first change dumps every signal's initial value.
+    changes.forEach((change, c) => {
+        const values = change.values.map(([i, value]) => formatValue(value, signals[i].width, ids[i]));
+        lines.push(`#${change.time}`);
+        if (c === 0) lines.push('$dumpvars', ...values, '$end');
+        else lines.push(...values);
+    });
+    return lines.join('\n') + '\n';
+}
+
+// Only values that changed since the previous sample are dumped; the first sample dumps everything.
+export function writeVcd({ signals, samples, ...options }: VcdOptions): string {
+    const recording = createVcdRecording(signals);
+    samples.forEach(sample => recordVcdSample(recording, sample));
+    return writeVcdRecording(recording, options);
+}